@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { CompanyConfig, CompanyConfigError, CompanyConfigService } from '@/lib/company-config';
+
+export const dynamic = 'force-dynamic';
+
+interface CompanyConfigRouteContext {
+  params: Promise<{ companyId: string }>;
+}
+
+// Full configuration, including disabled categories
+export async function GET(request: NextRequest, context: CompanyConfigRouteContext) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const { companyId } = await context.params;
+  return respond(() => new CompanyConfigService().get(companyId));
+}
+
+// Replaces the company's configuration; categories left out keep their defaults
+export async function PUT(request: NextRequest, context: CompanyConfigRouteContext) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const { companyId } = await context.params;
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+  return respond(() => new CompanyConfigService().save(companyId, body));
+}
+
+// Back to the default categories and account codes
+export async function DELETE(request: NextRequest, context: CompanyConfigRouteContext) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const { companyId } = await context.params;
+  return respond(() => new CompanyConfigService().reset(companyId));
+}
+
+async function respond(action: () => Promise<CompanyConfig>): Promise<NextResponse> {
+  try {
+    const config = await action();
+    return NextResponse.json({ success: true, config });
+  } catch (error) {
+    if (error instanceof CompanyConfigError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+    }
+
+    console.error('[CompanyConfig] Error handling admin request:', error);
+    return NextResponse.json(
+      { error: 'Failed to update company configuration', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReceiptAnalysisService } from '@/lib/receipt-analysis-service';
+import { analysisErrorResponse } from '@/lib/analysis-error-response';
+import { DirectUploadService } from '@/lib/direct-upload';
+import { withIdempotency } from '@/lib/idempotency';
+
+export const maxDuration = 60; // Multi-page PDFs poll Textract's asynchronous API
+
+// Analyzes a receipt the browser already uploaded with a URL from /api/uploads
+export async function POST(request: NextRequest) {
+  if (!DirectUploadService.enabled) {
+    return NextResponse.json({ error: 'Direct uploads are disabled' }, { status: 404 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  if (!body.key || typeof body.key !== 'string') {
+    return NextResponse.json({ error: 'No upload key provided' }, { status: 400 });
+  }
+
+  const analysisService = getReceiptAnalysisService();
+
+  // Shares keys with /api/analyze-receipt, so a retry is caught whichever way the file was sent.
+  // A replayed retry never analyzes its fresh upload, so remove it.
+  return withIdempotency(
+    request,
+    'analyze-receipt',
+    () => analyzeUploadedKey(body),
+    { onReplay: () => analysisService.deleteUpload(body.key) }
+  );
+}
+
+async function analyzeUploadedKey(body: { key: string; fileName?: string; companyId?: string; reportId?: string; employeeName?: string }) {
+  try {
+    const result = await getReceiptAnalysisService().analyzeStored(body.key, body.fileName || '', {
+      archiveContext: {
+        companyId: body.companyId || undefined,
+        reportId: body.reportId || undefined,
+        employeeName: body.employeeName || undefined,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result.documents[0],
+      documents: result.documents,
+      cached: result.cached,
+      cachedAt: result.cachedAt,
+      analysisPath: result.analysisPath,
+      archive: result.archive
+    });
+  } catch (error) {
+    console.error(`Receipt analysis error for upload ${body.key}:`, error);
+    return analysisErrorResponse(error);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ReceiptArchive } from '@/lib/receipt-archive';
+import { StorageObjectNotFoundError } from '@/lib/storage-provider';
+
+export const dynamic = 'force-dynamic';
+
+interface ArchiveRouteContext {
+  params: Promise<{ key: string[] }>;
+}
+
+/**
+ * Streams an archived original receipt for a link from ReceiptArchive.downloadUrlOf,
+ * e.g. GET /api/archive/archive/acme/report-42/<sha256>.jpg?expires=...&signature=...
+ */
+export async function GET(request: NextRequest, context: ArchiveRouteContext) {
+  const { key: keyParts } = await context.params;
+  const key = keyParts.join('/');
+  const searchParams = request.nextUrl.searchParams;
+
+  if (!ReceiptArchive.isArchiveKey(key)) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  const expires = parseInt(searchParams.get('expires') || '', 10);
+  if (!ReceiptArchive.verifyDownload(key, expires, searchParams.get('signature') || '')) {
+    return NextResponse.json({ error: 'Invalid or expired signature' }, { status: 403 });
+  }
+
+  try {
+    const object = await new ReceiptArchive().open(key);
+    const fileName = decodeURIComponent(object.metadata.originalname || object.metadata.originalName || key.split('/').pop() || 'receipt');
+    const disposition = searchParams.get('download') === 'true' ? 'attachment' : 'inline';
+
+    const headers: Record<string, string> = {
+      'Content-Type': object.contentType || 'application/octet-stream',
+      'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      'Cache-Control': 'private, no-store',
+    };
+    if (object.contentLength !== undefined) {
+      headers['Content-Length'] = object.contentLength.toString();
+    }
+
+    return new NextResponse(object.stream, { headers });
+  } catch (error) {
+    if (error instanceof StorageObjectNotFoundError) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('[Archive] Error reading archived receipt:', error);
+    return NextResponse.json({ error: 'Failed to read archived receipt' }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CompanyConfigError, CompanyConfigService } from '@/lib/company-config';
+
+export const dynamic = 'force-dynamic';
+
+// Enabled expense categories for the category dropdown (?companyId=..., defaults to MYNEW_DEFAULT_COMPANY_ID)
+export async function GET(request: NextRequest) {
+  try {
+    const config = await new CompanyConfigService().get(request.nextUrl.searchParams.get('companyId'));
+    return NextResponse.json({
+      success: true,
+      companyId: config.companyId,
+      categories: CompanyConfigService.enabledCategories(config),
+    });
+  } catch (error) {
+    if (error instanceof CompanyConfigError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+    }
+
+    console.error('[Categories] Error loading company categories:', error);
+    return NextResponse.json({ error: 'Failed to load expense categories' }, { status: 500 });
+  }
+}
@@ -1,17 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { NormalizedAmountField, ReceiptNormalizer, ReceiptValues } from '@/lib/receipt-normalizer';
+import { ExpenseCategories, ExpenseCategoryId } from '@/lib/expense-categories';
+import { CompanyConfigError, CompanyConfigService, MAX_COMPANY_CATEGORIES } from '@/lib/company-config';
 
 export const maxDuration = 30; // Increased timeout for ExcelJS operations
 export const dynamic = 'force-dynamic';
 
 interface ReceiptData {
-  data: {
-    date?: string;
+  data: ReceiptValues & {
     vendor?: string;
-    merchant?: string;
     store?: string;
     location?: string;
-    category?: string;
-    total?: string;
   };
 }
 
@@ -29,7 +28,7 @@ export async function POST(request: NextRequest) {
   try {
     console.log('[API] export-complete-report started');
     const requestBody = await request.json();
-    const { receipts, mileageEntries, employeeName } = requestBody;
+    const { receipts, mileageEntries, employeeName, companyId } = requestBody;
     
     console.log('[API] Data received:', {
       employeeName,
@@ -150,19 +149,14 @@ export async function POST(request: NextRequest) {
       };
     }
 
-    // Initialize totals
-    let hotelTotal = 0;
-    let mealTotal = 0;
-    let entertainmentTotal = 0;
-    let transportTotal = 0;
-    let computerTotal = 0;
-    let cellPhoneTotal = 0;
-    let gasTotal = 0;
-    let copiesTotal = 0;
-    let duesTotal = 0;
-    let postageTotal = 0;
-    let officeTotal = 0;
-    let miscTotal = 0;
+    // The company's categories decide the account coding; report columns stay fixed
+    const companyConfig = await new CompanyConfigService().get(companyId);
+
+    // Initialize totals, per report column and per company category
+    const categoryTotals = new Map<ExpenseCategoryId, number>(
+      ExpenseCategories.all().map(category => [category.id, 0])
+    );
+    const accountTotals = new Map<string, number>();
     let grandTotal = 0;
 
     // Rows 10-37: Expense entries (28 rows available for entries)
@@ -171,44 +165,9 @@ export async function POST(request: NextRequest) {
     
     if (receipts && receipts.length > 0) {
       // Sort receipts by date before processing
-      const sortedReceipts = [...receipts].sort((a: ReceiptData, b: ReceiptData) => {
-        const dateA = a.data.date || '';
-        const dateB = b.data.date || '';
-        
-        if (!dateA && !dateB) return 0;
-        if (!dateA) return 1; // No date goes to end
-        if (!dateB) return -1; // No date goes to end
-        
-        // Parse dates properly
-        const parseDate = (dateStr: string): Date | null => {
-          if (!dateStr) return null;
-          
-          // Match M/D/YY or MM/DD/YY or M/D/YYYY or MM/DD/YYYY format
-          const match = dateStr.trim().match(/^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})$/);
-          if (match) {
-            const month = parseInt(match[1], 10);
-            const day = parseInt(match[2], 10);
-            let year = parseInt(match[3], 10);
-            
-            // Convert 2-digit year to 4-digit
-            if (year < 100) {
-              year = 2000 + year;
-            }
-            
-            return new Date(year, month - 1, day, 12, 0, 0);
-          }
-          return null;
-        };
-        
-        const parsedDateA = parseDate(dateA);
-        const parsedDateB = parseDate(dateB);
-        
-        if (!parsedDateA && !parsedDateB) return 0;
-        if (!parsedDateA) return 1;
-        if (!parsedDateB) return -1;
-        
-        return parsedDateA.getTime() - parsedDateB.getTime();
-      });
+      const sortedReceipts = [...receipts].sort((a: ReceiptData, b: ReceiptData) =>
+        ReceiptNormalizer.compareByDate(a.data, b.data)
+      );
       
       console.log('[API] Sorted dates:', sortedReceipts.map((r: ReceiptData) => r.data.date));
       
@@ -220,29 +179,7 @@ export async function POST(request: NextRequest) {
           console.log('Receipt data:', receipt.data);
           
           // Date (Column A) - Format with leading zeros
-          const formatDate = (dateStr: string | undefined): string => {
-            if (!dateStr) return '';
-            
-            const match = dateStr.trim().match(/^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})$/);
-            if (match) {
-              const month = parseInt(match[1], 10);
-              const day = parseInt(match[2], 10);
-              let year = parseInt(match[3], 10);
-              
-              if (year < 100) {
-                year = 2000 + year;
-              }
-              
-              // Format with leading zeros
-              const formattedMonth = month.toString().padStart(2, '0');
-              const formattedDay = day.toString().padStart(2, '0');
-              
-              return `${formattedMonth}/${formattedDay}/${year}`;
-            }
-            return dateStr;
-          };
-          
-          row.getCell(1).value = formatDate(receipt.data.date);
+          row.getCell(1).value = ReceiptNormalizer.formatReportDate(ReceiptNormalizer.isoDateOf(receipt.data)) || receipt.data.date || '';
           
           // Location (Column B) - Try multiple possible field names for merchant/vendor
           const merchant = receipt.data.vendor || receipt.data.merchant || receipt.data.store || receipt.data.location || '';
@@ -253,50 +190,14 @@ export async function POST(request: NextRequest) {
           row.getCell(4).value = receipt.data.category || 'Business Expense';
           
           // Amount in appropriate column based on category
-          const amount = parseFloat(receipt.data.total?.replace(/[^\d.-]/g, '') || '0');
+          const amount = ReceiptNormalizer.amountOf(receipt.data);
           
           // Categorize expenses based on dropdown categories
-          const category = receipt.data.category?.toLowerCase() || '';
-          
-          if (category.includes('hotel') || category.includes('lodging') || category.includes('motel')) {
-            row.getCell(7).value = amount; // G: Hotel/Motel
-            hotelTotal += amount;
-          } else if (category.includes('food') || category.includes('meal') || category.includes('restaurant') ||
-                     receipt.data.vendor?.toLowerCase().includes('restaurant')) {
-            row.getCell(8).value = amount; // H: Meals
-            mealTotal += amount;
-          } else if (category.includes('entertainment')) {
-            row.getCell(9).value = amount; // I: Entertainment
-            entertainmentTotal += amount;
-          } else if (category.includes('transport') || category.includes('uber') || category.includes('lyft') ||
-                     category.includes('taxi') || category.includes('air') || category.includes('rail')) {
-            row.getCell(10).value = amount; // J: Transport
-            transportTotal += amount;
-          } else if (category.includes('computer') || category.includes('supplies')) {
-            row.getCell(11).value = amount; // K: Computer Supplies
-            computerTotal += amount;
-          } else if (category.includes('cell') || category.includes('phone')) {
-            row.getCell(12).value = amount; // L: Cell Phone
-            cellPhoneTotal += amount;
-          } else if (category.includes('gas') || category.includes('mileage') || category.includes('fuel')) {
-            row.getCell(13).value = amount; // M: Gas/Mileage
-            gasTotal += amount;
-          } else if (category.includes('copies') || category.includes('printing')) {
-            row.getCell(14).value = amount; // N: Copies
-            copiesTotal += amount;
-          } else if (category.includes('dues') || category.includes('membership')) {
-            row.getCell(15).value = amount; // O: Dues
-            duesTotal += amount;
-          } else if (category.includes('postage') || category.includes('shipping')) {
-            row.getCell(16).value = amount; // P: Postage
-            postageTotal += amount;
-          } else if (category.includes('office')) {
-            row.getCell(17).value = amount; // Q: Office Supplies
-            officeTotal += amount;
-          } else {
-            row.getCell(18).value = amount; // R: Misc
-            miscTotal += amount;
-          }
+          const companyCategory = CompanyConfigService.resolveCategory(companyConfig, receipt.data.category);
+          const category = ExpenseCategories.get(companyCategory.reportAs);
+          row.getCell(ExpenseCategories.columnNumber(category, 'completeReport')).value = amount;
+          categoryTotals.set(category.id, (categoryTotals.get(category.id) || 0) + amount);
+          accountTotals.set(companyCategory.id, (accountTotals.get(companyCategory.id) || 0) + amount);
           
           // Row total in column S (19)
           row.getCell(19).value = amount;
@@ -351,7 +252,8 @@ export async function POST(request: NextRequest) {
       mileageTotal = mileageEntries.reduce((sum: number, entry: MileageEntry) => 
         sum + (entry.reimbursableAmount || 0), 0
       );
-      gasTotal = mileageTotal;
+      categoryTotals.set('gas', (categoryTotals.get('gas') || 0) + mileageTotal);
+      accountTotals.set('gas', (accountTotals.get('gas') || 0) + mileageTotal);
     }
 
     // Row 38: Empty row
@@ -364,18 +266,9 @@ export async function POST(request: NextRequest) {
     const row39 = expenseSheet.getRow(39);
     row39.getCell(6).value = 'TOTALS';
     row39.getCell(6).font = { bold: true };
-    row39.getCell(7).value = hotelTotal || '';
-    row39.getCell(8).value = mealTotal || '';
-    row39.getCell(9).value = entertainmentTotal || '';
-    row39.getCell(10).value = transportTotal || '';
-    row39.getCell(11).value = computerTotal || '';
-    row39.getCell(12).value = cellPhoneTotal || '';
-    row39.getCell(13).value = gasTotal || '';
-    row39.getCell(14).value = copiesTotal || '';
-    row39.getCell(15).value = duesTotal || '';
-    row39.getCell(16).value = postageTotal || '';
-    row39.getCell(17).value = officeTotal || '';
-    row39.getCell(18).value = miscTotal || '';
+    ExpenseCategories.all().forEach(category => {
+      row39.getCell(ExpenseCategories.columnNumber(category, 'completeReport')).value = categoryTotals.get(category.id) || '';
+    });
     row39.getCell(19).value = grandTotal + mileageTotal;
     
     // Format and style totals row
@@ -400,16 +293,7 @@ export async function POST(request: NextRequest) {
     row40.getCell(6).value = 'AMOUNT';
     row40.getCell(7).value = 'Account Coding';
     
-    // Rows 41-47: Account coding section
-    const accountCoding = [
-      { desc: 'Hotel', account: '5710' },
-      { desc: 'Meals', account: '5714' },
-      { desc: 'Entertainment', account: '5718' },
-      { desc: 'Air', account: '5712' },
-      { desc: 'Computer Sup', account: '5405' },
-      { desc: 'Mileage/Gas', account: '5720' },
-    ];
-
+    // Rows 42-53: Account coding section, the company's categories in two columns
     const row42 = expenseSheet.getRow(42);
     row42.getCell(6).value = 'Desc.';
     row42.getCell(7).value = 'Account';
@@ -418,28 +302,22 @@ export async function POST(request: NextRequest) {
     row42.getCell(11).value = 'Account';
     row42.getCell(12).value = 'Amount';
 
+    // Disabled categories are still listed when older receipts use them
+    const codedCategories = companyConfig.categories
+      .filter(category => category.enabled || accountTotals.get(category.id))
+      .slice(0, MAX_COMPANY_CATEGORIES);
     const codingRow = 43;
-    accountCoding.forEach((code, index) => {
-      const row = expenseSheet.getRow(codingRow + Math.floor(index / 2));
-      const colOffset = (index % 2) === 0 ? 6 : 10;
-      row.getCell(colOffset).value = code.desc;
-      row.getCell(colOffset + 1).value = code.account;
-    });
-
-    // Additional account codes in second column
-    const additionalCodes = [
-      { desc: 'Copies', account: '5560' },
-      { desc: 'Other', account: '5718' },
-      { desc: 'Dues&Sub', account: '5470' },
-      { desc: 'Cell Phones', account: '5678' },
-      { desc: 'Office Supplies', account: '5560' },
-      { desc: 'Postage', account: '5590' },
-    ];
-
-    additionalCodes.forEach((code, index) => {
-      const row = expenseSheet.getRow(43 + index);
-      row.getCell(10).value = code.desc;
-      row.getCell(11).value = code.account;
+    const codesPerColumn = Math.max(6, Math.ceil(codedCategories.length / 2));
+    codedCategories.forEach((category, index) => {
+      const row = expenseSheet.getRow(codingRow + (index % codesPerColumn));
+      const colOffset = index < codesPerColumn ? 6 : 10;
+      row.getCell(colOffset).value = category.label;
+      row.getCell(colOffset + 1).value = CompanyConfigService.accountCode(category);
+      const total = accountTotals.get(category.id) || 0;
+      if (total) {
+        row.getCell(colOffset + 2).value = total;
+        row.getCell(colOffset + 2).numFmt = '$#,##0.00';
+      }
     });
 
     // Rows 51-53: Certification text
@@ -487,6 +365,100 @@ export async function POST(request: NextRequest) {
     row59.getCell(1).value = 'revision 1/03/06';
     row59.getCell(1).font = { size: 8, italic: true };
 
+    // Create Receipt Details sheet with the per-receipt breakdown (tips, adjustments, payment)
+    if (receipts && receipts.length > 0) {
+      const detailsSheet = workbook.addWorksheet('Receipt Details');
+
+      const detailColumns: Array<{
+        header: string;
+        width: number;
+        amount?: NormalizedAmountField;
+        text?: 'paymentMethod' | 'cardLastFour' | 'receiptNumber';
+      }> = [
+        { header: 'Date', width: 12 },
+        { header: 'Merchant', width: 30 },
+        { header: 'Subtotal', width: 12, amount: 'subtotal' },
+        { header: 'Tax', width: 12, amount: 'tax' },
+        { header: 'Tip', width: 12, amount: 'tip' },
+        { header: 'Gratuity', width: 12, amount: 'gratuity' },
+        { header: 'Service Charge', width: 14, amount: 'serviceCharge' },
+        { header: 'Discount', width: 12, amount: 'discount' },
+        { header: 'Total', width: 12, amount: 'total' },
+        { header: 'Payment Method', width: 16, text: 'paymentMethod' },
+        { header: 'Card Last Four', width: 14, text: 'cardLastFour' },
+        { header: 'Receipt #', width: 18, text: 'receiptNumber' },
+      ];
+      const lastDetailColumn = detailsSheet.getColumn(detailColumns.length).letter;
+      detailsSheet.columns = detailColumns.map(column => ({ width: column.width }));
+
+      // Title
+      detailsSheet.mergeCells(`A1:${lastDetailColumn}1`);
+      const detailsTitleCell = detailsSheet.getCell('A1');
+      detailsTitleCell.value = 'RECEIPT DETAILS';
+      detailsTitleCell.font = { size: 14, bold: true };
+      detailsTitleCell.alignment = { horizontal: 'center' };
+
+      // Employee name
+      detailsSheet.mergeCells(`A2:${lastDetailColumn}2`);
+      const detailsNameCell = detailsSheet.getCell('A2');
+      detailsNameCell.value = `Employee: ${employeeName}`;
+      detailsNameCell.font = { bold: true };
+
+      // Headers
+      const detailsHeaderRow = detailsSheet.getRow(4);
+      detailColumns.forEach((column, index) => {
+        const cell = detailsHeaderRow.getCell(index + 1);
+        cell.value = column.header;
+        cell.font = { bold: true };
+        cell.fill = {
+          type: 'pattern',
+          pattern: 'solid',
+          fgColor: { argb: 'FFE0E0E0' }
+        };
+        cell.border = {
+          top: { style: 'thin' },
+          left: { style: 'thin' },
+          bottom: { style: 'thin' },
+          right: { style: 'thin' }
+        };
+      });
+
+      let detailsRow = 5;
+      [...receipts]
+        .sort((a: ReceiptData, b: ReceiptData) => ReceiptNormalizer.compareByDate(a.data, b.data))
+        .forEach((receipt: ReceiptData) => {
+          const row = detailsSheet.getRow(detailsRow);
+
+          row.getCell(1).value = ReceiptNormalizer.formatReportDate(ReceiptNormalizer.isoDateOf(receipt.data)) || receipt.data.date || '';
+          row.getCell(2).value = receipt.data.vendor || receipt.data.merchant || receipt.data.store || receipt.data.location || '';
+
+          detailColumns.forEach((column, index) => {
+            const cell = row.getCell(index + 1);
+            if (column.text) {
+              cell.value = receipt.data[column.text] || '';
+              return;
+            }
+            if (!column.amount) return;
+            // Leave the cell blank when the receipt doesn't have the field at all
+            if (receipt.data[column.amount]) {
+              cell.value = ReceiptNormalizer.amountOf(receipt.data, column.amount);
+              cell.numFmt = '$#,##0.00';
+            }
+          });
+
+          for (let col = 1; col <= detailColumns.length; col++) {
+            row.getCell(col).border = {
+              top: { style: 'thin' },
+              left: { style: 'thin' },
+              bottom: { style: 'thin' },
+              right: { style: 'thin' }
+            };
+          }
+
+          detailsRow++;
+        });
+    }
+
     // Create Mileage Details sheet if there are mileage entries
     if (mileageEntries && mileageEntries.length > 0) {
       const mileageSheet = workbook.addWorksheet('Mileage Details');
@@ -618,6 +590,9 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof CompanyConfigError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+    }
     console.error('Error generating report:', error);
     return NextResponse.json(
       { error: 'Failed to generate report', details: error instanceof Error ? error.message : 'Unknown error' },
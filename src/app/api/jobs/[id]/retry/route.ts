@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalysisJobRequestError, getAnalysisJobQueue } from '@/lib/analysis-job-queue';
+
+export const dynamic = 'force-dynamic';
+
+interface RetryRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Re-queues a failed job with the file it was uploaded with
+export async function POST(request: NextRequest, context: RetryRouteContext) {
+  const { id } = await context.params;
+
+  try {
+    const job = await getAnalysisJobQueue().retry(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, job }, { status: 202 });
+  } catch (error) {
+    if (error instanceof AnalysisJobRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[Jobs] Error retrying job ${id}:`, error);
+    return NextResponse.json({ error: 'Failed to retry job' }, { status: 500 });
+  }
+}
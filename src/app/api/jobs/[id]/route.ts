@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisJobQueue } from '@/lib/analysis-job-queue';
+
+export const dynamic = 'force-dynamic';
+
+interface JobRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, context: JobRouteContext) {
+  const { id } = await context.params;
+
+  try {
+    const job = await getAnalysisJobQueue().getJob(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error(`[Jobs] Error reading job ${id}:`, error);
+    return NextResponse.json({ error: 'Failed to read the job' }, { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalysisJobInput, AnalysisJobRequestError, getAnalysisJobQueue } from '@/lib/analysis-job-queue';
+import { isFinished } from '@/lib/analysis-job-store';
+import { DirectUploadService } from '@/lib/direct-upload';
+import type { ArchiveContext } from '@/lib/receipt-archive';
+
+export const dynamic = 'force-dynamic';
+
+// Optional string fields of a JSON submission
+const CONTEXT_FIELDS = ['companyId', 'reportId', 'employeeName', 'batchId'] as const;
+
+const isUploadEntry = (upload: unknown): upload is { key: string; fileName?: string } => {
+  if (!upload || typeof upload !== 'object') return false;
+  const { key, fileName } = upload as { key?: unknown; fileName?: unknown };
+  return typeof key === 'string' && (fileName == null || typeof fileName === 'string');
+};
+
+/**
+ * Submits a batch of receipts for background analysis and answers 202 with the job ids.
+ * Accepts multipart form data with one or more "file" fields, or JSON
+ * { uploads: [{ key, fileName }] } for files already uploaded through /api/uploads.
+ * An optional batchId adds the files to an existing batch.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let inputs: AnalysisJobInput[];
+    let archiveContext: ArchiveContext;
+    let batchId: string | undefined;
+
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      let body;
+      try {
+        body = await request.json();
+      } catch {
+        return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+      }
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+      }
+      const uploads: unknown[] = Array.isArray(body.uploads) ? body.uploads : [];
+      if (!uploads.every(isUploadEntry)) {
+        return NextResponse.json({ error: 'Each upload must be an object with a string key' }, { status: 400 });
+      }
+      const invalidField = CONTEXT_FIELDS.find(field => body[field] != null && typeof body[field] !== 'string');
+      if (invalidField) {
+        return NextResponse.json({ error: `${invalidField} must be a string` }, { status: 400 });
+      }
+      inputs = uploads.map(upload => ({
+        uploadKey: upload.key,
+        fileName: upload.fileName || upload.key,
+      }));
+      archiveContext = {
+        companyId: body.companyId || undefined,
+        reportId: body.reportId || undefined,
+        employeeName: body.employeeName || undefined,
+      };
+      batchId = body.batchId || undefined;
+    } else {
+      const formData = await request.formData();
+      const files = formData.getAll('file').filter((entry): entry is File => typeof entry !== 'string');
+      const uploads = new DirectUploadService();
+
+      inputs = [];
+      for (const file of files) {
+        const uploadKey = await uploads.stage(new Uint8Array(await file.arrayBuffer()), file.name, file.type);
+        inputs.push({ uploadKey, fileName: file.name });
+      }
+      archiveContext = {
+        companyId: (formData.get('companyId') as string | null) || undefined,
+        reportId: (formData.get('reportId') as string | null) || undefined,
+        employeeName: (formData.get('employeeName') as string | null) || undefined,
+      };
+      batchId = (formData.get('batchId') as string | null) || undefined;
+    }
+
+    const batch = await getAnalysisJobQueue().enqueueBatch(inputs, archiveContext, batchId);
+    return NextResponse.json(
+      {
+        success: true,
+        batchId: batch.batchId,
+        jobs: batch.jobs.map(job => ({ id: job.id, fileName: job.fileName, status: job.status })),
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof AnalysisJobRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('[Jobs] Error submitting batch:', error);
+    return NextResponse.json({ error: 'Failed to queue receipts for analysis' }, { status: 500 });
+  }
+}
+
+// Status of every job in a batch: GET /api/jobs?batchId=...
+export async function GET(request: NextRequest) {
+  const batchId = request.nextUrl.searchParams.get('batchId');
+  if (!batchId) {
+    return NextResponse.json({ error: 'batchId is required' }, { status: 400 });
+  }
+
+  try {
+    const jobs = await getAnalysisJobQueue().getBatch(batchId);
+    if (jobs.length === 0) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      batchId,
+      done: jobs.every(isFinished),
+      jobs,
+    });
+  } catch (error) {
+    console.error(`[Jobs] Error reading batch ${batchId}:`, error);
+    return NextResponse.json({ error: 'Failed to read the batch' }, { status: 500 });
+  }
+}
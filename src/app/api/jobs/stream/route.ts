@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisJobQueue } from '@/lib/analysis-job-queue';
+import { AnalysisJob, isFinished } from '@/lib/analysis-job-store';
+
+export const dynamic = 'force-dynamic';
+
+// Proxies close idle connections, so send a comment line this often
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Server-Sent Events stream for a batch: GET /api/jobs/stream?batchId=...
+ * Sends a "job" event with the current state of every job on connect and again on
+ * each stage change (uploaded, validated, analyzing, parsed, failed), then a "done"
+ * event once every job in the batch has finished.
+ */
+export async function GET(request: NextRequest) {
+  const batchId = request.nextUrl.searchParams.get('batchId');
+  if (!batchId) {
+    return NextResponse.json({ error: 'batchId is required' }, { status: 400 });
+  }
+
+  const queue = getAnalysisJobQueue();
+  let initialJobs: AnalysisJob[];
+  try {
+    initialJobs = await queue.getBatch(batchId);
+  } catch (error) {
+    console.error(`[Jobs] Error reading batch ${batchId}:`, error);
+    return NextResponse.json({ error: 'Failed to read the batch' }, { status: 500 });
+  }
+  if (initialJobs.length === 0) {
+    return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const jobs = new Map(initialJobs.map(job => [job.id, job]));
+      let closed = false;
+
+      const send = (event: string, data: unknown) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        }
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {
+          // Already closed because the client went away
+        }
+      };
+
+      const sendDoneIfFinished = () => {
+        if (Array.from(jobs.values()).every(isFinished)) {
+          send('done', { batchId });
+          close();
+        }
+      };
+
+      // Ignore anything older than what the client already has
+      const update = (job: AnalysisJob) => {
+        const known = jobs.get(job.id);
+        if (known && known.updatedAt > job.updatedAt) return;
+        jobs.set(job.id, job);
+        send('job', job);
+      };
+
+      const unsubscribe = queue.subscribe((job: AnalysisJob) => {
+        if (job.batchId !== batchId) return;
+        update(job);
+        sendDoneIfFinished();
+      });
+
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = close;
+      request.signal.addEventListener('abort', close);
+
+      initialJobs.forEach(job => send('job', job));
+      sendDoneIfFinished();
+
+      // Catch up on changes made between the first read and subscribing
+      queue.getBatch(batchId)
+        .then(latestJobs => {
+          latestJobs.forEach(update);
+          sendDoneIfFinished();
+        })
+        .catch(error => console.error(`[Jobs] Could not refresh batch ${batchId}:`, error));
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
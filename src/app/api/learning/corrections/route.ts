@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CategoryLearningService, LearningRequestError } from '@/lib/category-learning';
+
+/**
+ * Records a category or purpose the user picked for a merchant, for future suggestions.
+ * Corrections only ever teach the employee's own mappings; the company's shared mappings
+ * change through the admin import on /api/learning/mappings.
+ */
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+
+  try {
+    if (body.companyId != null && typeof body.companyId !== 'string') {
+      throw new LearningRequestError('companyId must be a string');
+    }
+    if (typeof body.employeeName !== 'string' || !body.employeeName.trim()) {
+      throw new LearningRequestError('employeeName is required to record a correction');
+    }
+
+    const scope = CategoryLearningService.scopeFor(body.companyId, body.employeeName);
+    await new CategoryLearningService().record(scope, {
+      merchant: String(body.merchant || ''),
+      category: typeof body.category === 'string' ? body.category : undefined,
+      description: typeof body.description === 'string' ? body.description : undefined,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof LearningRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[CategoryLearning] Error recording correction:', error);
+    return NextResponse.json({ error: 'Failed to record correction' }, { status: 500 });
+  }
+}
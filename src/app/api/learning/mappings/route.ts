@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { CategoryLearningService, LearningImportMode, LearningRequestError } from '@/lib/category-learning';
+
+export const dynamic = 'force-dynamic';
+
+// Exports the learned mappings of a user (?userId=...) or, without one, the company's shared mappings
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  try {
+    const scope = CategoryLearningService.scopeFor(params.get('companyId'), params.get('userId'));
+    const exported = await new CategoryLearningService().export(scope);
+
+    const headers: Record<string, string> = {};
+    if (params.get('download') === 'true') {
+      headers['Content-Disposition'] = `attachment; filename="learned-mappings-${scope.companyId}.json"`;
+    }
+    return NextResponse.json(exported, { headers });
+  } catch (error) {
+    return errorResponse(error, 'Failed to export learned mappings');
+  }
+}
+
+/**
+ * Imports an export from GET into the given scope, so a team can share what one
+ * member's corrections taught. ?mode=replace discards the scope's mappings first.
+ * Replacing, and any import into the company's shared mappings, needs the admin token.
+ */
+export async function POST(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const mode = (params.get('mode') || 'merge') as LearningImportMode;
+  if (mode !== 'merge' && mode !== 'replace') {
+    return NextResponse.json({ error: 'mode must be "merge" or "replace"' }, { status: 400 });
+  }
+  if (mode === 'replace' || !params.get('userId')?.trim()) {
+    const denied = requireAdmin(request);
+    if (denied) return denied;
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    const scope = CategoryLearningService.scopeFor(params.get('companyId'), params.get('userId'));
+    const result = await new CategoryLearningService().import(scope, body, mode);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return errorResponse(error, 'Failed to import learned mappings');
+  }
+}
+
+function errorResponse(error: unknown, message: string): NextResponse {
+  if (error instanceof LearningRequestError) {
+    return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+  }
+
+  console.error(`[CategoryLearning] ${message}:`, error);
+  return NextResponse.json({ error: message }, { status: 500 });
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getExpenseRepository } from '@/lib/expense-repository';
+import { ExpenseRecords, recordErrorResponse } from '@/lib/expense-records';
+import { ReportLifecycleService } from '@/lib/report-lifecycle-service';
+
+export const dynamic = 'force-dynamic';
+
+interface MileageEntryRouteContext {
+  params: Promise<{ entryId: string }>;
+}
+
+export async function GET(request: NextRequest, context: MileageEntryRouteContext) {
+  const { entryId } = await context.params;
+  try {
+    const entry = await getExpenseRepository().getMileageEntry(entryId);
+    if (!entry) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to load mileage entry');
+  }
+}
+
+// Creates or replaces the entry under the id the browser gave it
+export async function PUT(request: NextRequest, context: MileageEntryRouteContext) {
+  const { entryId } = await context.params;
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    const input = ExpenseRecords.mileageInput(body, entryId);
+    const repository = getExpenseRepository();
+    const lifecycle = new ReportLifecycleService();
+    const existing = await repository.getMileageEntry(entryId);
+    // Neither the report it leaves nor the one it joins may be past draft
+    if (existing?.reportId) {
+      await lifecycle.editableReport(existing.reportId);
+    }
+    const report = input.reportId ? await lifecycle.editableReport(input.reportId) : null;
+
+    // A trip filed on a report belongs to the report's company
+    const entry = await repository.saveMileageEntry({ ...input, companyId: report?.companyId ?? input.companyId });
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to save mileage entry');
+  }
+}
+
+export async function DELETE(request: NextRequest, context: MileageEntryRouteContext) {
+  const { entryId } = await context.params;
+  try {
+    const repository = getExpenseRepository();
+    const entry = await repository.getMileageEntry(entryId);
+    if (!entry) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+    if (entry.reportId) {
+      await new ReportLifecycleService().editableReport(entry.reportId);
+    }
+    await repository.deleteMileageEntry(entryId);
+    console.log(`[MileageEntries] DELETE - Removed entry with ID: ${entryId}`);
+    return NextResponse.json({ success: true, message: 'Mileage entry deleted successfully' });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to delete mileage entry');
+  }
+}
@@ -1,79 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withIdempotency } from '@/lib/idempotency';
+import { ContentHash } from '@/lib/content-hash';
+import { getExpenseRepository } from '@/lib/expense-repository';
+import { ExpenseRecords, recordErrorResponse } from '@/lib/expense-records';
+import { ReportLifecycleService } from '@/lib/report-lifecycle-service';
+import { CompanyConfigService } from '@/lib/company-config';
 
-interface MileageEntryData {
-  id: string;
-  date: string;
-  startAddress: string;
-  endAddress: string;
-  businessPurpose: string;
-  roundTrip: boolean;
-  personalCommute: number;
-  calculatedDistance: number;
-  reimbursableDistance: number;
-  reimbursableAmount: number;
-  createdAt: Date;
-  companyId?: string; // For multi-tenant support
-}
-
-// In-memory storage for demo purposes
-// In production, this would be replaced with a proper database
-let mileageEntries: MileageEntryData[] = [];
+export const dynamic = 'force-dynamic';
 
+// Entries are kept in the expense database; ?reportId and ?companyId narrow the list
 export async function GET(req: NextRequest) {
   try {
-    console.log(`[MileageEntries] GET request - returning ${mileageEntries.length} entries`);
-    
-    // Sort by date descending (newest first)
-    const sortedEntries = [...mileageEntries].sort((a, b) => 
-      new Date(b.date).getTime() - new Date(a.date).getTime()
-    );
+    const url = new URL(req.url);
+    const companyId = url.searchParams.get('companyId');
+    const entries = await getExpenseRepository().listMileageEntries({
+      reportId: url.searchParams.get('reportId') || undefined,
+      companyId: companyId ? CompanyConfigService.companyIdOf(companyId) : undefined,
+    });
+    console.log(`[MileageEntries] GET request - returning ${entries.length} entries`);
 
     return NextResponse.json({
       success: true,
-      entries: sortedEntries,
-      total: sortedEntries.length
+      entries,
+      total: entries.length
     });
 
   } catch (error) {
-    console.error('[MileageEntries] GET Error:', error);
-    return NextResponse.json(
-      { 
-        error: 'Failed to fetch mileage entries',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
+    return recordErrorResponse(error, 'Failed to fetch mileage entries');
   }
 }
 
 export async function POST(req: NextRequest) {
+  let entryData: unknown;
   try {
-    const entryData: Omit<MileageEntryData, 'id' | 'createdAt'> = await req.json();
-
-    // Validate required fields
-    if (!entryData.date || !entryData.startAddress || !entryData.endAddress || !entryData.businessPurpose) {
-      return NextResponse.json(
-        { error: 'Missing required fields: date, startAddress, endAddress, businessPurpose' },
-        { status: 400 }
-      );
-    }
+    entryData = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be JSON' },
+      { status: 400 }
+    );
+  }
 
-    if (entryData.calculatedDistance === undefined || entryData.reimbursableDistance === undefined || entryData.reimbursableAmount === undefined) {
-      return NextResponse.json(
-        { error: 'Distance calculation required before saving' },
-        { status: 400 }
-      );
-    }
+  // A retried save with the same Idempotency-Key returns the entry created the first time
+  return withIdempotency(
+    req,
+    'mileage-entries',
+    () => createEntry(entryData),
+    { fingerprint: ContentHash.sha256(new TextEncoder().encode(JSON.stringify(entryData))) }
+  );
+}
 
-    // Create new entry with generated ID and timestamp
-    const newEntry: MileageEntryData = {
-      ...entryData,
-      id: `mileage_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      createdAt: new Date()
-    };
+async function createEntry(entryData: unknown): Promise<NextResponse> {
+  try {
+    // The browser's id is ignored here so a POST never overwrites an entry; use PUT /entries/{id}
+    const input = ExpenseRecords.mileageInput({ ...(entryData as object), id: undefined });
+    const repository = getExpenseRepository();
+    const report = input.reportId ? await new ReportLifecycleService().editableReport(input.reportId) : null;
 
-    // Add to in-memory storage
-    mileageEntries.push(newEntry);
+    // A trip filed on a report belongs to the report's company
+    const newEntry = await repository.saveMileageEntry({ ...input, companyId: report?.companyId ?? input.companyId });
 
     console.log(`[MileageEntries] POST - Created new entry with ID: ${newEntry.id}`);
     console.log(`[MileageEntries] Entry details:`, {
@@ -90,14 +75,7 @@ export async function POST(req: NextRequest) {
     });
 
   } catch (error) {
-    console.error('[MileageEntries] POST Error:', error);
-    return NextResponse.json(
-      { 
-        error: 'Failed to create mileage entry',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
+    return recordErrorResponse(error, 'Failed to create mileage entry');
   }
 }
 
@@ -113,16 +91,18 @@ export async function DELETE(req: NextRequest) {
       );
     }
 
-    // Find and remove entry
-    const initialLength = mileageEntries.length;
-    mileageEntries = mileageEntries.filter(entry => entry.id !== entryId);
-
-    if (mileageEntries.length === initialLength) {
+    const repository = getExpenseRepository();
+    const entry = await repository.getMileageEntry(entryId);
+    if (!entry) {
       return NextResponse.json(
         { error: 'Entry not found' },
         { status: 404 }
       );
     }
+    if (entry.reportId) {
+      await new ReportLifecycleService().editableReport(entry.reportId);
+    }
+    await repository.deleteMileageEntry(entryId);
 
     console.log(`[MileageEntries] DELETE - Removed entry with ID: ${entryId}`);
 
@@ -132,13 +112,6 @@ export async function DELETE(req: NextRequest) {
     });
 
   } catch (error) {
-    console.error('[MileageEntries] DELETE Error:', error);
-    return NextResponse.json(
-      { 
-        error: 'Failed to delete mileage entry',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
+    return recordErrorResponse(error, 'Failed to delete mileage entry');
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CompanyConfigError, CompanyConfigService } from '@/lib/company-config';
+import type { ExpensePolicyConfig } from '@/lib/expense-policy';
+
+export const dynamic = 'force-dynamic';
+
+// Enabled expense policy rules, evaluated in the browser as receipts are edited (?companyId=...)
+export async function GET(request: NextRequest) {
+  try {
+    const config = await new CompanyConfigService().get(request.nextUrl.searchParams.get('companyId'));
+    const policy: ExpensePolicyConfig = {
+      rules: config.policyRules.filter(rule => rule.enabled),
+      // Every category, so receipts still filed under a disabled one are matched to their rules
+      categories: config.categories.map(category => ({ id: category.id, label: category.label })),
+    };
+    return NextResponse.json({ success: true, companyId: config.companyId, ...policy });
+  } catch (error) {
+    if (error instanceof CompanyConfigError) {
+      return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+    }
+
+    console.error('[Policy] Error loading expense policy:', error);
+    return NextResponse.json({ error: 'Failed to load expense policy' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getExpenseRepository } from '@/lib/expense-repository';
+import { ExpenseRecords, recordErrorResponse } from '@/lib/expense-records';
+import { ReportLifecycleService } from '@/lib/report-lifecycle-service';
+import { ReceiptArchive } from '@/lib/receipt-archive';
+
+export const dynamic = 'force-dynamic';
+
+interface ReportReceiptRouteContext {
+  params: Promise<{ reportId: string; receiptId: string }>;
+}
+
+export async function GET(request: NextRequest, context: ReportReceiptRouteContext) {
+  const { reportId, receiptId } = await context.params;
+  try {
+    const receipt = await getExpenseRepository().getReceipt(receiptId);
+    if (!receipt || receipt.reportId !== reportId) {
+      return NextResponse.json({ error: 'Receipt not found' }, { status: 404 });
+    }
+    const [signed] = ReceiptArchive.withImageUrls([receipt]);
+    return NextResponse.json({ success: true, receipt: signed });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to load receipt');
+  }
+}
+
+// Creates or replaces the receipt, including its line items and image metadata
+export async function PUT(request: NextRequest, context: ReportReceiptRouteContext) {
+  const { reportId, receiptId } = await context.params;
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    const input = ExpenseRecords.receiptInput(body, receiptId);
+    const repository = getExpenseRepository();
+    await new ReportLifecycleService().editableReport(reportId);
+    const existing = await repository.getReceipt(receiptId);
+    if (existing && existing.reportId !== reportId) {
+      return NextResponse.json({ error: `Receipt ${receiptId} belongs to another report` }, { status: 409 });
+    }
+
+    const receipt = await repository.saveReceipt(reportId, input);
+    return NextResponse.json({ success: true, receipt });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to save receipt');
+  }
+}
+
+export async function DELETE(request: NextRequest, context: ReportReceiptRouteContext) {
+  const { reportId, receiptId } = await context.params;
+  try {
+    const repository = getExpenseRepository();
+    const receipt = await repository.getReceipt(receiptId);
+    if (!receipt || receipt.reportId !== reportId) {
+      return NextResponse.json({ error: 'Receipt not found' }, { status: 404 });
+    }
+
+    await new ReportLifecycleService().editableReport(reportId);
+    await repository.deleteReceipt(receiptId);
+    console.log(`[Reports] Removed receipt ${receiptId} from report ${reportId}`);
+    return NextResponse.json({ success: true, message: 'Receipt deleted successfully' });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to delete receipt');
+  }
+}
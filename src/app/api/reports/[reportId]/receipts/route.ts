@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getExpenseRepository } from '@/lib/expense-repository';
+import { ExpenseRecords, recordErrorResponse } from '@/lib/expense-records';
+import { ReportLifecycleService } from '@/lib/report-lifecycle-service';
+import { ReceiptArchive } from '@/lib/receipt-archive';
+
+export const dynamic = 'force-dynamic';
+
+interface ReportReceiptsRouteContext {
+  params: Promise<{ reportId: string }>;
+}
+
+export async function GET(request: NextRequest, context: ReportReceiptsRouteContext) {
+  const { reportId } = await context.params;
+  try {
+    const repository = getExpenseRepository();
+    if (!(await repository.getReport(reportId))) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    const receipts = ReceiptArchive.withImageUrls(await repository.listReceipts(reportId));
+    return NextResponse.json({ success: true, receipts, total: receipts.length });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to list receipts');
+  }
+}
+
+// Adds a receipt to a draft report; use PUT on the receipt's own URL to change it later
+export async function POST(request: NextRequest, context: ReportReceiptsRouteContext) {
+  const { reportId } = await context.params;
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    const input = ExpenseRecords.receiptInput(body);
+    const repository = getExpenseRepository();
+    await new ReportLifecycleService().editableReport(reportId);
+    if (await repository.getReceipt(input.id)) {
+      return NextResponse.json({ error: `Receipt ${input.id} already exists` }, { status: 409 });
+    }
+
+    const receipt = await repository.saveReceipt(reportId, input);
+    console.log(`[Reports] Added receipt ${receipt.id} to report ${reportId}`);
+    return NextResponse.json({ success: true, receipt }, { status: 201 });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to add receipt');
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getExpenseRepository } from '@/lib/expense-repository';
+import { recordErrorResponse } from '@/lib/expense-records';
+import { ReportLifecycleService } from '@/lib/report-lifecycle-service';
+
+export const dynamic = 'force-dynamic';
+
+interface ReportReviewsRouteContext {
+  params: Promise<{ reportId: string }>;
+}
+
+// Every decision and comment on the report's items, oldest first
+export async function GET(request: NextRequest, context: ReportReviewsRouteContext) {
+  const { reportId } = await context.params;
+  try {
+    const repository = getExpenseRepository();
+    if (!(await repository.getReport(reportId))) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    const reviews = await repository.listReviews(reportId);
+    return NextResponse.json({ success: true, reviews });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to load reviews');
+  }
+}
+
+// Reviews one item: { subjectKind: "receipt" | "mileage", subjectId, decision?, comment?, reviewer }; approvers only
+export async function POST(request: NextRequest, context: ReportReviewsRouteContext) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const { reportId } = await context.params;
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    const review = await new ReportLifecycleService().addReview(reportId, body);
+    return NextResponse.json({ success: true, review }, { status: 201 });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to save review');
+  }
+}
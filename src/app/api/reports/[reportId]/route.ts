@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getExpenseRepository } from '@/lib/expense-repository';
+import { ExpenseRecords, recordErrorResponse } from '@/lib/expense-records';
+import { ReportLifecycleService } from '@/lib/report-lifecycle-service';
+import { ReceiptArchive } from '@/lib/receipt-archive';
+
+export const dynamic = 'force-dynamic';
+
+interface ReportRouteContext {
+  params: Promise<{ reportId: string }>;
+}
+
+// The report with its receipts, mileage entries, status history and approver reviews
+export async function GET(request: NextRequest, context: ReportRouteContext) {
+  const { reportId } = await context.params;
+  try {
+    const repository = getExpenseRepository();
+    const report = await repository.getReport(reportId);
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    const [receipts, mileageEntries, transitions, reviews] = await Promise.all([
+      repository.listReceipts(reportId),
+      repository.listMileageEntries({ reportId }),
+      repository.listTransitions(reportId),
+      repository.listReviews(reportId),
+    ]);
+    return NextResponse.json({
+      success: true,
+      report,
+      receipts: ReceiptArchive.withImageUrls(receipts),
+      mileageEntries,
+      transitions,
+      reviews,
+    });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to load report');
+  }
+}
+
+// Changes the employee name, title or company of a draft; fields left out keep their value
+export async function PATCH(request: NextRequest, context: ReportRouteContext) {
+  const { reportId } = await context.params;
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    const input = ExpenseRecords.reportInput(body);
+    await new ReportLifecycleService().editableReport(reportId);
+    const report = await getExpenseRepository().updateReport(reportId, input);
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to update report');
+  }
+}
+
+// Removes a draft together with its receipts and mileage entries
+export async function DELETE(request: NextRequest, context: ReportRouteContext) {
+  const { reportId } = await context.params;
+  try {
+    await new ReportLifecycleService().editableReport(reportId);
+    if (!(await getExpenseRepository().deleteReport(reportId))) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+    console.log(`[Reports] Deleted report ${reportId}`);
+    return NextResponse.json({ success: true, message: 'Report deleted successfully' });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to delete report');
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getExpenseRepository } from '@/lib/expense-repository';
+import { recordErrorResponse } from '@/lib/expense-records';
+import { ReportLifecycle } from '@/lib/report-lifecycle';
+import { ReportLifecycleService } from '@/lib/report-lifecycle-service';
+
+export const dynamic = 'force-dynamic';
+
+interface ReportTransitionsRouteContext {
+  params: Promise<{ reportId: string }>;
+}
+
+// Status history, oldest first, and the actions the report's current status allows
+export async function GET(request: NextRequest, context: ReportTransitionsRouteContext) {
+  const { reportId } = await context.params;
+  try {
+    const repository = getExpenseRepository();
+    const report = await repository.getReport(reportId);
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    const transitions = await repository.listTransitions(reportId);
+    return NextResponse.json({
+      success: true,
+      status: report.status,
+      availableActions: ReportLifecycle.availableActions(report.status),
+      transitions,
+    });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to load report history');
+  }
+}
+
+/**
+ * Moves the report: { action, actor, note? }. Approver actions (approve, reject,
+ * requestChanges, pay) need the admin bearer token.
+ */
+export async function POST(request: NextRequest, context: ReportTransitionsRouteContext) {
+  const { reportId } = await context.params;
+  let body: { action?: unknown; actor?: unknown; note?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+  if (ReportLifecycle.isAction(body?.action) && ReportLifecycle.isApproverAction(body.action)) {
+    const denied = requireAdmin(request);
+    if (denied) return denied;
+  }
+
+  try {
+    const result = await new ReportLifecycleService().transition(reportId, body?.action, body?.actor, body?.note);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to change report status');
+  }
+}
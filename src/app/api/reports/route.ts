@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getExpenseRepository } from '@/lib/expense-repository';
+import { ExpenseRecords, recordErrorResponse } from '@/lib/expense-records';
+import { CompanyConfigService } from '@/lib/company-config';
+import { ReportLifecycle, ReportStatus } from '@/lib/report-lifecycle';
+
+export const dynamic = 'force-dynamic';
+
+// Reports, newest first; ?companyId, ?employeeName and ?status narrow the list
+export async function GET(request: NextRequest) {
+  try {
+    const url = new URL(request.url);
+    const companyId = url.searchParams.get('companyId');
+    const status = url.searchParams.get('status');
+    if (status && !ReportLifecycle.isStatus(status)) {
+      return NextResponse.json({ error: `Unknown report status "${status}"` }, { status: 400 });
+    }
+
+    const reports = await getExpenseRepository().listReports({
+      companyId: companyId ? CompanyConfigService.companyIdOf(companyId) : undefined,
+      employeeName: url.searchParams.get('employeeName') || undefined,
+      status: (status || undefined) as ReportStatus | undefined,
+    });
+    return NextResponse.json({ success: true, reports, total: reports.length });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to list reports');
+  }
+}
+
+// Starts an empty report; the browser may choose the id so it can keep working offline
+export async function POST(request: NextRequest) {
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  try {
+    const input = ExpenseRecords.reportInput(body);
+    const id = body.id ?? ReportLifecycle.newReportId();
+    if (!ExpenseRecords.isValidId(id)) {
+      return NextResponse.json({ error: 'Invalid report', details: ['id must be a report id'] }, { status: 400 });
+    }
+
+    const repository = getExpenseRepository();
+    if (await repository.getReport(id)) {
+      return NextResponse.json({ error: `Report ${id} already exists` }, { status: 409 });
+    }
+
+    const report = await repository.createReport(id, {
+      ...input,
+      companyId: CompanyConfigService.companyIdOf(input.companyId),
+    });
+    console.log(`[Reports] Created report ${report.id} for company ${report.companyId}`);
+    return NextResponse.json({ success: true, report }, { status: 201 });
+  } catch (error) {
+    return recordErrorResponse(error, 'Failed to create report');
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorageProvider, StorageObjectNotFoundError } from '@/lib/storage-provider';
+import { LocalStorageProvider, SignedUploadConstraints } from '@/lib/local-storage-provider';
+
+export const dynamic = 'force-dynamic';
+
+interface StorageRouteContext {
+  params: Promise<{ key: string[] }>;
+}
+
+// Serves signed URLs issued by the local storage provider; S3 signed URLs go straight to S3
+async function authorize(request: NextRequest, context: StorageRouteContext, method: 'GET' | 'PUT') {
+  const storage = getStorageProvider();
+  if (!(storage instanceof LocalStorageProvider)) {
+    return { error: NextResponse.json({ error: 'Not found' }, { status: 404 }) };
+  }
+
+  const { key: keyParts } = await context.params;
+  const key = keyParts.join('/');
+  const searchParams = request.nextUrl.searchParams;
+  const signedMethod = searchParams.get('method') || 'GET';
+  const expires = parseInt(searchParams.get('expires') || '', 10);
+  const signature = searchParams.get('signature') || '';
+  const constraints: SignedUploadConstraints = {
+    contentType: searchParams.get('contentType') || undefined,
+    contentLength: searchParams.has('contentLength') ? parseInt(searchParams.get('contentLength') || '', 10) : undefined,
+  };
+
+  if (signedMethod !== method || !LocalStorageProvider.verifySignature(method, key, expires, signature, constraints)) {
+    return { error: NextResponse.json({ error: 'Invalid or expired signature' }, { status: 403 }) };
+  }
+
+  return { storage, key, constraints };
+}
+
+export async function GET(request: NextRequest, context: StorageRouteContext) {
+  const authorization = await authorize(request, context, 'GET');
+  if (authorization.error) return authorization.error;
+
+  try {
+    const object = await authorization.storage.get(authorization.key);
+    return new NextResponse(Buffer.from(object.body), {
+      headers: {
+        'Content-Type': object.contentType || 'application/octet-stream',
+        'Content-Length': object.body.length.toString(),
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof StorageObjectNotFoundError) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    console.error('[Storage] Error reading object:', error);
+    return NextResponse.json({ error: 'Failed to read stored object' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest, context: StorageRouteContext) {
+  const authorization = await authorize(request, context, 'PUT');
+  if (authorization.error) return authorization.error;
+
+  try {
+    const { constraints } = authorization;
+    const contentType = request.headers.get('content-type') || undefined;
+    if (constraints.contentType && contentType !== constraints.contentType) {
+      return NextResponse.json({ error: `Content-Type must be ${constraints.contentType}` }, { status: 403 });
+    }
+
+    const body = new Uint8Array(await request.arrayBuffer());
+    if (constraints.contentLength !== undefined && body.length !== constraints.contentLength) {
+      return NextResponse.json({ error: `Body must be exactly ${constraints.contentLength} bytes` }, { status: 403 });
+    }
+
+    await authorization.storage.put({
+      key: authorization.key,
+      body,
+      contentType,
+      metadata: { uploadedAt: new Date().toISOString() },
+    });
+    return new NextResponse(null, { status: 200 });
+  } catch (error) {
+    console.error('[Storage] Error writing object:', error);
+    return NextResponse.json({ error: 'Failed to store object' }, { status: 500 });
+  }
+}
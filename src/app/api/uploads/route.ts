@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DirectUploadRequestError, DirectUploadService } from '@/lib/direct-upload';
+
+// Issues a presigned PUT URL for one receipt; the browser then calls /api/analyze-receipt/by-key
+export async function POST(request: NextRequest) {
+  if (!DirectUploadService.enabled) {
+    return NextResponse.json({ error: 'Direct uploads are disabled' }, { status: 404 });
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+
+  try {
+    const upload = await new DirectUploadService().createUpload({
+      fileName: String(body.fileName || ''),
+      contentType: String(body.contentType || ''),
+      size: Number(body.size),
+    });
+
+    return NextResponse.json({ success: true, upload });
+  } catch (error) {
+    if (error instanceof DirectUploadRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('[DirectUpload] Error issuing upload URL:', error);
+    return NextResponse.json({ error: 'Failed to create upload URL' }, { status: 500 });
+  }
+}
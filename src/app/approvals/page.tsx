@@ -0,0 +1,242 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import ApprovalItems from '@/components/ApprovalItems';
+import ReportStatus from '@/components/ReportStatus';
+import type { ExpenseReportRecord } from '@/lib/expense-repository';
+import { ExpensePolicy, ExpensePolicyConfig } from '@/lib/expense-policy';
+import { LoadedReport, ReportActionError, ReportClient } from '@/lib/report-client';
+import { ReportAction, ReportLifecycle, ReportStatus as ReportStatusName } from '@/lib/report-lifecycle';
+import { ReportReviews, ReviewDecision, ReviewSubjectKind } from '@/lib/report-reviews';
+
+// Statuses an approver works through: reports waiting for a decision, and approved ones waiting to be paid
+const QUEUES: ReportStatusName[] = ['submitted', 'approved'];
+
+const errorOf = (err: unknown, fallback: string) => ({
+  message: err instanceof Error ? err.message : fallback,
+  details: err instanceof ReportActionError ? err.details : []
+});
+
+export default function ApprovalsPage() {
+  const [reviewer, setReviewer] = useState('');
+  // The admin token (MYNEW_ADMIN_TOKEN); the server refuses approver actions without it
+  const [approverToken, setApproverToken] = useState('');
+  const [queue, setQueue] = useState<ReportStatusName>('submitted');
+  const [reports, setReports] = useState<ExpenseReportRecord[]>([]);
+  const [isLoadingReports, setIsLoadingReports] = useState(false);
+  const [selected, setSelected] = useState<LoadedReport | null>(null);
+  const [policy, setPolicy] = useState<ExpensePolicyConfig>(() => ExpensePolicy.defaultConfig());
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<{ message: string; details: string[] } | null>(null);
+
+  const loadReports = async (status: ReportStatusName) => {
+    setIsLoadingReports(true);
+    try {
+      setReports(await ReportClient.listReports(status));
+    } catch (err) {
+      setError(errorOf(err, 'Could not load reports'));
+    } finally {
+      setIsLoadingReports(false);
+    }
+  };
+
+  useEffect(() => {
+    setSelected(null);
+    loadReports(queue);
+  }, [queue]);
+
+  const selectReport = async (reportId: string) => {
+    setError(null);
+    try {
+      const loaded = await ReportClient.load(reportId);
+      setSelected(loaded);
+
+      const response = await fetch(`/api/policy?companyId=${encodeURIComponent(loaded.report.companyId)}`);
+      if (response.ok) {
+        const result: ExpensePolicyConfig = await response.json();
+        setPolicy({ rules: result.rules, categories: result.categories });
+      }
+    } catch (err) {
+      setError(errorOf(err, 'Could not load the report'));
+    }
+  };
+
+  const requireReviewer = () => {
+    if (reviewer.trim() && approverToken.trim()) return true;
+    setError({ message: 'Enter your name and approver token first', details: [] });
+    return false;
+  };
+
+  const handleReview = async (
+    subjectKind: ReviewSubjectKind,
+    subjectId: string,
+    decision?: ReviewDecision,
+    comment?: string
+  ): Promise<boolean> => {
+    if (!selected || !requireReviewer()) return false;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const review = await ReportClient.review(selected.report.id, {
+        subjectKind,
+        subjectId,
+        decision,
+        comment,
+        reviewer: reviewer.trim()
+      }, approverToken.trim());
+      setSelected(prev => prev && { ...prev, reviews: [...prev.reviews, review] });
+      return true;
+    } catch (err) {
+      setError(errorOf(err, 'Could not save the review'));
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReportAction = async (action: ReportAction, note?: string) => {
+    if (!selected || !requireReviewer()) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { report, transition } = await ReportClient.transition(
+        selected.report.id,
+        action,
+        reviewer.trim(),
+        note,
+        approverToken.trim()
+      );
+      setSelected(prev => prev && { ...prev, report, transitions: [...prev.transitions, transition] });
+      // The report has left this queue
+      setReports(prev => prev.filter(entry => entry.id !== report.id || report.status === queue));
+    } catch (err) {
+      setError(errorOf(err, 'Could not change the report status'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const violations = selected
+    ? ExpensePolicy.evaluate(selected.receipts, selected.mileageEntries, policy)
+    : [];
+  const round = selected ? ReportReviews.currentRound(selected.reviews, selected.transitions) : [];
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-8 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Expense Approvals</h1>
+          <Link href="/" className="text-sm text-blue-600 hover:text-blue-800">Back to receipts</Link>
+        </div>
+
+        <div className="mb-6 bg-white rounded-lg shadow-sm p-4">
+          <div className="flex items-center space-x-4">
+            <label htmlFor="reviewerName" className="text-sm font-medium text-gray-700">
+              Approver Name:
+            </label>
+            <input
+              id="reviewerName"
+              type="text"
+              value={reviewer}
+              onChange={(e) => setReviewer(e.target.value)}
+              placeholder="Enter your name"
+              className="flex-1 max-w-xs px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+            />
+            <label htmlFor="approverToken" className="text-sm font-medium text-gray-700">
+              Approver Token:
+            </label>
+            <input
+              id="approverToken"
+              type="password"
+              value={approverToken}
+              onChange={(e) => setApproverToken(e.target.value)}
+              autoComplete="off"
+              className="flex-1 max-w-xs px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div>
+            <div className="flex space-x-2 mb-3">
+              {QUEUES.map(status => (
+                <button
+                  key={status}
+                  onClick={() => setQueue(status)}
+                  className={`px-3 py-1.5 rounded text-sm font-medium transition-colors ${
+                    queue === status ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {ReportLifecycle.statusLabel(status)}
+                </button>
+              ))}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm">
+              {isLoadingReports ? (
+                <p className="p-4 text-sm text-gray-500">Loading reports...</p>
+              ) : reports.length === 0 ? (
+                <p className="p-4 text-sm text-gray-500">No {ReportLifecycle.statusLabel(queue).toLowerCase()} reports.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {reports.map(report => (
+                    <li key={report.id}>
+                      <button
+                        onClick={() => selectReport(report.id)}
+                        className={`w-full text-left p-4 hover:bg-gray-50 ${selected?.report.id === report.id ? 'bg-blue-50' : ''}`}
+                      >
+                        <p className="text-sm font-medium text-gray-900">{report.employeeName || 'Unnamed employee'}</p>
+                        <p className="text-xs text-gray-500">
+                          {report.title || report.id} · {new Date(report.updatedAt).toLocaleDateString('en-US')}
+                        </p>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          <div className="lg:col-span-2">
+            {error && !selected && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+                <p className="font-medium">{error.message}</p>
+              </div>
+            )}
+
+            {selected ? (
+              <>
+                <h2 className="text-xl font-semibold text-gray-900 mb-3">
+                  {selected.report.employeeName || 'Unnamed employee'}
+                  <span className="ml-2 text-sm font-normal text-gray-500">{selected.report.title || selected.report.id}</span>
+                </h2>
+                <ReportStatus
+                  status={selected.report.status}
+                  transitions={selected.transitions}
+                  actions={['approve', 'requestChanges', 'reject', 'pay']}
+                  onAction={handleReportAction}
+                  isBusy={isBusy}
+                  error={error}
+                />
+                <ApprovalItems
+                  receipts={selected.receipts}
+                  mileageEntries={selected.mileageEntries}
+                  reviews={round}
+                  violations={violations}
+                  canReview={selected.report.status === 'submitted'}
+                  onReview={handleReview}
+                  isBusy={isBusy}
+                />
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Select a report to review its receipts and trips.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,27 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import FileUpload from '@/components/FileUpload';
 import ReceiptTable from '@/components/ReceiptTable';
 import MileageEntry from '@/components/MileageEntry';
 import MileageList from '@/components/MileageList';
 import { ExtractedReceiptData } from '@/lib/textract-service';
 import { PDFGenerator } from '@/lib/pdf-generator';
+import { ReceiptNormalizer } from '@/lib/receipt-normalizer';
+import type { ArchivedReceipt } from '@/lib/receipt-archive';
+import { ReceiptUploadClient } from '@/lib/receipt-upload-client';
+import { LearningClient } from '@/lib/learning-client';
+import type { AnalysisJob } from '@/lib/analysis-job-store';
+import type { CompanyCategory } from '@/lib/company-config';
+import { ExpensePolicy, ExpensePolicyConfig } from '@/lib/expense-policy';
+import { ReceiptDuplicates } from '@/lib/receipt-duplicates';
+import { ImageHash } from '@/lib/image-hash';
+import { LoadedReport, ReportActionError, ReportClient } from '@/lib/report-client';
+import { ReportAction, ReportLifecycle, ReportStatus as ReportStatusName, ReportTransition } from '@/lib/report-lifecycle';
+import { ReportReview, ReportReviews } from '@/lib/report-reviews';
+import ReportStatus from '@/components/ReportStatus';
+import type { ReceiptImageMetadata } from '@/lib/expense-repository';
+import type { BatchFileStatus } from '@/components/BatchProgress';
 
 interface ErrorDetails {
   message: string;
@@ -30,6 +45,11 @@ interface ReceiptEntry {
     file: File;
     dataUrl: string;
   };
+  archive?: ArchivedReceipt;
+  storedImage?: ReceiptImageMetadata; // Image details saved with a receipt reopened from the database
+  uploadId?: string; // Job or idempotency key of the upload the receipt was read from
+  imageHash?: string; // Perceptual hash of the original image, for duplicate detection
+  dismissedDuplicates?: string[]; // Receipts the user marked as not duplicates of this one
 }
 
 interface MileageEntryData {
@@ -44,17 +64,65 @@ interface MileageEntryData {
   reimbursableDistance: number;
   reimbursableAmount: number;
   createdAt: Date;
+  policyJustifications?: Record<string, string>;
 }
 
+// Batches still being analyzed, so a reload can pick their results back up
+const PendingBatches = {
+  storageKey: 'pendingAnalysisBatches',
+  list(): string[] {
+    try {
+      return JSON.parse(localStorage.getItem(this.storageKey) || '[]');
+    } catch {
+      return [];
+    }
+  },
+  add(batchId: string) {
+    const batchIds = this.list();
+    if (!batchIds.includes(batchId)) {
+      localStorage.setItem(this.storageKey, JSON.stringify([...batchIds, batchId]));
+    }
+  },
+  remove(batchId: string) {
+    localStorage.setItem(this.storageKey, JSON.stringify(this.list().filter(id => id !== batchId)));
+  },
+};
+
+const readDataUrl = (file: File) => new Promise<string>((resolve) => {
+  const reader = new FileReader();
+  reader.onload = (e) => resolve(e.target?.result as string);
+  reader.readAsDataURL(file);
+});
+
 export default function Home() {
   const [activeTab, setActiveTab] = useState<'receipts' | 'mileage'>('receipts');
   const [isUploading, setIsUploading] = useState(false);
   const [receipts, setReceipts] = useState<ReceiptEntry[]>([]);
   const [error, setError] = useState<ErrorDetails | null>(null);
+  const [cacheNotice, setCacheNotice] = useState<string | null>(null);
   const [employeeName, setEmployeeName] = useState('');
+  // Labels of the company's enabled categories; the table uses the built-in list until loaded
+  const [categoryLabels, setCategoryLabels] = useState<string[] | undefined>(undefined);
+  const [expensePolicy, setExpensePolicy] = useState<ExpensePolicyConfig>(() => ExpensePolicy.defaultConfig());
+  // The stored report being edited; also groups archived originals by report when receipt retention is enabled
+  const [reportId, setReportId] = useState(() => ReportLifecycle.newReportId());
+  // Company of the stored report; categories, policy, analysis and exports follow its settings
+  const [companyId, setCompanyId] = useState<string | undefined>(undefined);
+  const [isReportLoaded, setIsReportLoaded] = useState(false);
+  const [reportStatus, setReportStatus] = useState<ReportStatusName>('draft');
+  const [reportTransitions, setReportTransitions] = useState<ReportTransition[]>([]);
+  const [reportReviews, setReportReviews] = useState<ReportReview[]>([]);
+  const [isChangingStatus, setIsChangingStatus] = useState(false);
+  const [statusError, setStatusError] = useState<{ message: string; details: string[] } | null>(null);
   const [generatedReport, setGeneratedReport] = useState<{excelBuffer: Buffer, fileName: string} | null>(null);
   const [hasEditsAfterGeneration, setHasEditsAfterGeneration] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<{ current: number; total: number; fileName: string } | null>(null);
+  const [batchFiles, setBatchFiles] = useState<BatchFileStatus[]>([]);
+  const watchedBatches = useRef(new Set<string>());
+  const collectedJobs = useRef(new Set<string>());
+  const batchFileBlobs = useRef(new Map<string, File>());
+  const alreadyScanned = useRef<string[]>([]);
+  const hashedReceipts = useRef(new Set<string>());
   const [isProcessingReport, setIsProcessingReport] = useState(false);
   const [jumbotronImage, setJumbotronImage] = useState<string>('');
   const [slideDirection, setSlideDirection] = useState<'up' | 'down'>('up');
@@ -63,91 +131,112 @@ export default function Home() {
   const [mileageEntries, setMileageEntries] = useState<MileageEntryData[]>([]);
   const [isCalculatingMileage, setIsCalculatingMileage] = useState(false);
 
+  // Batches are analyzed by the server's job queue; its events drive the per-file list
+  const handleJobUpdate = async (job: AnalysisJob) => {
+    setBatchFiles(prev => {
+      const status: BatchFileStatus = { jobId: job.id, fileName: job.fileName, stage: job.stage, error: job.error?.message };
+      return prev.some(file => file.jobId === job.id)
+        ? prev.map(file => file.jobId === job.id ? status : file)
+        : [...prev, status];
+    });
+
+    if (job.status !== 'succeeded' || !job.result || collectedJobs.current.has(job.id)) return;
+    collectedJobs.current.add(job.id);
+
+    const file = batchFileBlobs.current.get(job.id);
+    const imageDataUrl = file ? await readDataUrl(file) : undefined;
+    const archive = job.result.archive;
+
+    // A single upload can contain several receipts (multi-receipt scans, multi-page PDFs)
+    const newReceipts: ReceiptEntry[] = job.result.documents.map((documentData, documentIndex) => ({
+      id: `${job.id}-${documentIndex}`,
+      data: documentData,
+      timestamp: new Date(),
+      originalImage: file && imageDataUrl ? { file, dataUrl: imageDataUrl } : undefined,
+      archive,
+      uploadId: job.id
+    }));
+    setReceipts(prev => [...newReceipts, ...prev]);
+
+    if (job.result.cached) {
+      alreadyScanned.current.push(job.fileName);
+      setCacheNotice(`Already scanned: ${alreadyScanned.current.join(', ')}. Loaded the saved results instead of scanning again.`);
+    }
+    console.log(`[MainPage] Successfully processed ${job.fileName} (${newReceipts.length} receipt(s))`);
+  };
+
+  const watchBatch = (batchId: string) => {
+    // Effects run twice in development; never watch the same batch twice
+    if (watchedBatches.current.has(batchId)) return;
+    watchedBatches.current.add(batchId);
+    PendingBatches.add(batchId);
+
+    console.log(`[MainPage] Watching analysis batch ${batchId}`);
+    ReceiptUploadClient.watchBatch(batchId, {
+      onJob: handleJobUpdate,
+      onDone: () => {
+        watchedBatches.current.delete(batchId);
+        PendingBatches.remove(batchId);
+        console.log(`[MainPage] Batch ${batchId} complete`);
+      }
+    });
+  };
+
+  const handleRetryJob = async (jobId: string) => {
+    try {
+      const response = await ReceiptUploadClient.retryJob(jobId);
+      const result = await response.json();
+      if (!response.ok) {
+        setError({ message: result.error || 'Could not retry the file' });
+        return;
+      }
+
+      await handleJobUpdate(result.job);
+      watchBatch(result.job.batchId);
+    } catch (err) {
+      setError({ message: err instanceof Error ? err.message : 'Could not retry the file' });
+    }
+  };
+
+  const handleClearBatch = () => {
+    setBatchFiles([]);
+    alreadyScanned.current = [];
+  };
+
   const handleMultipleFiles = async (files: File[]) => {
     setIsUploading(true);
     setError(null);
+    setCacheNotice(null);
+    alreadyScanned.current = [];
     setUploadProgress({ current: 0, total: files.length, fileName: '' });
 
-    console.log(`[MainPage] Processing ${files.length} files in batch`);
-
-    const newReceipts: ReceiptEntry[] = [];
-    const errors: string[] = [];
+    console.log(`[MainPage] Submitting ${files.length} files for analysis`);
 
     // Files are already processed (HEIC converted, validated) by FileUpload component
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      setUploadProgress({ current: i + 1, total: files.length, fileName: file.name });
-      
-      try {
-        console.log(`[MainPage] Processing file ${i + 1}/${files.length}: ${file.name}`);
-        
-        const formData = new FormData();
-        formData.append('file', file);
-        
-        const response = await fetch('/api/analyze-receipt', {
-          method: 'POST',
-          body: formData,
-        });
-        
-        const result = await response.json();
-        
-        if (!response.ok) {
-          console.error(`[MainPage] Server error for ${file.name}:`, result);
-          errors.push(`${file.name}: ${result.error || 'Upload failed'}`);
-          continue;
-        }
-        
-        if (result.success && result.data) {
-          // Create image data URL for PDF generation
-          const imageDataUrl = await new Promise<string>((resolve) => {
-            const reader = new FileReader();
-            reader.onload = (e) => resolve(e.target?.result as string);
-            reader.readAsDataURL(file);
-          });
-          
-          const newReceipt: ReceiptEntry = {
-            id: `${Date.now()}-${i}`,
-            data: result.data,
-            timestamp: new Date(),
-            originalImage: {
-              file: file,
-              dataUrl: imageDataUrl
-            }
-          };
-          newReceipts.push(newReceipt);
-          console.log(`[MainPage] Successfully processed ${file.name}`);
-        } else {
-          console.error(`[MainPage] Processing failed for ${file.name}:`, result);
-          errors.push(`${file.name}: ${result.error || 'Processing failed'}`);
-        }
-      } catch (err) {
-        console.error(`[MainPage] Error processing ${file.name}:`, err);
-        errors.push(`${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
-      }
-    }
+    const batch = await ReceiptUploadClient.submitBatch(files, { companyId, reportId, employeeName }, (submitted, fileName) => {
+      setUploadProgress({ current: submitted, total: files.length, fileName });
+    });
 
-    // Add all successful receipts to the list
-    if (newReceipts.length > 0) {
-      setReceipts(prev => [...newReceipts, ...prev]);
-    }
+    setUploadProgress(null);
+    setIsUploading(false);
 
-    // Show errors if any
-    if (errors.length > 0) {
+    if (batch.errors.length > 0) {
       setError({
-        message: `${errors.length} file(s) failed to process`,
-        details: errors.join('\n')
+        message: `${batch.errors.length} file(s) failed to process`,
+        details: batch.errors.join('\n')
       });
     }
 
-    setUploadProgress(null);
-    setIsUploading(false);
-    
-    console.log(`[MainPage] Batch processing complete. Processed ${newReceipts.length}/${files.length} files successfully.`);
+    batch.jobs.forEach(job => batchFileBlobs.current.set(job.id, job.file));
+    if (batch.batchId) {
+      watchBatch(batch.batchId);
+    }
   };
 
   const handleFileSelect = async (file: File) => {
     setIsUploading(true);
     setError(null);
+    setCacheNotice(null);
 
     console.log(`[MainPage] Received file from FileUpload:`, {
       name: file.name,
@@ -156,19 +245,14 @@ export default function Home() {
     });
 
     try {
-      const formData = new FormData();
-      formData.append('file', file);
-      
       console.log(`[MainPage] Uploading to server:`, {
         name: file.name,
         type: file.type,
         size: file.size
       });
 
-      const response = await fetch('/api/analyze-receipt', {
-        method: 'POST',
-        body: formData,
-      });
+      const idempotencyKey = await ReceiptUploadClient.idempotencyKeyFor(file, { reportId });
+      const response = await ReceiptUploadClient.analyze(file, { companyId, reportId, employeeName }, idempotencyKey);
 
       const result = await response.json();
 
@@ -198,17 +282,27 @@ export default function Home() {
         reader.readAsDataURL(file);
       });
       
-      // Add new receipt to the list (newest at top)
-      const newReceipt: ReceiptEntry = {
-        id: Date.now().toString(),
-        data: result.data,
+      // Add one receipt per extracted document to the list (newest at top). Ids come from the
+      // idempotency key, so a retried upload of the same file doesn't add the receipt twice.
+      const documents: ExtractedReceiptData[] = result.documents || [result.data];
+      const newReceipts: ReceiptEntry[] = documents.map((documentData, documentIndex) => ({
+        id: `${idempotencyKey}-${documentIndex}`,
+        data: documentData,
         timestamp: new Date(),
         originalImage: {
           file: file,
           dataUrl: imageDataUrl
-        }
-      };
-      setReceipts(prev => [newReceipt, ...prev]);
+        },
+        archive: result.archive,
+        uploadId: idempotencyKey
+      }));
+      setReceipts(prev => [
+        ...newReceipts.filter(receipt => !prev.some(existing => existing.id === receipt.id)),
+        ...prev
+      ]);
+      if (result.cached) {
+        setCacheNotice(`Already scanned: ${file.name}. Loaded the saved result instead of scanning again.`);
+      }
     } catch (err) {
       setError({
         message: err instanceof Error ? err.message : 'An error occurred'
@@ -219,6 +313,7 @@ export default function Home() {
   };
 
   const handleDataChange = (receiptId: string, newData: ExtractedReceiptData) => {
+    learnFromEdit(receiptId, newData);
     setReceipts(prev => prev.map(receipt => 
       receipt.id === receiptId 
         ? { ...receipt, data: newData }
@@ -231,6 +326,23 @@ export default function Home() {
     }
   };
 
+  // Categories and purposes the user picks or confirms pre-fill the merchant's next receipts
+  const learnFromEdit = (receiptId: string, newData: ExtractedReceiptData) => {
+    const previous = receipts.find(receipt => receipt.id === receiptId)?.data;
+    const merchant = newData.merchant?.trim();
+    if (!previous || !merchant) return;
+
+    const categoryConfirmed = !!newData.categorySuggestion?.reviewed && !previous.categorySuggestion?.reviewed;
+    if (newData.category && (newData.category !== previous.category || categoryConfirmed)) {
+      void LearningClient.record({ companyId, employeeName, merchant, category: newData.category });
+    }
+
+    const descriptionConfirmed = !!newData.descriptionSuggestion?.reviewed && !previous.descriptionSuggestion?.reviewed;
+    if (newData.description?.trim() && (newData.description !== previous.description || descriptionConfirmed)) {
+      LearningClient.recordLater(`${receiptId}-description`, { companyId, employeeName, merchant, description: newData.description });
+    }
+  };
+
   const handleExport = () => {
     if (receipts.length === 0) return;
 
@@ -254,12 +366,167 @@ export default function Home() {
     URL.revokeObjectURL(url);
   };
 
+  // Keeps one receipt of a suspected duplicate pair, with anything filled in only on the other
+  const handleMergeDuplicates = (keptId: string, removedId: string) => {
+    setReceipts(prev => {
+      const removed = prev.find(receipt => receipt.id === removedId);
+      return prev
+        .filter(receipt => receipt.id !== removedId)
+        .map(receipt => receipt.id === keptId && removed
+          ? { ...receipt, data: ReceiptDuplicates.merge(receipt.data, removed.data) }
+          : receipt);
+    });
+    console.log(`[MainPage] Merged duplicate receipt ${removedId} into ${keptId}`);
+
+    if (generatedReport) {
+      setHasEditsAfterGeneration(true);
+    }
+  };
+
+  const handleDismissDuplicate = (receiptId: string, otherId: string) => {
+    setReceipts(prev => prev.map(receipt => receipt.id === receiptId
+      ? { ...receipt, dismissedDuplicates: [...(receipt.dismissedDuplicates || []), otherId] }
+      : receipt));
+  };
+
   const resetApp = () => {
     setReceipts([]);
     setError(null);
     setGeneratedReport(null);
   };
 
+  // Perceptual hashes for duplicate detection; PDFs are matched on merchant, date and total alone
+  useEffect(() => {
+    receipts
+      .filter(receipt => !receipt.imageHash && receipt.originalImage?.file.type.startsWith('image/'))
+      .filter(receipt => !hashedReceipts.current.has(receipt.id))
+      .forEach(receipt => {
+        hashedReceipts.current.add(receipt.id);
+        ImageHash.dHash(receipt.originalImage!.dataUrl).then(imageHash => {
+          if (!imageHash) return;
+          setReceipts(prev => prev.map(entry => entry.id === receipt.id ? { ...entry, imageHash } : entry));
+        });
+      });
+  }, [receipts]);
+
+  const openReport = (newReportId: string) => {
+    ReportClient.open(newReportId, employeeName).then(loaded => {
+      if (loaded) applyLoadedReport(loaded);
+    });
+  };
+
+  const applyLoadedReport = (loaded: LoadedReport) => {
+    setReportId(loaded.report.id);
+    setCompanyId(loaded.report.companyId);
+    setReportStatus(loaded.report.status);
+    setReportTransitions(loaded.transitions);
+    setReportReviews(loaded.reviews);
+    setEmployeeName(name => name || loaded.report.employeeName);
+    setReceipts(prev => [
+      ...prev,
+      ...loaded.receipts
+        .filter(record => !prev.some(receipt => receipt.id === record.id))
+        .map(record => ({
+          id: record.id,
+          data: { ...record.data, rawData: undefined },
+          timestamp: new Date(record.createdAt),
+          archive: ReportClient.archiveOf(record),
+          storedImage: record.image,
+          uploadId: record.uploadId,
+          imageHash: record.image?.perceptualHash,
+          dismissedDuplicates: record.dismissedDuplicates
+        }))
+    ]);
+    setMileageEntries(prev => [
+      ...prev,
+      ...loaded.mileageEntries
+        .filter(record => !prev.some(entry => entry.id === record.id))
+        .map(record => ({ ...record, createdAt: new Date(record.createdAt) }))
+    ]);
+    setIsReportLoaded(true);
+  };
+
+  // Reopen the report this browser was working on, so a reload keeps its receipts and trips
+  useEffect(() => {
+    openReport(reportId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Nothing is saved until the stored report is back, or it would be overwritten with an empty page
+  const isReportLocked = !ReportLifecycle.isEditable(reportStatus);
+  // Approver comments stay highlighted until the report is submitted again
+  const openFeedback = ReportReviews.openFeedback(reportReviews, reportTransitions);
+  useEffect(() => {
+    if (!isReportLoaded || isReportLocked) return;
+    ReportClient.saveLater(reportId, { employeeName, receipts, mileageEntries });
+  }, [isReportLoaded, isReportLocked, reportId, employeeName, receipts, mileageEntries]);
+
+  const handleReportAction = async (action: ReportAction, note?: string) => {
+    if (!employeeName.trim()) {
+      setStatusError({ message: 'Enter your name first', details: [] });
+      return;
+    }
+
+    setIsChangingStatus(true);
+    setStatusError(null);
+    try {
+      const { report, transition } = await ReportClient.transition(reportId, action, employeeName.trim(), note);
+      setReportStatus(report.status);
+      setReportTransitions(prev => [...prev, transition]);
+    } catch (err) {
+      setStatusError({
+        message: err instanceof Error ? err.message : 'Could not change the report status',
+        details: err instanceof ReportActionError ? err.details : []
+      });
+    } finally {
+      setIsChangingStatus(false);
+    }
+  };
+
+  // A submitted report stays on the server; the page moves on to an empty draft
+  const handleStartNewReport = () => {
+    ReportClient.forget();
+    setIsReportLoaded(false);
+    setReceipts([]);
+    setMileageEntries([]);
+    setGeneratedReport(null);
+    setStatusError(null);
+    setReportStatus('draft');
+    setReportTransitions([]);
+    setReportReviews([]);
+    openReport(ReportLifecycle.newReportId());
+  };
+
+  // Resume batches that were still being analyzed when the page was closed or reloaded
+  useEffect(() => {
+    PendingBatches.list().forEach(batchId => watchBatch(batchId));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Loaded for the default company until the report is back, then again for the report's company
+  useEffect(() => {
+    let isCurrent = true;
+    const query = companyId ? `?companyId=${encodeURIComponent(companyId)}` : '';
+
+    fetch(`/api/categories${query}`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then((result: { categories: CompanyCategory[] }) => {
+        if (isCurrent) setCategoryLabels(result.categories.map(category => category.label));
+      })
+      .catch(error => console.warn('[MainPage] Could not load company categories, using defaults:', error));
+
+    fetch(`/api/policy${query}`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then((result: ExpensePolicyConfig) => {
+        if (isCurrent) setExpensePolicy({ rules: result.rules, categories: result.categories });
+      })
+      .catch(error => console.warn('[MainPage] Could not load the expense policy, using defaults:', error));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [companyId]);
+
   // Randomly select jumbotron image and slide direction on mount
   useEffect(() => {
     const images = [
@@ -334,7 +601,12 @@ export default function Home() {
     }
   };
 
-  // Check if all receipts have required fields completed
+  // Re-evaluated on every render so edits and justifications show up right away
+  const policyViolations = ExpensePolicy.evaluate(receipts, mileageEntries, expensePolicy);
+  const hasBlockingViolations = policyViolations.some(ExpensePolicy.isBlocking);
+  const duplicateMatches = ReceiptDuplicates.find(receipts);
+
+  // Check if all receipts have required fields completed and nothing breaks the expense policy
   const areAllReceiptsComplete = () => {
     return receipts.length > 0 && 
            employeeName.trim() !== '' &&
@@ -343,15 +615,13 @@ export default function Home() {
              receipt.data.description.trim() !== '' &&
              receipt.data.category && 
              receipt.data.category.trim() !== ''
-           );
+           ) &&
+           !hasBlockingViolations;
   };
 
   // Calculate total of all receipts
   const calculateTotal = () => {
-    return receipts.reduce((total, receipt) => {
-      const amount = parseFloat(receipt.data.total?.replace(/[^\d.-]/g, '') || '0');
-      return total + amount;
-    }, 0);
+    return receipts.reduce((total, receipt) => total + ReceiptNormalizer.amountOf(receipt.data), 0);
   };
 
   const handleProcessExpenseReport = async () => {
@@ -388,6 +658,7 @@ export default function Home() {
           receipts: receiptsWithoutImages,
           mileageEntries,
           employeeName,
+          companyId,
         }),
       });
       
@@ -446,7 +717,7 @@ export default function Home() {
     }
   };
 
-  // Mileage-related functions - All client-side state (clears on refresh)
+  // Mileage-related functions - saved to the report in the background like receipts
   const handleSaveMileageEntry = (entryData: Omit<MileageEntryData, 'id' | 'createdAt'> & { calculatedDistance?: number; reimbursableDistance?: number; reimbursableAmount?: number }) => {
     // Create new entry with generated ID and timestamp
     const newEntry: MileageEntryData = {
@@ -458,16 +729,26 @@ export default function Home() {
       reimbursableAmount: entryData.reimbursableAmount || 0
     };
 
-    // Add to state (client-side only, will be cleared on page refresh)
     setMileageEntries(prev => [newEntry, ...prev]);
     
-    console.log('Mileage entry saved (client-side):', newEntry);
+    console.log('Mileage entry saved:', newEntry);
+  };
+
+  const handleJustifyMileageEntry = (entryId: string, ruleId: string, justification: string) => {
+    setMileageEntries(prev => prev.map(entry => {
+      if (entry.id !== entryId) return entry;
+      const policyJustifications = { ...entry.policyJustifications, [ruleId]: justification };
+      if (!justification) delete policyJustifications[ruleId];
+      return { ...entry, policyJustifications };
+    }));
+    if (generatedReport) {
+      setHasEditsAfterGeneration(true);
+    }
   };
 
   const handleRemoveMileageEntry = (entryId: string) => {
-    // Remove from state (client-side only)
     setMileageEntries(prev => prev.filter(entry => entry.id !== entryId));
-    console.log('Mileage entry removed (client-side):', entryId);
+    console.log('Mileage entry removed:', entryId);
   };
 
   const handleExportMileage = async () => {
@@ -487,6 +768,7 @@ export default function Home() {
           receipts,
           mileageEntries,
           employeeName,
+          companyId,
         }),
       });
 
@@ -570,12 +852,25 @@ export default function Home() {
                 type="text"
                 value={employeeName}
                 onChange={(e) => setEmployeeName(e.target.value)}
+                disabled={isReportLocked}
                 placeholder="Enter your name"
                 className="flex-1 max-w-xs px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
               />
             </div>
           </div>
 
+          {isReportLoaded && (
+            <ReportStatus
+              status={reportStatus}
+              transitions={reportTransitions}
+              actions={['submit', 'reopen']}
+              onAction={handleReportAction}
+              isBusy={isChangingStatus}
+              error={statusError}
+              onStartNew={handleStartNewReport}
+            />
+          )}
+
           {/* Navigation Tabs */}
           <div className="mb-8">
             <div className="border-b border-gray-200">
@@ -608,18 +903,23 @@ export default function Home() {
           {activeTab === 'receipts' && (
             <div>
               <div className="mb-8">
-                <FileUpload 
-                  onFileSelect={handleFileSelect} 
-                  onMultipleFilesSelect={handleMultipleFiles}
-                  isUploading={isUploading} 
-                />
+                {!isReportLocked && (
+                  <FileUpload 
+                    onFileSelect={handleFileSelect} 
+                    onMultipleFilesSelect={handleMultipleFiles}
+                    isUploading={isUploading} 
+                    batchFiles={batchFiles}
+                    onRetryBatchFile={handleRetryJob}
+                    onClearBatch={handleClearBatch}
+                  />
+                )}
                 
                 {/* Upload Progress */}
                 {uploadProgress && (
                   <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
                     <div className="flex items-center justify-between mb-2">
                       <span className="text-sm font-medium text-blue-800">
-                        Processing files: {uploadProgress.current} of {uploadProgress.total}
+                        Uploading files: {uploadProgress.current} of {uploadProgress.total}
                       </span>
                       <span className="text-xs text-blue-600">
                         {Math.round((uploadProgress.current / uploadProgress.total) * 100)}%
@@ -638,6 +938,19 @@ export default function Home() {
                 )}
               </div>
 
+              {cacheNotice && (
+                <div className="mb-6 p-4 bg-blue-50 border border-blue-300 text-blue-800 rounded-lg flex items-start justify-between gap-4">
+                  <p className="text-sm">{cacheNotice}</p>
+                  <button
+                    onClick={() => setCacheNotice(null)}
+                    className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                    aria-label="Dismiss notice"
+                  >
+                    ✕
+                  </button>
+                </div>
+              )}
+
               {error && (
                 <div className="mb-6 p-4 bg-red-100 border border-red-400 text-red-700 rounded-lg">
                   <h3 className="font-semibold mb-1">Error</h3>
@@ -699,12 +1012,14 @@ export default function Home() {
                 Scanned Receipts ({receipts.length})
               </h2>
               <div className="space-x-3">
-                <button
-                  onClick={resetApp}
-                  className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-colors"
-                >
-                  Clear All
-                </button>
+                {!isReportLocked && (
+                  <button
+                    onClick={resetApp}
+                    className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition-colors"
+                  >
+                    Clear All
+                  </button>
+                )}
               </div>
             </div>
             
@@ -712,6 +1027,13 @@ export default function Home() {
               receipts={receipts}
               onDataChange={handleDataChange}
               onRemoveReceipt={removeReceipt}
+              categoryOptions={categoryLabels}
+              violations={policyViolations}
+              duplicates={duplicateMatches}
+              readOnly={isReportLocked}
+              feedback={openFeedback}
+              onMergeDuplicates={handleMergeDuplicates}
+              onDismissDuplicate={handleDismissDuplicate}
             />
 
             {/* Total and Process Button Section */}
@@ -843,10 +1165,17 @@ export default function Home() {
               </div>
               
               {!areAllReceiptsComplete() && receipts.length > 0 && (
-                <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded">
-                  <p className="text-sm text-amber-700">
-                    <span className="font-medium">Complete all required fields</span> (Purpose and Category) to process the expense report.
-                  </p>
+                <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded space-y-1">
+                  {!receipts.every(receipt => receipt.data.description?.trim() && receipt.data.category?.trim()) && (
+                    <p className="text-sm text-amber-700">
+                      <span className="font-medium">Complete all required fields</span> (Purpose and Category) to process the expense report.
+                    </p>
+                  )}
+                  {hasBlockingViolations && (
+                    <p className="text-sm text-amber-700">
+                      <span className="font-medium">Resolve the expense policy flags</span>: remove expenses that aren&apos;t allowed and justify the others{policyViolations.some(violation => violation.subjectKind === 'mileage' && ExpensePolicy.isBlocking(violation)) ? ', including on the Mileage tab' : ''}.
+                    </p>
+                  )}
                 </div>
               )}
             </div>
@@ -882,16 +1211,22 @@ export default function Home() {
           {/* Mileage Tab Content */}
           {activeTab === 'mileage' && (
             <div>
-              <MileageEntry 
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                onSave={handleSaveMileageEntry as any}
-                isCalculating={isCalculatingMileage}
-              />
+              {!isReportLocked && (
+                <MileageEntry 
+                  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                  onSave={handleSaveMileageEntry as any}
+                  isCalculating={isCalculatingMileage}
+                />
+              )}
               
               <MileageList
                 entries={mileageEntries}
                 onRemoveEntry={handleRemoveMileageEntry}
                 onExport={handleExportMileage}
+                violations={policyViolations}
+                onJustify={handleJustifyMileageEntry}
+                readOnly={isReportLocked}
+                feedback={openFeedback}
               />
             </div>
           )}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import type { MileageEntryRecord, ReceiptRecord } from '@/lib/expense-repository';
+import { ExpensePolicy, PolicyViolation } from '@/lib/expense-policy';
+import { ReceiptNormalizer } from '@/lib/receipt-normalizer';
+import { ReportReview, ReportReviews, ReviewDecision, ReviewSubjectKind } from '@/lib/report-reviews';
+import PolicyViolations from './PolicyViolations';
+import ReviewFeedback from './ReviewFeedback';
+
+interface ApprovalItemsProps {
+  receipts: ReceiptRecord[];
+  mileageEntries: MileageEntryRecord[];
+  reviews: ReportReview[]; // This round of review, see ReportReviews.currentRound
+  violations: PolicyViolation[];
+  canReview: boolean; // Only submitted reports take decisions and comments
+  onReview: (subjectKind: ReviewSubjectKind, subjectId: string, decision?: ReviewDecision, comment?: string) => Promise<boolean>;
+  isBusy?: boolean;
+}
+
+interface ApprovalItem {
+  kind: ReviewSubjectKind;
+  id: string;
+  title: string;
+  detail: string;
+  amount: number;
+}
+
+const DECISION_BUTTONS: Array<{ decision: ReviewDecision; label: string; className: string }> = [
+  { decision: 'approved', label: 'Approve', className: 'bg-green-600 hover:bg-green-700 text-white' },
+  { decision: 'changesRequested', label: 'Request change', className: 'bg-amber-500 hover:bg-amber-600 text-white' },
+  { decision: 'rejected', label: 'Reject', className: 'bg-red-600 hover:bg-red-700 text-white' },
+];
+
+const DECISION_STYLES: Record<ReviewDecision, string> = {
+  approved: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+  changesRequested: 'bg-amber-100 text-amber-800',
+};
+
+// The receipts and trips of a report under review, each with its own decision and comments
+export default function ApprovalItems({
+  receipts,
+  mileageEntries,
+  reviews,
+  violations,
+  canReview,
+  onReview,
+  isBusy = false,
+}: ApprovalItemsProps) {
+  const [comments, setComments] = useState<Record<string, string>>({});
+
+  const items: ApprovalItem[] = [
+    ...receipts.map(receipt => ({
+      kind: 'receipt' as const,
+      id: receipt.id,
+      title: receipt.data.merchant || 'Unknown merchant',
+      detail: [receipt.data.date, receipt.data.category, receipt.data.description].filter(Boolean).join(' · '),
+      amount: ReceiptNormalizer.amountOf(receipt.data),
+    })),
+    ...mileageEntries.map(entry => ({
+      kind: 'mileage' as const,
+      id: entry.id,
+      title: `${entry.startAddress} → ${entry.endAddress}`,
+      detail: [entry.date, `${entry.reimbursableDistance.toFixed(1)} mi`, entry.businessPurpose].filter(Boolean).join(' · '),
+      amount: entry.reimbursableAmount,
+    })),
+  ];
+
+  // Rejected items are left out of what gets paid
+  const approvedTotal = items
+    .filter(item => ReportReviews.latestDecision(reviews, item.kind, item.id) !== 'rejected')
+    .reduce((total, item) => total + item.amount, 0);
+  const requestedTotal = items.reduce((total, item) => total + item.amount, 0);
+
+  const keyOf = (item: ApprovalItem) => `${item.kind}:${item.id}`;
+
+  const handleReview = async (item: ApprovalItem, decision?: ReviewDecision) => {
+    const comment = comments[keyOf(item)]?.trim() || undefined;
+    if (await onReview(item.kind, item.id, decision, comment)) {
+      setComments(prev => ({ ...prev, [keyOf(item)]: '' }));
+    }
+  };
+
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-500">This report has no receipts or mileage entries.</p>;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm">
+      <ul className="divide-y divide-gray-200">
+        {items.map(item => {
+          const decision = ReportReviews.latestDecision(reviews, item.kind, item.id);
+          const comment = comments[keyOf(item)] ?? '';
+
+          return (
+            <li key={keyOf(item)} className="p-4 space-y-2">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs uppercase tracking-wide text-gray-500">
+                      {item.kind === 'receipt' ? 'Receipt' : 'Mileage'}
+                    </span>
+                    {decision && (
+                      <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${DECISION_STYLES[decision]}`}>
+                        {ReportReviews.decisionLabel(decision)}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm font-medium text-gray-900 truncate">{item.title}</p>
+                  {item.detail && <p className="text-xs text-gray-600">{item.detail}</p>}
+                </div>
+                <span className="text-sm font-semibold text-gray-900">${item.amount.toFixed(2)}</span>
+              </div>
+
+              <PolicyViolations violations={ExpensePolicy.violationsFor(violations, item.id)} onJustify={() => {}} readOnly />
+              <ReviewFeedback reviews={ReportReviews.reviewsFor(reviews, item.kind, item.id)} />
+
+              {canReview && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="text"
+                    value={comment}
+                    onChange={(e) => setComments(prev => ({ ...prev, [keyOf(item)]: e.target.value }))}
+                    placeholder="Comment for the employee"
+                    className="flex-1 min-w-[12rem] px-3 py-1.5 border border-gray-300 rounded text-sm text-gray-900"
+                  />
+                  {DECISION_BUTTONS.map(button => (
+                    <button
+                      key={button.decision}
+                      onClick={() => handleReview(item, button.decision)}
+                      disabled={isBusy || (button.decision === 'changesRequested' && !comment.trim())}
+                      title={button.decision === 'changesRequested' ? 'Say what needs to change in the comment' : undefined}
+                      className={`px-3 py-1.5 rounded text-xs font-medium transition-colors disabled:opacity-50 ${button.className}`}
+                    >
+                      {button.label}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => handleReview(item)}
+                    disabled={isBusy || !comment.trim()}
+                    className="px-3 py-1.5 rounded text-xs font-medium bg-gray-100 hover:bg-gray-200 text-gray-800 transition-colors disabled:opacity-50"
+                  >
+                    Comment
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="px-4 py-3 border-t border-gray-200 flex justify-between text-sm">
+        <span className="text-gray-600">Requested ${requestedTotal.toFixed(2)}</span>
+        <span className="font-semibold text-gray-900">Approved ${approvedTotal.toFixed(2)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import type { AnalysisJobStage } from '@/lib/analysis-job-store';
+
+export interface BatchFileStatus {
+  jobId: string;
+  fileName: string;
+  stage: AnalysisJobStage;
+  error?: string;
+}
+
+interface BatchProgressProps {
+  files: BatchFileStatus[];
+  onRetry: (jobId: string) => void;
+  onClear: () => void;
+}
+
+const STAGE_LABELS: Record<AnalysisJobStage, { label: string; className: string }> = {
+  uploaded: { label: 'Queued', className: 'bg-gray-100 text-gray-700' },
+  validated: { label: 'Validated', className: 'bg-blue-100 text-blue-700' },
+  analyzing: { label: 'Analyzing', className: 'bg-yellow-100 text-yellow-800' },
+  parsed: { label: 'Done', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-700' },
+};
+
+// Live per-file status of background analysis, fed by the /api/jobs/stream events
+export default function BatchProgress({ files, onRetry, onClear }: BatchProgressProps) {
+  if (files.length === 0) return null;
+
+  const finished = files.filter(file => file.stage === 'parsed' || file.stage === 'failed').length;
+  const failed = files.filter(file => file.stage === 'failed').length;
+
+  return (
+    <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-blue-800">
+          Analyzing receipts: {finished} of {files.length} done{failed > 0 ? `, ${failed} failed` : ''}
+        </span>
+        {finished === files.length && (
+          <button
+            onClick={onClear}
+            className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      <div className="w-full bg-blue-200 rounded-full h-2 mb-3">
+        <div
+          className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+          style={{ width: `${(finished / files.length) * 100}%` }}
+        ></div>
+      </div>
+
+      <ul className="space-y-1 max-h-64 overflow-y-auto">
+        {files.map(file => (
+          <li key={file.jobId} className="flex items-center justify-between gap-3 text-sm bg-white rounded px-3 py-2">
+            <div className="min-w-0">
+              <p className="truncate text-gray-800" title={file.fileName}>{file.fileName}</p>
+              {file.error && <p className="text-xs text-red-600">{file.error}</p>}
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${STAGE_LABELS[file.stage].className}`}>
+                {STAGE_LABELS[file.stage].label}
+              </span>
+              {file.stage === 'failed' && (
+                <button
+                  onClick={() => onRetry(file.jobId)}
+                  className="bg-blue-500 hover:bg-blue-600 text-white px-2 py-0.5 rounded text-xs font-medium transition-colors"
+                >
+                  Retry
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+      <p className="mt-2 text-xs text-blue-600">
+        Receipts are analyzed on the server, so you can keep working or reload the page.
+      </p>
+    </div>
+  );
+}
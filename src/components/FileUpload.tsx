@@ -4,11 +4,16 @@ import { useDropzone } from 'react-dropzone';
 import { useState } from 'react';
 import { ImageValidator } from '@/lib/image-validator';
 import { ImageConverter } from '@/lib/image-converter';
+import BatchProgress, { BatchFileStatus } from './BatchProgress';
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void;
   onMultipleFilesSelect: (files: File[]) => void;
   isUploading?: boolean;
+  // Per-file status of batches being analyzed in the background
+  batchFiles?: BatchFileStatus[];
+  onRetryBatchFile?: (jobId: string) => void;
+  onClearBatch?: () => void;
 }
 
 interface ConversionStatus {
@@ -17,7 +22,14 @@ interface ConversionStatus {
   message?: string;
 }
 
-export default function FileUpload({ onFileSelect, onMultipleFilesSelect, isUploading = false }: FileUploadProps) {
+export default function FileUpload({
+  onFileSelect,
+  onMultipleFilesSelect,
+  isUploading = false,
+  batchFiles = [],
+  onRetryBatchFile = () => {},
+  onClearBatch = () => {},
+}: FileUploadProps) {
   const [preview, setPreview] = useState<string | null>(null);
   const [validationWarnings, setValidationWarnings] = useState<string[]>([]);
   const [conversionStatus, setConversionStatus] = useState<ConversionStatus>({ isConverting: false });
@@ -276,6 +288,8 @@ export default function FileUpload({ onFileSelect, onMultipleFilesSelect, isUplo
       */}
       
       {/* Preview removed to save space - focusing on table view */}
+
+      <BatchProgress files={batchFiles} onRetry={onRetryBatchFile} onClear={onClearBatch} />
     </div>
   );
 }
\ No newline at end of file
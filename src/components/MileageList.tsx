@@ -1,6 +1,10 @@
 'use client';
 
-import { useState } from 'react';
+import { Fragment, useState } from 'react';
+import { ExpensePolicy, PolicyViolation } from '@/lib/expense-policy';
+import { ReportReview, ReportReviews } from '@/lib/report-reviews';
+import PolicyViolations from './PolicyViolations';
+import ReviewFeedback from './ReviewFeedback';
 
 interface MileageEntryData {
   id: string;
@@ -14,21 +18,44 @@ interface MileageEntryData {
   reimbursableDistance: number;
   reimbursableAmount: number;
   createdAt: Date;
+  policyJustifications?: Record<string, string>;
 }
 
 interface MileageListProps {
   entries: MileageEntryData[];
   onRemoveEntry: (id: string) => void;
   onExport: () => void;
+  violations?: PolicyViolation[]; // Expense policy violations of all entries, see ExpensePolicy.evaluate
+  onJustify?: (entryId: string, ruleId: string, justification: string) => void;
+  readOnly?: boolean; // Reports past draft are shown but can't be changed
+  feedback?: ReportReview[]; // Approver feedback to act on, see ReportReviews.openFeedback
 }
 
-export default function MileageList({ entries, onRemoveEntry, onExport }: MileageListProps) {
+export default function MileageList({
+  entries,
+  onRemoveEntry,
+  onExport,
+  violations = [],
+  onJustify,
+  readOnly = false,
+  feedback = [],
+}: MileageListProps) {
   const [showDetails, setShowDetails] = useState<string | null>(null);
 
   const toggleDetails = (id: string) => {
     setShowDetails(showDetails === id ? null : id);
   };
 
+  const feedbackFor = (entry: MileageEntryData) => ReportReviews.reviewsFor(feedback, 'mileage', entry.id);
+
+  const renderViolations = (entry: MileageEntryData) => (
+    <PolicyViolations
+      violations={ExpensePolicy.violationsFor(violations, entry.id)}
+      onJustify={(ruleId, justification) => onJustify?.(entry.id, ruleId, justification)}
+      readOnly={readOnly}
+    />
+  );
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       month: 'short',
@@ -116,48 +143,66 @@ export default function MileageList({ entries, onRemoveEntry, onExport }: Mileag
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {entries.map((entry) => (
-              <tr key={entry.id} className="hover:bg-gray-50">
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-black">
-                  {formatDate(entry.date)}
-                </td>
-                <td className="px-6 py-4 text-sm text-black">
-                  <div className="max-w-xs truncate">
-                    <span className="font-medium">From:</span> {entry.startAddress}
-                  </div>
-                  <div className="max-w-xs truncate text-gray-600">
-                    <span className="font-medium">To:</span> {entry.endAddress}
-                  </div>
-                  {entry.roundTrip && (
-                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-blue-100 text-blue-800 mt-1">
-                      Round Trip
-                    </span>
-                  )}
-                </td>
-                <td className="px-6 py-4 text-sm text-black">
-                  <div className="max-w-xs truncate">
-                    {entry.businessPurpose}
-                  </div>
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-black">
-                  <div>{entry.reimbursableDistance.toFixed(1)}</div>
-                  {entry.personalCommute > 0 && (
-                    <div className="text-xs text-gray-500">
-                      ({entry.calculatedDistance.toFixed(1)} - {entry.personalCommute.toFixed(1)})
+              <Fragment key={entry.id}>
+                <tr className={feedbackFor(entry).length > 0 ? 'bg-amber-50 hover:bg-amber-100' : 'hover:bg-gray-50'}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-black">
+                    {formatDate(entry.date)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-black">
+                    <div className="max-w-xs truncate">
+                      <span className="font-medium">From:</span> {entry.startAddress}
                     </div>
-                  )}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-green-600">
-                  ${entry.reimbursableAmount.toFixed(2)}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  <button
-                    onClick={() => onRemoveEntry(entry.id)}
-                    className="text-red-600 hover:text-red-800 transition-colors"
-                  >
-                    Remove
-                  </button>
-                </td>
-              </tr>
+                    <div className="max-w-xs truncate text-gray-600">
+                      <span className="font-medium">To:</span> {entry.endAddress}
+                    </div>
+                    {entry.roundTrip && (
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-blue-100 text-blue-800 mt-1">
+                        Round Trip
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-black">
+                    <div className="max-w-xs truncate">
+                      {entry.businessPurpose}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-black">
+                    <div>{entry.reimbursableDistance.toFixed(1)}</div>
+                    {entry.personalCommute > 0 && (
+                      <div className="text-xs text-gray-500">
+                        ({entry.calculatedDistance.toFixed(1)} - {entry.personalCommute.toFixed(1)})
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-green-600">
+                    ${entry.reimbursableAmount.toFixed(2)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {!readOnly && (
+                      <button
+                        onClick={() => onRemoveEntry(entry.id)}
+                        className="text-red-600 hover:text-red-800 transition-colors"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+                {feedbackFor(entry).length > 0 && (
+                  <tr className="bg-amber-50">
+                    <td colSpan={6} className="px-6 pb-3 pt-0">
+                      <ReviewFeedback reviews={feedbackFor(entry)} />
+                    </td>
+                  </tr>
+                )}
+                {ExpensePolicy.violationsFor(violations, entry.id).length > 0 && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={6} className="px-6 pb-3 pt-0">
+                      {renderViolations(entry)}
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
             ))}
           </tbody>
         </table>
@@ -166,7 +211,10 @@ export default function MileageList({ entries, onRemoveEntry, onExport }: Mileag
       {/* Mobile Card View - Visible on Mobile */}
       <div className="block md:hidden space-y-4">
         {entries.map((entry) => (
-          <div key={entry.id} className="bg-white rounded-lg shadow-lg border border-gray-200">
+          <div
+            key={entry.id}
+            className={`rounded-lg shadow-lg border ${feedbackFor(entry).length > 0 ? 'bg-amber-50 border-amber-400' : 'bg-white border-gray-200'}`}
+          >
             <div className="p-4">
               <div className="flex justify-between items-start mb-3">
                 <div>
@@ -186,14 +234,24 @@ export default function MileageList({ entries, onRemoveEntry, onExport }: Mileag
                 >
                   {showDetails === entry.id ? 'Hide Details' : 'Show Details'}
                 </button>
-                <button
-                  onClick={() => onRemoveEntry(entry.id)}
-                  className="text-red-600 hover:text-red-800 text-sm"
-                >
-                  Remove
-                </button>
+                {!readOnly && (
+                  <button
+                    onClick={() => onRemoveEntry(entry.id)}
+                    className="text-red-600 hover:text-red-800 text-sm"
+                  >
+                    Remove
+                  </button>
+                )}
               </div>
 
+              {feedbackFor(entry).length > 0 && (
+                <div className="mt-3"><ReviewFeedback reviews={feedbackFor(entry)} /></div>
+              )}
+
+              {ExpensePolicy.violationsFor(violations, entry.id).length > 0 && (
+                <div className="mt-3">{renderViolations(entry)}</div>
+              )}
+
               {showDetails === entry.id && (
                 <div className="mt-4 pt-4 border-t border-gray-200 space-y-2 text-sm">
                   <div>
@@ -0,0 +1,54 @@
+'use client';
+
+import type { PolicyViolation } from '@/lib/expense-policy';
+
+interface PolicyViolationsProps {
+  violations: PolicyViolation[];
+  onJustify: (ruleId: string, justification: string) => void;
+  readOnly?: boolean;
+}
+
+// Policy flags for one receipt or mileage entry; soft violations take a justification inline
+export default function PolicyViolations({ violations, onJustify, readOnly = false }: PolicyViolationsProps) {
+  if (violations.length === 0) return null;
+
+  return (
+    <ul className="space-y-2">
+      {violations.map(violation => (
+        <li key={violation.ruleId} className="text-xs">
+          <div className="flex items-start gap-2">
+            {violation.severity === 'hard' ? (
+              <span className="px-1.5 py-0.5 rounded bg-red-100 text-red-700 font-medium shrink-0">Not allowed</span>
+            ) : (
+              <span className={`px-1.5 py-0.5 rounded font-medium shrink-0 ${
+                violation.justification ? 'bg-gray-100 text-gray-600' : 'bg-amber-100 text-amber-800'
+              }`}>
+                {violation.justification ? 'Justified' : 'Needs justification'}
+              </span>
+            )}
+            <span className={violation.severity === 'hard' ? 'text-red-700' : 'text-gray-700'}>{violation.message}</span>
+          </div>
+          {violation.severity === 'soft' && readOnly && violation.justification && (
+            <p className="mt-1 text-gray-600 italic">{violation.justification}</p>
+          )}
+          {violation.severity === 'soft' && !readOnly && (
+            <input
+              type="text"
+              defaultValue={violation.justification || ''}
+              onBlur={(e) => {
+                if (e.target.value.trim() !== (violation.justification || '')) {
+                  onJustify(violation.ruleId, e.target.value.trim());
+                }
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className={`mt-1 w-full p-1 border rounded text-gray-900 text-xs ${
+                violation.justification ? 'border-gray-300' : 'border-amber-400 bg-amber-50'
+              }`}
+              placeholder="Required: explain why this expense is needed"
+            />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
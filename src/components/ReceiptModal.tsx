@@ -1,15 +1,42 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
+import { FieldOverlay } from '@/lib/field-geometry';
+import { describeConfidence, isLowConfidence } from '@/lib/field-confidence';
+
+export interface ReceiptComparisonSide {
+  receiptId: string;
+  imageUrl?: string;
+  details: Array<{ label: string; value: string }>;
+}
+
+// Two suspected duplicates shown side by side instead of a single image
+export interface ReceiptComparison {
+  sides: [ReceiptComparisonSide, ReceiptComparisonSide];
+  reasons: string[];
+  onKeep: (receiptId: string) => void; // Merge the pair into this receipt
+  onDismiss: () => void; // Not duplicates
+}
 
 interface ReceiptModalProps {
   isOpen: boolean;
   onClose: () => void;
   imageUrl: string;
   receiptId: string;
+  fieldOverlays?: FieldOverlay[];
+  highlightedField?: string | null;
+  comparison?: ReceiptComparison;
 }
 
-export default function ReceiptModal({ isOpen, onClose, imageUrl, receiptId }: ReceiptModalProps) {
+export default function ReceiptModal({ isOpen, onClose, imageUrl, receiptId, fieldOverlays = [], highlightedField = null, comparison }: ReceiptModalProps) {
+  const [activeField, setActiveField] = useState<string | null>(highlightedField);
+  const [showBoxes, setShowBoxes] = useState(true);
+
+  // Follow the field the table asked us to highlight
+  useEffect(() => {
+    setActiveField(highlightedField);
+  }, [highlightedField, receiptId]);
+
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
@@ -29,13 +56,102 @@ export default function ReceiptModal({ isOpen, onClose, imageUrl, receiptId }: R
 
   if (!isOpen) return null;
 
+  if (comparison) {
+    const [left, right] = comparison.sides;
+    const differs = (label: string) =>
+      left.details.find(detail => detail.label === label)?.value !== right.details.find(detail => detail.label === label)?.value;
+
+    return (
+      <div
+        className="fixed inset-0 z-40 flex items-center justify-center p-4"
+        style={{ backgroundColor: 'rgba(0, 0, 0, 0.4)' }}
+        onClick={onClose}
+      >
+        <div
+          className="relative w-full max-w-5xl max-h-[90vh] bg-white rounded-lg shadow-2xl overflow-y-auto p-4"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-start justify-between mb-3">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Possible duplicate</h3>
+              <p className="text-sm text-gray-600">{comparison.reasons.join(' · ')}</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
+              aria-label="Close comparison"
+            >
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {comparison.sides.map(side => (
+              <div key={side.receiptId} className="border border-gray-200 rounded-lg p-3 flex flex-col">
+                <div className="flex items-center justify-center bg-gray-50 rounded h-[45vh] mb-3">
+                  {side.imageUrl ? (
+                    <img
+                      src={side.imageUrl}
+                      alt={`Receipt ${side.receiptId}`}
+                      className="max-w-full max-h-full object-contain"
+                    />
+                  ) : (
+                    <span className="text-sm text-gray-400 italic">Image not available</span>
+                  )}
+                </div>
+                <dl className="text-sm space-y-1 mb-3">
+                  {side.details.map(detail => (
+                    <div key={detail.label} className={`flex justify-between gap-2 px-1 rounded ${differs(detail.label) ? 'bg-amber-50' : ''}`}>
+                      <dt className="text-gray-500">{detail.label}</dt>
+                      <dd className="text-gray-900 text-right truncate">{detail.value || '-'}</dd>
+                    </div>
+                  ))}
+                </dl>
+                <button
+                  onClick={() => comparison.onKeep(side.receiptId)}
+                  className="mt-auto bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded text-sm font-medium transition-colors"
+                  title="Keep this receipt and remove the other, copying over anything filled in only there"
+                >
+                  Keep this one
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end mt-4">
+            <button
+              onClick={comparison.onDismiss}
+              className="text-sm text-gray-600 hover:text-gray-900 underline"
+            >
+              Not a duplicate
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const activeOverlay = fieldOverlays.find(overlay => overlay.key === activeField);
+
+  const boxClassName = (overlay: FieldOverlay) => {
+    if (overlay.key === activeField) {
+      return 'border-2 border-blue-600 bg-blue-400/30 animate-pulse';
+    }
+    if (isLowConfidence(overlay.detection)) {
+      return 'border border-orange-500 bg-orange-300/20';
+    }
+    return 'border border-green-500 bg-green-300/10';
+  };
+
   return (
-    <div 
+    <div
       className="fixed inset-0 z-40 flex items-center justify-center p-4"
       style={{ backgroundColor: 'rgba(0, 0, 0, 0.4)' }}
       onClick={onClose}
     >
-      <div 
+      <div
         className="relative max-w-4xl max-h-[90vh] bg-white rounded-lg shadow-2xl overflow-hidden"
         onClick={(e) => e.stopPropagation()} // Prevent modal close when clicking on image
       >
@@ -50,21 +166,57 @@ export default function ReceiptModal({ isOpen, onClose, imageUrl, receiptId }: R
           </svg>
         </button>
 
-        {/* Receipt image */}
+        {/* Bounding box toggle */}
+        {fieldOverlays.length > 0 && (
+          <button
+            onClick={() => setShowBoxes(!showBoxes)}
+            className="absolute top-4 left-4 z-10 bg-black bg-opacity-50 text-white px-3 py-1 rounded text-sm hover:bg-opacity-70 transition-colors"
+          >
+            {showBoxes ? 'Hide fields' : 'Show fields'}
+          </button>
+        )}
+
+        {/* Receipt image with extracted field overlay */}
         <div className="flex items-center justify-center max-h-[90vh]">
-          <img
-            src={imageUrl}
-            alt={`Receipt ${receiptId}`}
-            className="max-w-full max-h-full object-contain"
-            style={{ maxHeight: '90vh' }}
-          />
+          <div className="relative inline-block">
+            <img
+              src={imageUrl}
+              alt={`Receipt ${receiptId}`}
+              className="max-w-full max-h-full object-contain block"
+              style={{ maxHeight: '90vh' }}
+            />
+            {showBoxes && fieldOverlays.map(overlay => (
+              <button
+                key={overlay.key}
+                onClick={() => setActiveField(overlay.key === activeField ? null : overlay.key)}
+                className={`absolute rounded-sm transition-colors ${boxClassName(overlay)}`}
+                style={{
+                  left: `${overlay.geometry.boundingBox.left * 100}%`,
+                  top: `${overlay.geometry.boundingBox.top * 100}%`,
+                  width: `${overlay.geometry.boundingBox.width * 100}%`,
+                  height: `${overlay.geometry.boundingBox.height * 100}%`,
+                }}
+                title={`${overlay.label}: ${overlay.value || ''} (${describeConfidence(overlay.detection)})`}
+                aria-label={`${overlay.label} field location`}
+              />
+            ))}
+          </div>
         </div>
 
-        {/* Receipt ID label */}
+        {/* Receipt ID label, or the selected field's details */}
         <div className="absolute bottom-4 left-4 bg-black bg-opacity-50 text-white px-3 py-1 rounded text-sm">
-          Receipt: {receiptId.slice(0, 8)}...
+          {activeOverlay ? (
+            <span>
+              {activeOverlay.label}: <span className="font-semibold">{activeOverlay.value || '-'}</span>
+              {activeOverlay.detection.confidence !== undefined && (
+                <span className="ml-2 text-gray-200">{describeConfidence(activeOverlay.detection)}</span>
+              )}
+            </span>
+          ) : (
+            <span>Receipt: {receiptId.slice(0, 8)}...</span>
+          )}
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
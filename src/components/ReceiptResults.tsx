@@ -2,6 +2,15 @@
 
 import { useState } from 'react';
 import { ExtractedReceiptData } from '@/lib/textract-service';
+import { ReceiptNormalizer } from '@/lib/receipt-normalizer';
+
+// Tips and adjustments that meal policy checks look at
+const ADJUSTMENT_FIELDS: Array<{ field: 'tip' | 'gratuity' | 'serviceCharge' | 'discount'; label: string }> = [
+  { field: 'tip', label: 'Tip' },
+  { field: 'gratuity', label: 'Gratuity' },
+  { field: 'serviceCharge', label: 'Service Charge' },
+  { field: 'discount', label: 'Discount' },
+];
 
 interface ReceiptResultsProps {
   data: ExtractedReceiptData;
@@ -13,7 +22,7 @@ export default function ReceiptResults({ data, onDataChange, onExport }: Receipt
   const [editableData, setEditableData] = useState<ExtractedReceiptData>(data);
 
   const handleFieldChange = (field: keyof ExtractedReceiptData, value: string) => {
-    const newData = { ...editableData, [field]: value };
+    const newData = ReceiptNormalizer.normalize({ ...editableData, [field]: value });
     setEditableData(newData);
     onDataChange(newData);
   };
@@ -120,6 +129,21 @@ export default function ReceiptResults({ data, onDataChange, onExport }: Receipt
             />
           </div>
 
+          {ADJUSTMENT_FIELDS.map(({ field, label }) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {label}
+              </label>
+              <input
+                type="text"
+                value={editableData[field] || ''}
+                onChange={(e) => handleFieldChange(field, e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900"
+                placeholder={`Enter ${label.toLowerCase()}`}
+              />
+            </div>
+          ))}
+
           {/* <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Subtotal
@@ -1,8 +1,18 @@
 'use client';
 
-import { useState } from 'react';
-import { ExtractedReceiptData } from '@/lib/textract-service';
-import ReceiptModal from './ReceiptModal';
+import { Fragment, useState } from 'react';
+import { ExtractedReceiptData, ReceiptFieldName } from '@/lib/textract-service';
+import { describeConfidence, isLowConfidence } from '@/lib/field-confidence';
+import { collectFieldOverlays } from '@/lib/field-geometry';
+import { ReceiptNormalizer } from '@/lib/receipt-normalizer';
+import { ExpenseCategories } from '@/lib/expense-categories';
+import { ExpensePolicy, PolicyViolation } from '@/lib/expense-policy';
+import { DuplicateMatch, ReceiptDuplicates } from '@/lib/receipt-duplicates';
+import type { ArchivedReceipt } from '@/lib/receipt-archive';
+import { ReportReview, ReportReviews } from '@/lib/report-reviews';
+import ReceiptModal, { ReceiptComparison, ReceiptComparisonSide } from './ReceiptModal';
+import PolicyViolations from './PolicyViolations';
+import ReviewFeedback from './ReviewFeedback';
 
 interface ReceiptEntry {
   id: string;
@@ -12,43 +22,229 @@ interface ReceiptEntry {
     file: File;
     dataUrl: string;
   };
+  archive?: ArchivedReceipt;
 }
 
+// Prefer the in-memory copy; fall back to the signed link to the archived original when retention is on
+const imageUrlOf = (receipt: ReceiptEntry): string | undefined => {
+  return receipt.originalImage?.dataUrl || receipt.archive?.url;
+};
+
+type PaymentFieldName = 'paymentMethod' | 'cardLastFour' | 'receiptNumber';
+
+// Used by finance to reconcile receipts against corporate card statements
+const PAYMENT_FIELDS: Array<{ field: PaymentFieldName; label: string; placeholder: string }> = [
+  { field: 'paymentMethod', label: 'Method', placeholder: 'Visa, Amex, Cash...' },
+  { field: 'cardLastFour', label: 'Card', placeholder: 'Last 4 digits' },
+  { field: 'receiptNumber', label: 'Receipt #', placeholder: 'Receipt/invoice number' },
+];
+
+type AdjustmentFieldName = 'tip' | 'gratuity' | 'serviceCharge' | 'discount';
+
+// Tips and adjustments that meal policy checks look at, shown under the total
+const ADJUSTMENT_FIELDS: Array<{ field: AdjustmentFieldName; label: string; placeholder: string }> = [
+  { field: 'tip', label: 'Tip', placeholder: 'Tip written in' },
+  { field: 'gratuity', label: 'Gratuity', placeholder: 'Added by merchant' },
+  { field: 'serviceCharge', label: 'Service', placeholder: 'Service charge' },
+  { field: 'discount', label: 'Discount', placeholder: 'Amount taken off' },
+];
+
 interface ReceiptTableProps {
   receipts: ReceiptEntry[];
   onDataChange: (receiptId: string, newData: ExtractedReceiptData) => void;
   onRemoveReceipt: (receiptId: string) => void;
+  categoryOptions?: string[]; // Company's enabled category labels, defaults to the built-in list
+  violations?: PolicyViolation[]; // Expense policy violations of all receipts, see ExpensePolicy.evaluate
+  duplicates?: DuplicateMatch[]; // Suspected duplicate pairs, see ReceiptDuplicates.find
+  onMergeDuplicates?: (keptId: string, removedId: string) => void;
+  onDismissDuplicate?: (receiptId: string, otherId: string) => void;
+  readOnly?: boolean; // Reports past draft are shown but can't be changed
+  feedback?: ReportReview[]; // Approver feedback to act on, see ReportReviews.openFeedback
 }
 
-export default function ReceiptTable({ receipts, onDataChange, onRemoveReceipt }: ReceiptTableProps) {
+export default function ReceiptTable({
+  receipts,
+  onDataChange,
+  onRemoveReceipt,
+  categoryOptions,
+  violations = [],
+  duplicates = [],
+  onMergeDuplicates,
+  onDismissDuplicate,
+  readOnly = false,
+  feedback = [],
+}: ReceiptTableProps) {
   const [editingCell, setEditingCell] = useState<string | null>(null);
+  const [comparedPair, setComparedPair] = useState<DuplicateMatch | null>(null);
   const [modalOpen, setModalOpen] = useState(false);
-  const [selectedReceiptImage, setSelectedReceiptImage] = useState<{ id: string; imageUrl: string } | null>(null);
-
-  const expenseCategories = [
-    'HOTEL/MOTEL',
-    'MEALS',
-    'ENTERTAINMENT',
-    'TRANSPORT/AIR-RAIL', 
-    'COMPUTER SUPPLIES',
-    'CELL PHONE',
-    'GAS',
-    'COPIES',
-    'DUES',
-    'POSTAGE',
-    'OFFICE SUPPLIES',
-    'MISC'
-  ];
+  const [selectedReceiptImage, setSelectedReceiptImage] = useState<{ id: string; imageUrl: string; highlightedField?: string } | null>(null);
+
+  const expenseCategories = categoryOptions || ExpenseCategories.labels();
+
+  // Keeps a receipt's current value selectable after its category was disabled or renamed
+  const categoryOptionsFor = (receipt: ReceiptEntry): string[] =>
+    receipt.data.category && !expenseCategories.includes(receipt.data.category)
+      ? [...expenseCategories, receipt.data.category]
+      : expenseCategories;
 
   const handleCellEdit = (receiptId: string, field: keyof ExtractedReceiptData, value: string) => {
+    if (readOnly) return;
     const receipt = receipts.find(r => r.id === receiptId);
     if (receipt) {
-      const newData = { ...receipt.data, [field]: value };
+      let newData: ExtractedReceiptData = { ...receipt.data, [field]: value };
+      // An edited value has been checked by the user, so stop flagging it as low confidence
+      const detection = receipt.data.fieldDetections?.[field as ReceiptFieldName];
+      if (detection) {
+        newData.fieldDetections = {
+          ...receipt.data.fieldDetections,
+          [field]: { ...detection, reviewed: true }
+        };
+      }
+      // Picking a category, even the suggested one, confirms it
+      if (field === 'category' && receipt.data.categorySuggestion) {
+        newData.categorySuggestion = { ...receipt.data.categorySuggestion, reviewed: true };
+      }
+      if (field === 'description' && receipt.data.descriptionSuggestion) {
+        newData.descriptionSuggestion = { ...receipt.data.descriptionSuggestion, reviewed: true };
+      }
+      // Keep the typed amounts and ISO date in step with the edited text
+      newData = ReceiptNormalizer.normalize(newData);
       onDataChange(receiptId, newData);
     }
   };
 
+  const handleJustify = (receipt: ReceiptEntry, ruleId: string, justification: string) => {
+    const policyJustifications = { ...receipt.data.policyJustifications, [ruleId]: justification };
+    if (!justification) delete policyJustifications[ruleId];
+    onDataChange(receipt.id, { ...receipt.data, policyJustifications });
+  };
+
+  const renderViolations = (receipt: ReceiptEntry) => (
+    <PolicyViolations
+      violations={ExpensePolicy.violationsFor(violations, receipt.id)}
+      onJustify={(ruleId, justification) => handleJustify(receipt, ruleId, justification)}
+      readOnly={readOnly}
+    />
+  );
+
+  const feedbackFor = (receipt: ReceiptEntry) => ReportReviews.reviewsFor(feedback, 'receipt', receipt.id);
+
+  const comparisonSide = (receipt: ReceiptEntry): ReceiptComparisonSide => ({
+    receiptId: receipt.id,
+    imageUrl: imageUrlOf(receipt),
+    details: [
+      { label: 'Date', value: receipt.data.date || '' },
+      { label: 'Merchant', value: receipt.data.merchant || '' },
+      { label: 'Total', value: formatCurrency(receipt.data) },
+      ...ADJUSTMENT_FIELDS
+        .filter(({ field }) => receipt.data[field])
+        .map(({ field, label }) => ({ label, value: formatCurrency(receipt.data, field) })),
+      { label: 'Purpose', value: receipt.data.description || '' },
+      { label: 'Category', value: receipt.data.category || '' },
+      { label: 'Payment', value: [receipt.data.paymentMethod, receipt.data.cardLastFour && `•••• ${receipt.data.cardLastFour}`].filter(Boolean).join(' ') },
+      { label: 'Receipt #', value: receipt.data.receiptNumber || '' },
+      { label: 'Line items', value: String(receipt.data.items?.length || 0) },
+    ],
+  });
+
+  const comparisonOf = (pair: DuplicateMatch): ReceiptComparison | undefined => {
+    const receipt = receipts.find(r => r.id === pair.receiptId);
+    const other = receipts.find(r => r.id === pair.otherId);
+    if (!receipt || !other) return undefined;
+
+    return {
+      sides: [comparisonSide(receipt), comparisonSide(other)],
+      reasons: pair.reasons,
+      onKeep: (keptId) => {
+        onMergeDuplicates?.(keptId, keptId === receipt.id ? other.id : receipt.id);
+        setComparedPair(null);
+      },
+      onDismiss: () => {
+        onDismissDuplicate?.(receipt.id, other.id);
+        setComparedPair(null);
+      },
+    };
+  };
+
+  // Flag with a compare button for each receipt this one may duplicate
+  const renderDuplicateFlags = (receipt: ReceiptEntry) => !readOnly && ReceiptDuplicates.matchesFor(duplicates, receipt.id).map(match => (
+    <button
+      key={match.otherId}
+      onClick={() => setComparedPair(match)}
+      className="mt-1 flex items-center gap-1 px-1.5 py-0.5 rounded bg-purple-100 text-purple-800 text-xs font-medium hover:bg-purple-200"
+      title={match.reasons.join(', ')}
+    >
+      ⚠ Possible duplicate · Compare
+    </button>
+  ));
+
+  // A category filled in by the categorization rules that the user hasn't confirmed yet
+  const isSuggestedCategory = (receipt: ReceiptEntry) => {
+    const suggestion = receipt.data.categorySuggestion;
+    return !!suggestion && !suggestion.reviewed && suggestion.category === receipt.data.category;
+  };
+
+  // A purpose filled in from earlier receipts of the same merchant, not confirmed yet
+  const isSuggestedDescription = (receipt: ReceiptEntry) => {
+    const suggestion = receipt.data.descriptionSuggestion;
+    return !!suggestion && !suggestion.reviewed && suggestion.description === receipt.data.description;
+  };
+
+  const categorySuggestionTitle = (receipt: ReceiptEntry) => {
+    const suggestion = receipt.data.categorySuggestion;
+    if (!suggestion) return '';
+    if (suggestion.source === 'learned') {
+      return `You picked this category for "${suggestion.matched}" before. Confirm it or pick another category.`;
+    }
+    const source = suggestion.source === 'merchant' ? 'merchant name'
+      : suggestion.source === 'lineItem' ? 'line item' : 'receipt field';
+    return `Suggested from ${source} "${suggestion.matched}". Confirm it or pick another category.`;
+  };
+
+  const descriptionSuggestionTitle = (receipt: ReceiptEntry) => {
+    const count = receipt.data.descriptionSuggestion?.count || 0;
+    return `Used for this merchant on ${count} earlier receipt${count === 1 ? '' : 's'}. Confirm it or click the purpose to change it.`;
+  };
+
+  // Badge and confirm button shown next to a suggested value
+  const suggestionMarker = (title: string, onConfirm: () => void) => (
+    <div className="flex items-center gap-1 mt-1" title={title}>
+      <span className="px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 text-xs font-medium">Suggested</span>
+      <button
+        onClick={onConfirm}
+        className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+      >
+        ✓ Confirm
+      </button>
+    </div>
+  );
+
+  const categorySuggestionMarker = (receipt: ReceiptEntry) => !readOnly && isSuggestedCategory(receipt) && suggestionMarker(
+    categorySuggestionTitle(receipt),
+    () => handleCellEdit(receipt.id, 'category', receipt.data.category || '')
+  );
+
+  const descriptionSuggestionMarker = (receipt: ReceiptEntry) => !readOnly && isSuggestedDescription(receipt) && suggestionMarker(
+    descriptionSuggestionTitle(receipt),
+    () => handleCellEdit(receipt.id, 'description', receipt.data.description || '')
+  );
+
+  const lowConfidenceClass = (receipt: ReceiptEntry, field: ReceiptFieldName) => {
+    return isLowConfidence(receipt.data.fieldDetections?.[field])
+      ? 'bg-orange-50 ring-1 ring-orange-300'
+      : '';
+  };
+
+  const confidenceTitle = (receipt: ReceiptEntry, field: ReceiptFieldName, fallback: string) => {
+    const detection = receipt.data.fieldDetections?.[field];
+    if (isLowConfidence(detection)) {
+      return `Low confidence: ${describeConfidence(detection)}. Check against the receipt image.`;
+    }
+    return fallback;
+  };
+
   const handleCellClick = (cellId: string) => {
+    if (readOnly) return;
     setEditingCell(cellId);
   };
 
@@ -56,42 +252,102 @@ export default function ReceiptTable({ receipts, onDataChange, onRemoveReceipt }
     setEditingCell(null);
   };
 
-  const handleViewReceipt = (receipt: ReceiptEntry) => {
-    if (receipt.originalImage?.dataUrl) {
+  const handleViewReceipt = (receipt: ReceiptEntry, highlightedField?: string) => {
+    const imageUrl = imageUrlOf(receipt);
+    if (imageUrl) {
       setSelectedReceiptImage({
         id: receipt.id,
-        imageUrl: receipt.originalImage.dataUrl
+        imageUrl,
+        highlightedField
       });
       setModalOpen(true);
     }
   };
 
+  // Small button that opens the receipt image with the field's source highlighted
+  const renderLocateButton = (receipt: ReceiptEntry, field: ReceiptFieldName) => {
+    if (!imageUrlOf(receipt) || !receipt.data.fieldDetections?.[field]?.geometry) {
+      return null;
+    }
+    return (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          handleViewReceipt(receipt, field);
+        }}
+        className="ml-1 text-xs text-blue-500 hover:text-blue-700"
+        title="Show where this value is on the receipt"
+        aria-label={`Locate ${field} on receipt image`}
+      >
+        📍
+      </button>
+    );
+  };
+
+  // Compact label/value pair for the payment details, editable in place like the other cells
+  const renderDetailField = (
+    receipt: ReceiptEntry,
+    field: PaymentFieldName | AdjustmentFieldName,
+    label: string,
+    placeholder: string
+  ) => {
+    const cellId = `${receipt.id}-${field}`;
+    const value = receipt.data[field];
+    const isAmount = ADJUSTMENT_FIELDS.some(adjustment => adjustment.field === field);
+
+    return (
+      <div key={field} className="flex items-center gap-1">
+        <span className="text-xs text-gray-500 w-16 shrink-0">{label}</span>
+        {editingCell === cellId ? (
+          <input
+            type="text"
+            value={value || ''}
+            onChange={(e) => handleCellEdit(
+              receipt.id,
+              field,
+              field === 'cardLastFour' ? e.target.value.replace(/\D/g, '').slice(0, 4) : e.target.value
+            )}
+            onBlur={handleCellBlur}
+            onKeyDown={(e) => e.key === 'Enter' && handleCellBlur()}
+            className="w-full p-1 border border-gray-300 rounded text-gray-900 text-sm"
+            placeholder={placeholder}
+            inputMode={field === 'cardLastFour' ? 'numeric' : undefined}
+            autoFocus
+          />
+        ) : (
+          <div
+            onClick={() => handleCellClick(cellId)}
+            className={`cursor-pointer hover:bg-gray-100 px-1 rounded min-h-[1.25rem] flex-1 ${lowConfidenceClass(receipt, field)}`}
+            title={confidenceTitle(receipt, field, 'Click to edit')}
+          >
+            {value ? (field === 'cardLastFour' ? `•••• ${value}` : isAmount ? formatCurrency(receipt.data, field as AdjustmentFieldName) : value) : (
+              <span className="text-gray-400 italic">-</span>
+            )}
+            {renderLocateButton(receipt, field)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const handleCloseModal = () => {
     setModalOpen(false);
     setSelectedReceiptImage(null);
   };
 
-  const formatCurrency = (amount?: string) => {
-    if (!amount) return '';
-    // Remove any non-numeric characters except decimal point
-    const cleanAmount = amount.replace(/[^\d.-]/g, '');
-    return cleanAmount ? `$${cleanAmount}` : amount;
+  const formatCurrency = (data: ExtractedReceiptData, field: 'total' | AdjustmentFieldName = 'total') => {
+    const raw = data[field];
+    if (!raw) return '';
+    const normalized = data.normalized?.[field] ?? ReceiptNormalizer.parseAmount(raw, data.normalized?.currency);
+    return normalized === null || normalized === undefined
+      ? raw
+      : ReceiptNormalizer.formatAmount(normalized, data.normalized?.currency);
   };
 
-  // Convert date from display format (MM/DD/YYYY) to input format (YYYY-MM-DD)
+  // Convert any receipt date format to input format (YYYY-MM-DD)
   const formatDateForInput = (dateStr: string): string => {
     if (!dateStr) return '';
-    // Try to parse various date formats
-    const parts = dateStr.split(/[\/\-]/);
-    if (parts.length === 3) {
-      // Assume MM/DD/YYYY or MM-DD-YYYY
-      const [month, day, year] = parts;
-      const paddedMonth = month.padStart(2, '0');
-      const paddedDay = day.padStart(2, '0');
-      const fullYear = year.length === 2 ? `20${year}` : year;
-      return `${fullYear}-${paddedMonth}-${paddedDay}`;
-    }
-    return dateStr;
+    return ReceiptNormalizer.parseDate(dateStr) || '';
   };
 
   // Convert date from input format (YYYY-MM-DD) to display format (MM/DD/YYYY)
@@ -101,6 +357,10 @@ export default function ReceiptTable({ receipts, onDataChange, onRemoveReceipt }
     return `${month}/${day}/${year}`;
   };
 
+  const selectedReceipt = selectedReceiptImage
+    ? receipts.find(r => r.id === selectedReceiptImage.id)
+    : undefined;
+
   return (
     <div className="bg-white rounded-lg shadow-lg overflow-hidden">
       {/* Desktop Table View - Hidden on Mobile */}
@@ -120,6 +380,9 @@ export default function ReceiptTable({ receipts, onDataChange, onRemoveReceipt }
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Total
               </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Payment
+              </th>
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Category <span className="text-amber-600 font-bold">*</span>
               </th>
@@ -130,146 +393,181 @@ export default function ReceiptTable({ receipts, onDataChange, onRemoveReceipt }
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {receipts.map((receipt, index) => (
-              <tr key={receipt.id} className="hover:bg-gray-50">
-                <td className="px-4 py-4 text-sm text-gray-900">
-                  {editingCell === `${receipt.id}-date` ? (
-                    <input
-                      type="date"
-                      value={formatDateForInput(receipt.data.date || '')}
-                      onChange={(e) => handleCellEdit(receipt.id, 'date', formatDateFromInput(e.target.value))}
-                      onBlur={handleCellBlur}
-                      onKeyPress={(e) => e.key === 'Enter' && handleCellBlur()}
-                      className="w-full p-1 border border-gray-300 rounded text-gray-900 text-sm"
-                      autoFocus
-                    />
-                  ) : (
-                    <div
-                      onClick={() => handleCellClick(`${receipt.id}-date`)}
-                      className="cursor-pointer hover:bg-gray-100 p-1 rounded min-h-[1.5rem]"
-                      title="Click to edit receipt date"
-                    >
-                      {receipt.data.date || (
-                        <span className="text-gray-400 italic">Click to add date</span>
-                      )}
+              <Fragment key={receipt.id}>
+                <tr className={feedbackFor(receipt).length > 0 ? 'bg-amber-50 hover:bg-amber-100' : 'hover:bg-gray-50'}>
+                  <td className="px-4 py-4 text-sm text-gray-900">
+                    {editingCell === `${receipt.id}-date` ? (
+                      <input
+                        type="date"
+                        value={formatDateForInput(receipt.data.date || '')}
+                        onChange={(e) => handleCellEdit(receipt.id, 'date', formatDateFromInput(e.target.value))}
+                        onBlur={handleCellBlur}
+                        onKeyPress={(e) => e.key === 'Enter' && handleCellBlur()}
+                        className="w-full p-1 border border-gray-300 rounded text-gray-900 text-sm"
+                        autoFocus
+                      />
+                    ) : (
+                      <div
+                        onClick={() => handleCellClick(`${receipt.id}-date`)}
+                        className={`cursor-pointer hover:bg-gray-100 p-1 rounded min-h-[1.5rem] ${lowConfidenceClass(receipt, 'date')}`}
+                        title={confidenceTitle(receipt, 'date', 'Click to edit receipt date')}
+                      >
+                        {receipt.data.date || (
+                          <span className="text-gray-400 italic">Click to add date</span>
+                        )}
+                        {renderLocateButton(receipt, 'date')}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-4 text-sm text-gray-900 max-w-xs">
+                    {editingCell === `${receipt.id}-merchant` ? (
+                      <input
+                        type="text"
+                        value={receipt.data.merchant || ''}
+                        onChange={(e) => handleCellEdit(receipt.id, 'merchant', e.target.value)}
+                        onBlur={handleCellBlur}
+                        onKeyPress={(e) => e.key === 'Enter' && handleCellBlur()}
+                        className="w-full p-1 border border-gray-300 rounded text-gray-900 text-sm"
+                        autoFocus
+                      />
+                    ) : (
+                      <div
+                        onClick={() => handleCellClick(`${receipt.id}-merchant`)}
+                        className={`cursor-pointer hover:bg-gray-100 p-1 rounded min-h-[1.5rem] truncate ${lowConfidenceClass(receipt, 'merchant')}`}
+                        title={confidenceTitle(receipt, 'merchant', receipt.data.merchant || "Click to edit")}
+                      >
+                        {receipt.data.merchant || (
+                          <span className="text-gray-400 italic">-</span>
+                        )}
+                        {renderLocateButton(receipt, 'merchant')}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-4 text-sm text-gray-900 max-w-xs">
+                    {editingCell === `${receipt.id}-description` ? (
+                      <input
+                        type="text"
+                        value={receipt.data.description || ''}
+                        onChange={(e) => handleCellEdit(receipt.id, 'description', e.target.value)}
+                        onBlur={handleCellBlur}
+                        onKeyPress={(e) => e.key === 'Enter' && handleCellBlur()}
+                        className="w-full p-1 border border-gray-300 rounded text-gray-900 text-sm"
+                        placeholder="Enter purpose of trip/expenditure"
+                        autoFocus
+                      />
+                    ) : (
+                      <div
+                        onClick={() => handleCellClick(`${receipt.id}-description`)}
+                        className={`cursor-pointer hover:bg-gray-100 p-1 rounded min-h-[1.5rem] ${
+                          !receipt.data.description ? 'bg-amber-50 border border-amber-200' : ''
+                        }`}
+                        title="Click to edit (Required)"
+                      >
+                        {receipt.data.description || (
+                          <span className="text-amber-600 italic font-medium">Required: Click to add purpose</span>
+                        )}
+                      </div>
+                    )}
+                    {editingCell !== `${receipt.id}-description` && descriptionSuggestionMarker(receipt)}
+                  </td>
+                  <td className="px-4 py-4 text-sm text-gray-900">
+                    {editingCell === `${receipt.id}-total` ? (
+                      <input
+                        type="text"
+                        value={receipt.data.total || ''}
+                        onChange={(e) => handleCellEdit(receipt.id, 'total', e.target.value)}
+                        onBlur={handleCellBlur}
+                        onKeyPress={(e) => e.key === 'Enter' && handleCellBlur()}
+                        className="w-full p-1 border border-gray-300 rounded text-gray-900 text-sm"
+                        autoFocus
+                      />
+                    ) : (
+                      <div
+                        onClick={() => handleCellClick(`${receipt.id}-total`)}
+                        className={`cursor-pointer hover:bg-gray-100 p-1 rounded min-h-[1.5rem] font-medium ${lowConfidenceClass(receipt, 'total')}`}
+                        title={confidenceTitle(receipt, 'total', 'Click to edit')}
+                      >
+                        {receipt.data.total ? formatCurrency(receipt.data) : (
+                          <span className="text-gray-400 italic">-</span>
+                        )}
+                        {renderLocateButton(receipt, 'total')}
+                      </div>
+                    )}
+                    <div className="mt-1 space-y-1 text-xs">
+                      {ADJUSTMENT_FIELDS.map(({ field, label, placeholder }) => renderDetailField(receipt, field, label, placeholder))}
                     </div>
-                  )}
-                </td>
-                <td className="px-4 py-4 text-sm text-gray-900 max-w-xs">
-                  {editingCell === `${receipt.id}-merchant` ? (
-                    <input
-                      type="text"
-                      value={receipt.data.merchant || ''}
-                      onChange={(e) => handleCellEdit(receipt.id, 'merchant', e.target.value)}
-                      onBlur={handleCellBlur}
-                      onKeyPress={(e) => e.key === 'Enter' && handleCellBlur()}
-                      className="w-full p-1 border border-gray-300 rounded text-gray-900 text-sm"
-                      autoFocus
-                    />
-                  ) : (
-                    <div
-                      onClick={() => handleCellClick(`${receipt.id}-merchant`)}
-                      className="cursor-pointer hover:bg-gray-100 p-1 rounded min-h-[1.5rem] truncate"
-                      title={receipt.data.merchant || "Click to edit"}
-                    >
-                      {receipt.data.merchant || (
-                        <span className="text-gray-400 italic">-</span>
-                      )}
+                  </td>
+                  <td className="px-4 py-4 text-sm text-gray-900 min-w-[12rem]">
+                    <div className="space-y-1">
+                      {PAYMENT_FIELDS.map(({ field, label, placeholder }) => renderDetailField(receipt, field, label, placeholder))}
                     </div>
-                  )}
-                </td>
-                <td className="px-4 py-4 text-sm text-gray-900 max-w-xs">
-                  {editingCell === `${receipt.id}-description` ? (
-                    <input
-                      type="text"
-                      value={receipt.data.description || ''}
-                      onChange={(e) => handleCellEdit(receipt.id, 'description', e.target.value)}
-                      onBlur={handleCellBlur}
-                      onKeyPress={(e) => e.key === 'Enter' && handleCellBlur()}
-                      className="w-full p-1 border border-gray-300 rounded text-gray-900 text-sm"
-                      placeholder="Enter purpose of trip/expenditure"
-                      autoFocus
-                    />
-                  ) : (
-                    <div
-                      onClick={() => handleCellClick(`${receipt.id}-description`)}
-                      className={`cursor-pointer hover:bg-gray-100 p-1 rounded min-h-[1.5rem] ${
-                        !receipt.data.description ? 'bg-amber-50 border border-amber-200' : ''
+                  </td>
+                  <td className="px-4 py-4 text-sm text-gray-900">
+                    <select
+                      value={receipt.data.category || ''}
+                      onChange={(e) => handleCellEdit(receipt.id, 'category', e.target.value)}
+                      disabled={readOnly}
+                      className={`w-full p-1 border rounded text-gray-900 text-sm bg-white ${
+                        !receipt.data.category 
+                          ? 'border-amber-400 bg-amber-50 text-amber-700 font-medium' 
+                          : isSuggestedCategory(receipt)
+                            ? 'border-blue-300 bg-blue-50'
+                            : 'border-gray-300'
                       }`}
-                      title="Click to edit (Required)"
-                    >
-                      {receipt.data.description || (
-                        <span className="text-amber-600 italic font-medium">Required: Click to add purpose</span>
-                      )}
-                    </div>
-                  )}
-                </td>
-                <td className="px-4 py-4 text-sm text-gray-900">
-                  {editingCell === `${receipt.id}-total` ? (
-                    <input
-                      type="text"
-                      value={receipt.data.total || ''}
-                      onChange={(e) => handleCellEdit(receipt.id, 'total', e.target.value)}
-                      onBlur={handleCellBlur}
-                      onKeyPress={(e) => e.key === 'Enter' && handleCellBlur()}
-                      className="w-full p-1 border border-gray-300 rounded text-gray-900 text-sm"
-                      autoFocus
-                    />
-                  ) : (
-                    <div
-                      onClick={() => handleCellClick(`${receipt.id}-total`)}
-                      className="cursor-pointer hover:bg-gray-100 p-1 rounded min-h-[1.5rem] font-medium"
-                      title="Click to edit"
                     >
-                      {receipt.data.total ? formatCurrency(receipt.data.total) : (
-                        <span className="text-gray-400 italic">-</span>
+                      <option value="" className="text-amber-700 font-medium">Required: Select Category</option>
+                      {categoryOptionsFor(receipt).map((category) => (
+                        <option key={category} value={category} className="text-gray-900 font-normal">
+                          {category}
+                        </option>
+                      ))}
+                    </select>
+                    {categorySuggestionMarker(receipt)}
+                  </td>
+                  <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
+                    <div className="flex space-x-2">
+                      {/* View Receipt Button */}
+                      <button
+                        onClick={() => handleViewReceipt(receipt)}
+                        disabled={!imageUrlOf(receipt)}
+                        className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
+                          imageUrlOf(receipt)
+                            ? 'bg-green-500 hover:bg-green-600 text-white'
+                            : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                        }`}
+                        title={imageUrlOf(receipt) ? "View receipt image" : "Image not available"}
+                      >
+                        👁️ View
+                      </button>
+                      {/* Remove Button */}
+                      {!readOnly && (
+                        <button
+                          onClick={() => onRemoveReceipt(receipt.id)}
+                          className="bg-red-500 hover:bg-red-600 text-white px-3 py-1 rounded text-xs font-medium transition-colors"
+                          title="Remove receipt"
+                        >
+                          🗑️ Remove
+                        </button>
                       )}
                     </div>
-                  )}
-                </td>
-                <td className="px-4 py-4 text-sm text-gray-900">
-                  <select
-                    value={receipt.data.category || ''}
-                    onChange={(e) => handleCellEdit(receipt.id, 'category', e.target.value)}
-                    className={`w-full p-1 border rounded text-gray-900 text-sm bg-white ${
-                      !receipt.data.category 
-                        ? 'border-amber-400 bg-amber-50 text-amber-700 font-medium' 
-                        : 'border-gray-300'
-                    }`}
-                  >
-                    <option value="" className="text-amber-700 font-medium">Required: Select Category</option>
-                    {expenseCategories.map((category) => (
-                      <option key={category} value={category} className="text-gray-900 font-normal">
-                        {category}
-                      </option>
-                    ))}
-                  </select>
-                </td>
-                <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
-                  <div className="flex space-x-2">
-                    {/* View Receipt Button */}
-                    <button
-                      onClick={() => handleViewReceipt(receipt)}
-                      disabled={!receipt.originalImage?.dataUrl}
-                      className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
-                        receipt.originalImage?.dataUrl
-                          ? 'bg-green-500 hover:bg-green-600 text-white'
-                          : 'bg-gray-300 text-gray-500 cursor-not-allowed'
-                      }`}
-                      title={receipt.originalImage?.dataUrl ? "View receipt image" : "Image not available"}
-                    >
-                      👁️ View
-                    </button>
-                    {/* Remove Button */}
-                    <button
-                      onClick={() => onRemoveReceipt(receipt.id)}
-                      className="bg-red-500 hover:bg-red-600 text-white px-3 py-1 rounded text-xs font-medium transition-colors"
-                      title="Remove receipt"
-                    >
-                      🗑️ Remove
-                    </button>
-                  </div>
-                </td>
-              </tr>
+                    {renderDuplicateFlags(receipt)}
+                  </td>
+                </tr>
+                {feedbackFor(receipt).length > 0 && (
+                  <tr className="bg-amber-50">
+                    <td colSpan={7} className="px-4 pb-3 pt-0">
+                      <ReviewFeedback reviews={feedbackFor(receipt)} />
+                    </td>
+                  </tr>
+                )}
+                {ExpensePolicy.violationsFor(violations, receipt.id).length > 0 && (
+                  <tr className="bg-gray-50">
+                    <td colSpan={7} className="px-4 pb-3 pt-0">
+                      {renderViolations(receipt)}
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
             ))}
           </tbody>
         </table>
@@ -278,33 +576,44 @@ export default function ReceiptTable({ receipts, onDataChange, onRemoveReceipt }
       {/* Mobile Card View - Visible on Mobile Only */}
       <div className="md:hidden space-y-2 p-2">
         {receipts.map((receipt, index) => (
-          <div key={receipt.id} className="p-4 rounded-lg bg-white border-2 border-gray-300">
+          <div
+            key={receipt.id}
+            className={`p-4 rounded-lg border-2 ${feedbackFor(receipt).length > 0 ? 'bg-amber-50 border-amber-400' : 'bg-white border-gray-300'}`}
+          >
             {/* Action Buttons */}
             <div className="flex justify-end mb-3">
               <div className="flex space-x-2">
                 {/* View Receipt Button */}
                 <button
                   onClick={() => handleViewReceipt(receipt)}
-                  disabled={!receipt.originalImage?.dataUrl}
+                  disabled={!imageUrlOf(receipt)}
                   className={`px-3 py-1 rounded text-xs font-medium transition-colors ${
-                    receipt.originalImage?.dataUrl
+                    imageUrlOf(receipt)
                       ? 'bg-green-500 hover:bg-green-600 text-white'
                       : 'bg-gray-300 text-gray-500 cursor-not-allowed'
                   }`}
-                  title={receipt.originalImage?.dataUrl ? "View receipt image" : "Image not available"}
+                  title={imageUrlOf(receipt) ? "View receipt image" : "Image not available"}
                 >
                   👁️ View
                 </button>
                 {/* Remove Button */}
-                <button
-                  onClick={() => onRemoveReceipt(receipt.id)}
-                  className="bg-red-500 hover:bg-red-600 text-white px-3 py-1 rounded text-xs font-medium transition-colors"
-                  title="Remove receipt"
-                >
-                  🗑️ Remove
-                </button>
+                {!readOnly && (
+                  <button
+                    onClick={() => onRemoveReceipt(receipt.id)}
+                    className="bg-red-500 hover:bg-red-600 text-white px-3 py-1 rounded text-xs font-medium transition-colors"
+                    title="Remove receipt"
+                  >
+                    🗑️ Remove
+                  </button>
+                )}
               </div>
             </div>
+            {renderDuplicateFlags(receipt)}
+            {feedbackFor(receipt).length > 0 && (
+              <div className="mb-3">
+                <ReviewFeedback reviews={feedbackFor(receipt)} />
+              </div>
+            )}
             
             {/* Receipt Fields */}
             <div className="space-y-3">
@@ -330,9 +639,11 @@ export default function ReceiptTable({ receipts, onDataChange, onRemoveReceipt }
                 ) : (
                   <div
                     onClick={() => handleCellClick(`${receipt.id}-date`)}
-                    className="p-2 border border-transparent rounded-md cursor-pointer hover:border-gray-300 hover:bg-gray-50 transition-colors text-black"
+                    className={`p-2 border border-transparent rounded-md cursor-pointer hover:border-gray-300 hover:bg-gray-50 transition-colors text-black ${lowConfidenceClass(receipt, 'date')}`}
+                    title={confidenceTitle(receipt, 'date', 'Click to edit')}
                   >
                     {receipt.data.date || <span className="text-gray-400">Click to edit</span>}
+                    {renderLocateButton(receipt, 'date')}
                   </div>
                 )}
               </div>
@@ -359,9 +670,11 @@ export default function ReceiptTable({ receipts, onDataChange, onRemoveReceipt }
                 ) : (
                   <div
                     onClick={() => handleCellClick(`${receipt.id}-merchant`)}
-                    className="p-2 border border-transparent rounded-md cursor-pointer hover:border-gray-300 hover:bg-gray-50 transition-colors text-black"
+                    className={`p-2 border border-transparent rounded-md cursor-pointer hover:border-gray-300 hover:bg-gray-50 transition-colors text-black ${lowConfidenceClass(receipt, 'merchant')}`}
+                    title={confidenceTitle(receipt, 'merchant', 'Click to edit')}
                   >
                     {receipt.data.merchant || <span className="text-gray-400">Click to edit</span>}
+                    {renderLocateButton(receipt, 'merchant')}
                   </div>
                 )}
               </div>
@@ -403,6 +716,7 @@ export default function ReceiptTable({ receipts, onDataChange, onRemoveReceipt }
                     {receipt.data.description || <span className="text-gray-400">Click to add purpose (required)</span>}
                   </div>
                 )}
+                {editingCell !== `${receipt.id}-description` && descriptionSuggestionMarker(receipt)}
               </div>
 
               {/* Total */}
@@ -427,13 +741,31 @@ export default function ReceiptTable({ receipts, onDataChange, onRemoveReceipt }
                 ) : (
                   <div
                     onClick={() => handleCellClick(`${receipt.id}-total`)}
-                    className="p-2 border border-transparent rounded-md cursor-pointer hover:border-gray-300 hover:bg-gray-50 transition-colors font-medium text-black"
+                    className={`p-2 border border-transparent rounded-md cursor-pointer hover:border-gray-300 hover:bg-gray-50 transition-colors font-medium text-black ${lowConfidenceClass(receipt, 'total')}`}
+                    title={confidenceTitle(receipt, 'total', 'Click to edit')}
                   >
-                    {formatCurrency(receipt.data.total) || <span className="text-gray-400">Click to edit</span>}
+                    {formatCurrency(receipt.data) || <span className="text-gray-400">Click to edit</span>}
+                    {renderLocateButton(receipt, 'total')}
                   </div>
                 )}
               </div>
 
+              {/* Tips and adjustments */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Tips &amp; Adjustments</label>
+                <div className="space-y-1 text-sm text-black">
+                  {ADJUSTMENT_FIELDS.map(({ field, label, placeholder }) => renderDetailField(receipt, field, label, placeholder))}
+                </div>
+              </div>
+
+              {/* Payment */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Payment</label>
+                <div className="space-y-1 text-sm text-black">
+                  {PAYMENT_FIELDS.map(({ field, label, placeholder }) => renderDetailField(receipt, field, label, placeholder))}
+                </div>
+              </div>
+
               {/* Category */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -442,31 +774,79 @@ export default function ReceiptTable({ receipts, onDataChange, onRemoveReceipt }
                 <select
                   value={receipt.data.category || ''}
                   onChange={(e) => handleCellEdit(receipt.id, 'category', e.target.value)}
+                  disabled={readOnly}
                   className={`w-full p-2 border rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-black ${
                     !receipt.data.category?.trim() 
                       ? 'border-amber-400 bg-amber-50' 
-                      : 'border-gray-300'
+                      : isSuggestedCategory(receipt)
+                        ? 'border-blue-300 bg-blue-50'
+                        : 'border-gray-300'
                   }`}
                 >
                   <option value="">Select a category (required)</option>
-                  {expenseCategories.map((category) => (
+                  {categoryOptionsFor(receipt).map((category) => (
                     <option key={category} value={category}>
                       {category}
                     </option>
                   ))}
                 </select>
+                {categorySuggestionMarker(receipt)}
               </div>
+
+              {/* Policy */}
+              {renderViolations(receipt)}
             </div>
           </div>
         ))}
       </div>
       
+      {receipts.some(receipt => (['date', 'merchant', 'total', 'paymentMethod', 'cardLastFour', 'receiptNumber'] as ReceiptFieldName[]).some(field => isLowConfidence(receipt.data.fieldDetections?.[field]))) && (
+        <div className="px-4 py-2 text-xs text-orange-700 bg-orange-50 border-t border-orange-200">
+          Highlighted values were read with low confidence. Check them against the receipt image; editing a value clears the highlight.
+        </div>
+      )}
+
+      {receipts.some(receipt => isSuggestedCategory(receipt) || isSuggestedDescription(receipt)) && (
+        <div className="px-4 py-2 text-xs text-blue-700 bg-blue-50 border-t border-blue-200">
+          Values marked Suggested were filled in from the merchant, its line items and your earlier receipts. Confirm each one or change it.
+        </div>
+      )}
+
+      {receipts.some(receipt => feedbackFor(receipt).length > 0) && (
+        <div className="px-4 py-2 text-xs text-amber-800 bg-amber-50 border-t border-amber-200">
+          Your approver asked for changes to the highlighted receipts. Fix them, then submit the report again.
+        </div>
+      )}
+
+      {violations.some(ExpensePolicy.isBlocking) && (
+        <div className="px-4 py-2 text-xs text-red-700 bg-red-50 border-t border-red-200">
+          Some receipts break the company&apos;s expense policy. Remove expenses marked Not allowed and justify the others to process the report.
+        </div>
+      )}
+
       {receipts.length === 0 && (
         <div className="text-center py-8 text-gray-500">
           <p>No receipts scanned yet. Upload a receipt to get started!</p>
         </div>
       )}
 
+      {duplicates.length > 0 && (
+        <div className="px-4 py-2 text-xs text-purple-700 bg-purple-50 border-t border-purple-200">
+          Some receipts look like the same expense added twice. Compare them to keep one or mark them as not duplicates.
+        </div>
+      )}
+
+      {/* Duplicate comparison */}
+      {comparedPair && comparisonOf(comparedPair) && (
+        <ReceiptModal
+          isOpen
+          onClose={() => setComparedPair(null)}
+          imageUrl=""
+          receiptId={comparedPair.receiptId}
+          comparison={comparisonOf(comparedPair)}
+        />
+      )}
+
       {/* Receipt Modal */}
       {selectedReceiptImage && (
         <ReceiptModal
@@ -474,6 +854,8 @@ export default function ReceiptTable({ receipts, onDataChange, onRemoveReceipt }
           onClose={handleCloseModal}
           imageUrl={selectedReceiptImage.imageUrl}
           receiptId={selectedReceiptImage.id}
+          fieldOverlays={selectedReceipt ? collectFieldOverlays(selectedReceipt.data) : []}
+          highlightedField={selectedReceiptImage.highlightedField}
         />
       )}
     </div>
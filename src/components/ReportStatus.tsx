@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import { ReportAction, ReportLifecycle, ReportStatus as Status, ReportTransition } from '@/lib/report-lifecycle';
+
+interface ReportStatusProps {
+  status: Status;
+  transitions: ReportTransition[];
+  actions: ReportAction[]; // Actions this user may take; only those the status allows are shown
+  onAction: (action: ReportAction, note?: string) => void;
+  isBusy?: boolean;
+  error?: { message: string; details: string[] } | null;
+  onStartNew?: () => void; // Offered once the report can no longer be edited
+}
+
+const STATUS_STYLES: Record<Status, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  submitted: 'bg-blue-100 text-blue-700',
+  approved: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+  paid: 'bg-emerald-100 text-emerald-800',
+};
+
+const formatWhen = (iso: string) => new Date(iso).toLocaleString('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit'
+});
+
+// Where the report is in its lifecycle, who moved it there, and the next steps
+export default function ReportStatus({ status, transitions, actions, onAction, isBusy = false, error, onStartNew }: ReportStatusProps) {
+  const [noteFor, setNoteFor] = useState<ReportAction | null>(null);
+  const [note, setNote] = useState('');
+  const available = actions.filter(action => ReportLifecycle.canTransition(status, action));
+
+  const handleAction = (action: ReportAction) => {
+    if (ReportLifecycle.needsNote(action) && noteFor !== action) {
+      setNoteFor(action);
+      return;
+    }
+    onAction(action, noteFor === action ? note.trim() || undefined : undefined);
+    setNoteFor(null);
+    setNote('');
+  };
+
+  return (
+    <div className="mb-6 bg-white rounded-lg shadow-sm p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium text-gray-700">Report status:</span>
+          <span className={`px-2 py-0.5 rounded text-sm font-medium ${STATUS_STYLES[status]}`}>
+            {ReportLifecycle.statusLabel(status)}
+          </span>
+          {!ReportLifecycle.isEditable(status) && (
+            <span className="text-xs text-gray-500">Receipts and trips can&apos;t be changed</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {available.map(action => (
+            <button
+              key={action}
+              onClick={() => handleAction(action)}
+              disabled={isBusy || (noteFor === action && !note.trim())}
+              className={`px-3 py-1.5 rounded text-sm font-medium transition-colors disabled:opacity-50 ${
+                action === 'reject'
+                  ? 'bg-red-600 hover:bg-red-700 text-white'
+                  : action === 'requestChanges'
+                  ? 'bg-amber-500 hover:bg-amber-600 text-white'
+                  : 'bg-blue-600 hover:bg-blue-700 text-white'
+              }`}
+            >
+              {ReportLifecycle.actionLabel(action)}
+            </button>
+          ))}
+          {onStartNew && !ReportLifecycle.isEditable(status) && (
+            <button
+              onClick={onStartNew}
+              disabled={isBusy}
+              className="px-3 py-1.5 rounded text-sm font-medium bg-gray-100 hover:bg-gray-200 text-gray-800 transition-colors"
+            >
+              Start a new report
+            </button>
+          )}
+        </div>
+      </div>
+
+      {noteFor && (
+        <div className="mt-3 flex items-center gap-2">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={noteFor === 'reject' ? 'Required: why the report is rejected' : 'Required: what needs to change'}
+            className="flex-1 px-3 py-1.5 border border-gray-300 rounded text-sm text-gray-900"
+            autoFocus
+          />
+          <button
+            onClick={() => { setNoteFor(null); setNote(''); }}
+            className="text-sm text-gray-600 hover:text-gray-800"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+          <p className="font-medium">{error.message}</p>
+          {error.details.length > 0 && (
+            <ul className="list-disc list-inside mt-1 space-y-0.5">
+              {error.details.map(detail => <li key={detail}>{detail}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {transitions.length > 0 && (
+        <ol className="mt-3 space-y-1 text-xs text-gray-600">
+          {transitions.map(transition => (
+            <li key={transition.id}>
+              <span className="font-medium text-gray-800">{ReportLifecycle.doneLabel(transition.action)}</span>
+              {' '}by {transition.actor} · {formatWhen(transition.createdAt)}
+              {transition.note && <span className="italic"> — {transition.note}</span>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
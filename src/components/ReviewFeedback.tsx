@@ -0,0 +1,38 @@
+'use client';
+
+import { ReportReview, ReportReviews, ReviewDecision } from '@/lib/report-reviews';
+
+interface ReviewFeedbackProps {
+  reviews: ReportReview[]; // Reviews of one receipt or trip, oldest first
+}
+
+const DECISION_STYLES: Record<ReviewDecision, string> = {
+  approved: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+  changesRequested: 'bg-amber-100 text-amber-800',
+};
+
+// Approver decisions and comments on one receipt or mileage entry
+export default function ReviewFeedback({ reviews }: ReviewFeedbackProps) {
+  if (reviews.length === 0) return null;
+
+  return (
+    <ul className="space-y-1">
+      {reviews.map(review => (
+        <li key={review.id} className="flex items-start gap-2 text-xs">
+          {review.decision ? (
+            <span className={`px-1.5 py-0.5 rounded font-medium shrink-0 ${DECISION_STYLES[review.decision]}`}>
+              {ReportReviews.decisionLabel(review.decision)}
+            </span>
+          ) : (
+            <span className="px-1.5 py-0.5 rounded font-medium shrink-0 bg-blue-100 text-blue-700">Comment</span>
+          )}
+          <span className="text-gray-700">
+            {review.comment && <>{review.comment} </>}
+            <span className="text-gray-500">— {review.reviewer}</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,10 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Resume analysis jobs that were queued or running when the server last stopped
+    const { getAnalysisJobQueue } = await import('./lib/analysis-job-queue');
+    getAnalysisJobQueue().start().catch(error => {
+      console.error('[AnalysisJobQueue] Could not resume jobs:', error);
+    });
+  }
+}
@@ -0,0 +1,29 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { COMPANY_CONFIG_SETTINGS } from './company-config-store';
+
+/**
+ * Checks the admin bearer token. Returns the response to send when the request
+ * isn't allowed, or null when it may go ahead.
+ */
+export function requireAdmin(request: NextRequest): NextResponse | null {
+  const expected = COMPANY_CONFIG_SETTINGS.adminToken;
+  if (!expected) {
+    return NextResponse.json(
+      { error: 'Admin API is disabled; set MYNEW_ADMIN_TOKEN to enable it' },
+      { status: 403 }
+    );
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  const given = Buffer.from(token);
+  const wanted = Buffer.from(expected);
+  if (given.length !== wanted.length || !timingSafeEqual(given, wanted)) {
+    return NextResponse.json(
+      { error: 'Missing or invalid admin token' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+  return null;
+}
@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import type { ValidationResult } from './image-validator';
+import {
+  AwsCredentialsError,
+  AwsServiceError,
+  DocumentTooLargeError,
+  InvalidDocumentError,
+  ThrottlingError,
+  UnsupportedDocumentError,
+} from './aws-errors';
+import { ReceiptValidationError, StorageNotReadableError, StoredUploadNotFoundError } from './receipt-analysis-service';
+
+/**
+ * Maps a failed receipt analysis to the API error response, using the error type to
+ * pick the status code (400/413/422/429/5xx)
+ */
+export function analysisErrorResponse(error: unknown, validationMetadata?: ValidationResult['metadata']): NextResponse {
+  if (error instanceof ReceiptValidationError) {
+    return NextResponse.json(
+      {
+        error: 'Image validation failed',
+        validationErrors: error.validation.errors,
+        validationWarnings: error.validation.warnings,
+        metadata: error.validation.metadata
+      },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof StoredUploadNotFoundError) {
+    return NextResponse.json(
+      {
+        error: 'Uploaded file not found',
+        details: 'The upload may have expired or already been analyzed. Please upload the file again.'
+      },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof StorageNotReadableError) {
+    return NextResponse.json(
+      {
+        error: 'Document requires S3 storage',
+        details: 'Multi-page PDFs and files over 5MB are read by Textract from S3. Configure the s3 storage provider to analyze this file.',
+        validationMetadata
+      },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof ThrottlingError) {
+    return NextResponse.json(
+      {
+        error: 'Receipt scanning is busy right now',
+        details: 'AWS is throttling requests. Please wait a few seconds and try again.',
+        awsError: error.awsErrorName
+      },
+      { status: error.status, headers: { 'Retry-After': '5' } }
+    );
+  }
+
+  if (error instanceof UnsupportedDocumentError) {
+    return NextResponse.json(
+      {
+        error: 'Document format not supported by Textract',
+        details: 'The image format or quality is not compatible with AWS Textract. Please ensure the image is clear and in JPEG, PNG, or PDF format.',
+        awsError: error.awsErrorName,
+        validationMetadata
+      },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof DocumentTooLargeError) {
+    return NextResponse.json(
+      {
+        error: 'Document is too large for Textract',
+        details: 'Please upload a smaller or lower-resolution file.',
+        awsError: error.awsErrorName,
+        validationMetadata
+      },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof InvalidDocumentError) {
+    return NextResponse.json(
+      {
+        error: 'Invalid document parameters',
+        details: 'The document does not meet Textract requirements. Check image dimensions and format.',
+        awsError: error.awsErrorName,
+        validationMetadata
+      },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof AwsCredentialsError) {
+    return NextResponse.json(
+      { error: 'AWS credentials not configured properly', awsError: error.awsErrorName },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof AwsServiceError) {
+    return NextResponse.json(
+      {
+        error: 'Failed to analyze receipt',
+        details: error.message,
+        awsError: error.awsErrorName,
+        validationMetadata
+      },
+      { status: error.status }
+    );
+  }
+
+  return NextResponse.json(
+    {
+      error: 'Failed to analyze receipt',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      validationMetadata
+    },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,296 @@
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ANALYSIS_JOB_CONFIG,
+  AnalysisJob,
+  AnalysisJobError,
+  AnalysisJobStore,
+  getAnalysisJobStore,
+} from './analysis-job-store';
+import {
+  AnalysisProgressStage,
+  getReceiptAnalysisService,
+  ReceiptAnalysisService,
+  ReceiptValidationError,
+} from './receipt-analysis-service';
+import { DirectUploadService } from './direct-upload';
+import type { ArchiveContext } from './receipt-archive';
+
+export interface AnalysisJobInput {
+  fileName: string;
+  uploadKey: string;
+}
+
+export interface AnalysisJobQueueDependencies {
+  store: AnalysisJobStore;
+  service: ReceiptAnalysisService;
+  concurrency: number;
+}
+
+export class AnalysisJobRequestError extends Error {
+  readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalysisJobRequestError';
+  }
+}
+
+/**
+ * In-process queue that analyzes uploaded receipts in the background, a few at a time.
+ * Job state lives in the job store, so on startup jobs that were queued or cut off
+ * mid-analysis by a restart are picked up again.
+ */
+export class AnalysisJobQueue {
+  private readonly store: AnalysisJobStore;
+  private readonly service: ReceiptAnalysisService;
+  private readonly concurrency: number;
+  private readonly events = new EventEmitter();
+  private readonly pending: string[] = [];
+  private active = 0;
+  private recovery: Promise<void> | null = null;
+
+  constructor(dependencies: Partial<AnalysisJobQueueDependencies> = {}) {
+    this.store = dependencies.store || getAnalysisJobStore();
+    this.service = dependencies.service || getReceiptAnalysisService();
+    this.concurrency = Math.max(1, dependencies.concurrency ?? ANALYSIS_JOB_CONFIG.concurrency);
+    // Every open status stream subscribes, so don't warn about "leaks"
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Re-queues unfinished jobs from the store and prunes old ones. Safe to call
+   * repeatedly; only the first successful call does the work, a failed one is retried.
+   */
+  start(): Promise<void> {
+    if (!this.recovery) {
+      this.recovery = this.recover().catch(error => {
+        this.recovery = null;
+        throw error;
+      });
+    }
+    return this.recovery;
+  }
+
+  /**
+   * Queues one job per input. Pass the batchId of an earlier call to add files to that
+   * batch, so a client can upload a large batch one file per request.
+   */
+  async enqueueBatch(inputs: AnalysisJobInput[], archiveContext: ArchiveContext = {}, existingBatchId?: string): Promise<{ batchId: string; jobs: AnalysisJob[] }> {
+    if (inputs.length === 0) {
+      throw new AnalysisJobRequestError('No files provided');
+    }
+    const invalid = inputs.find(input => !DirectUploadService.isUploadKey(input.uploadKey));
+    if (invalid) {
+      throw new AnalysisJobRequestError(`Not an upload key: ${invalid.uploadKey}`);
+    }
+
+    if (existingBatchId && !/^[A-Za-z0-9-]{1,64}$/.test(existingBatchId)) {
+      throw new AnalysisJobRequestError(`Invalid batch id: ${existingBatchId}`);
+    }
+
+    await this.start();
+
+    const batchId = existingBatchId || uuidv4();
+    const now = new Date().toISOString();
+    const jobs: AnalysisJob[] = inputs.map(input => ({
+      id: uuidv4(),
+      batchId,
+      status: 'queued',
+      stage: 'uploaded',
+      fileName: input.fileName,
+      uploadKey: input.uploadKey,
+      archiveContext,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    for (const job of jobs) {
+      await this.store.save(job);
+      this.pending.push(job.id);
+    }
+    console.log(`[AnalysisJobQueue] Queued batch ${batchId} with ${jobs.length} job(s)`);
+
+    this.drain();
+    return { batchId, jobs };
+  }
+
+  /**
+   * Puts a failed job back in the queue. Failed jobs keep their upload until they are
+   * pruned, so the file doesn't need to be sent again. Returns null for unknown jobs.
+   */
+  async retry(id: string): Promise<AnalysisJob | null> {
+    await this.start();
+
+    const job = await this.store.get(id);
+    if (!job) {
+      return null;
+    }
+    if (job.status !== 'failed') {
+      throw new AnalysisJobRequestError(`Only failed jobs can be retried (job is ${job.status})`);
+    }
+
+    const queued = await this.update(job, {
+      status: 'queued',
+      stage: 'uploaded',
+      attempts: 0,
+      error: undefined,
+      startedAt: undefined,
+      completedAt: undefined,
+    });
+    console.log(`[AnalysisJobQueue] Retrying ${queued.fileName} (job ${queued.id})`);
+
+    this.pending.push(queued.id);
+    this.drain();
+    return queued;
+  }
+
+  async getJob(id: string): Promise<AnalysisJob | null> {
+    await this.start();
+    return this.store.get(id);
+  }
+
+  async getBatch(batchId: string): Promise<AnalysisJob[]> {
+    await this.start();
+    return this.store.listByBatch(batchId);
+  }
+
+  /**
+   * Calls the listener with the job every time one changes state. Returns the unsubscribe function.
+   */
+  subscribe(listener: (job: AnalysisJob) => void): () => void {
+    this.events.on('job', listener);
+    return () => {
+      this.events.off('job', listener);
+    };
+  }
+
+  private async recover(): Promise<void> {
+    const retentionMs = ANALYSIS_JOB_CONFIG.retentionSeconds * 1000;
+    const pruned = await this.store.prune(new Date(Date.now() - retentionMs));
+    for (const job of pruned.filter(prunedJob => prunedJob.status === 'failed')) {
+      // Kept for retries until now
+      await this.service.deleteUpload(job.uploadKey);
+    }
+    if (pruned.length > 0) {
+      console.log(`[AnalysisJobQueue] Pruned ${pruned.length} finished job(s)`);
+    }
+
+    // Anything still "running" was interrupted by a restart
+    const interrupted = await this.store.listByStatus('running');
+    for (const job of interrupted) {
+      if (job.attempts >= ANALYSIS_JOB_CONFIG.maxAttempts) {
+        await this.finish(job, {
+          error: { message: `Analysis was interrupted ${job.attempts} times and has been abandoned`, status: 500 },
+        });
+        continue;
+      }
+      await this.update(job, { status: 'queued', stage: 'uploaded' });
+    }
+
+    const queued = await this.store.listByStatus('queued');
+    queued.forEach(job => this.pending.push(job.id));
+    if (queued.length > 0) {
+      console.log(`[AnalysisJobQueue] Resuming ${queued.length} queued job(s)`);
+    }
+
+    this.drain();
+  }
+
+  private drain() {
+    while (this.active < this.concurrency && this.pending.length > 0) {
+      const jobId = this.pending.shift() as string;
+      this.active++;
+      this.run(jobId)
+        .catch(error => console.error(`[AnalysisJobQueue] Job ${jobId} crashed:`, error))
+        .finally(() => {
+          this.active--;
+          this.drain();
+        });
+    }
+  }
+
+  private async run(jobId: string): Promise<void> {
+    const job = await this.store.get(jobId);
+    if (!job || job.status !== 'queued') {
+      return;
+    }
+
+    const startedAt = new Date().toISOString();
+    let running = await this.update(job, { status: 'running', startedAt, attempts: job.attempts + 1 });
+    console.log(`[AnalysisJobQueue] Analyzing ${running.fileName} (job ${running.id}, attempt ${running.attempts})`);
+
+    // Stage updates are chained so they are saved in the order they happened
+    let progress = Promise.resolve();
+    const onProgress = (stage: AnalysisProgressStage) => {
+      progress = progress.then(async () => {
+        running = await this.update(running, { stage });
+      });
+    };
+
+    try {
+      const result = await this.service.analyzeStored(running.uploadKey, running.fileName, {
+        archiveContext: running.archiveContext,
+        onProgress,
+        keepUploadOnFailure: true,
+      });
+      await progress;
+      await this.finish(running, {
+        result: {
+          documents: result.documents,
+          analysisPath: result.analysisPath,
+          cached: result.cached,
+          cachedAt: result.cachedAt,
+          archive: result.archive,
+        },
+      });
+    } catch (error) {
+      console.error(`[AnalysisJobQueue] Job ${running.id} failed:`, error);
+      await progress.catch(() => undefined);
+      await this.finish(running, { error: AnalysisJobQueue.toJobError(error) });
+    }
+  }
+
+  private finish(job: AnalysisJob, outcome: Pick<AnalysisJob, 'result'> | Pick<AnalysisJob, 'error'>): Promise<AnalysisJob> {
+    return this.update(job, {
+      ...outcome,
+      status: 'result' in outcome ? 'succeeded' : 'failed',
+      stage: 'result' in outcome ? 'parsed' : 'failed',
+      completedAt: new Date().toISOString(),
+    });
+  }
+
+  private async update(job: AnalysisJob, changes: Partial<AnalysisJob>): Promise<AnalysisJob> {
+    const updated: AnalysisJob = { ...job, ...changes, updatedAt: new Date().toISOString() };
+    await this.store.save(updated);
+    this.events.emit('job', updated);
+    return updated;
+  }
+
+  private static toJobError(error: unknown): AnalysisJobError {
+    if (error instanceof ReceiptValidationError) {
+      return {
+        message: 'Image validation failed',
+        status: error.status,
+        validationErrors: error.validation.errors,
+      };
+    }
+
+    // The analysis and AWS error classes all carry the HTTP status to report
+    const status = (error as { status?: unknown })?.status;
+    return {
+      message: error instanceof Error ? error.message : 'Unknown error occurred',
+      status: typeof status === 'number' ? status : 500,
+    };
+  }
+}
+
+let defaultQueue: AnalysisJobQueue | null = null;
+
+export function getAnalysisJobQueue(): AnalysisJobQueue {
+  if (!defaultQueue) {
+    defaultQueue = new AnalysisJobQueue();
+  }
+  return defaultQueue;
+}
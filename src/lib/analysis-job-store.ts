@@ -0,0 +1,94 @@
+import type { AnalysisPath, ExtractedReceiptData } from './textract-service';
+import type { ArchiveContext, ArchivedReceipt } from './receipt-archive';
+import { MemoryAnalysisJobStore } from './memory-analysis-job-store';
+import { FileAnalysisJobStore } from './file-analysis-job-store';
+
+export type AnalysisJobStoreName = 'memory' | 'file';
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// Finer-grained progress than status, streamed to the per-file batch list
+export type AnalysisJobStage = 'uploaded' | 'validated' | 'analyzing' | 'parsed' | 'failed';
+
+export interface AnalysisJobResult {
+  documents: ExtractedReceiptData[];
+  analysisPath: AnalysisPath;
+  cached: boolean;
+  cachedAt?: string;
+  archive?: ArchivedReceipt;
+}
+
+export interface AnalysisJobError {
+  message: string;
+  status: number; // HTTP status the synchronous endpoint would have answered with
+  details?: string;
+  validationErrors?: string[];
+}
+
+export interface AnalysisJob {
+  id: string;
+  batchId: string;
+  status: AnalysisJobStatus;
+  stage: AnalysisJobStage;
+  fileName: string;
+  uploadKey: string; // Storage key of the file waiting to be analyzed
+  archiveContext: ArchiveContext;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  result?: AnalysisJobResult;
+  error?: AnalysisJobError;
+}
+
+export interface AnalysisJobStore {
+  readonly name: AnalysisJobStoreName;
+  get(id: string): Promise<AnalysisJob | null>;
+  save(job: AnalysisJob): Promise<void>;
+  // Jobs in creation order
+  listByBatch(batchId: string): Promise<AnalysisJob[]>;
+  listByStatus(status: AnalysisJobStatus): Promise<AnalysisJob[]>;
+  // Removes finished jobs completed before the given time and returns them
+  prune(completedBefore: Date): Promise<AnalysisJob[]>;
+}
+
+// Netlify functions run on a read-only filesystem, so the file store can't write there
+const READ_ONLY_HOST = !!(process.env.NETLIFY || process.env.AWS_LAMBDA_FUNCTION_NAME);
+
+export const ANALYSIS_JOB_CONFIG = {
+  store: (process.env.MYNEW_JOB_STORE || (READ_ONLY_HOST ? 'memory' : 'file')) as AnalysisJobStoreName,
+  dir: process.env.MYNEW_JOB_STORE_DIR || '.jobs',
+  concurrency: parseInt(process.env.MYNEW_JOB_CONCURRENCY || '2', 10),
+  maxAttempts: parseInt(process.env.MYNEW_JOB_MAX_ATTEMPTS || '3', 10),
+  retentionSeconds: parseInt(process.env.MYNEW_JOB_RETENTION_SECONDS || '86400', 10), // 1 day
+};
+
+export function isFinished(job: AnalysisJob): boolean {
+  return job.status === 'succeeded' || job.status === 'failed';
+}
+
+export function compareByCreation(a: AnalysisJob, b: AnalysisJob): number {
+  return a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id);
+}
+
+let activeStore: AnalysisJobStore | null = null;
+
+export function getAnalysisJobStore(): AnalysisJobStore {
+  if (!activeStore) {
+    activeStore = createAnalysisJobStore(ANALYSIS_JOB_CONFIG.store);
+    console.log(`[AnalysisJobStore] Using "${activeStore.name}" job store`);
+  }
+  return activeStore;
+}
+
+export function createAnalysisJobStore(name: AnalysisJobStoreName): AnalysisJobStore {
+  switch (name) {
+    case 'memory':
+      return new MemoryAnalysisJobStore();
+    case 'file':
+      return new FileAnalysisJobStore(ANALYSIS_JOB_CONFIG.dir);
+    default:
+      throw new Error(`Unknown analysis job store: ${name}. Expected "memory" or "file".`);
+  }
+}
@@ -1,16 +1,24 @@
 import { TextractClient } from '@aws-sdk/client-textract';
 import { S3Client } from '@aws-sdk/client-s3';
 
+// Retries are handled by withRetry (see retry.ts) so backoff and logging are the same for
+// every call; leaving the SDK's own retries on would multiply the attempts
 export const textractClient = new TextractClient({
   region: process.env.MYNEW_AWS_REGION || 'us-east-1',
+  maxAttempts: 1,
   credentials: {
     accessKeyId: process.env.MYNEW_AWS_ACCESS_KEY_ID!,
     secretAccessKey: process.env.MYNEW_AWS_SECRET_ACCESS_KEY!,
   },
 });
 
+// MYNEW_S3_ENDPOINT points the S3 client at an S3-compatible server such as MinIO,
+// which usually also needs path-style URLs (http://host:9000/bucket/key)
 export const s3Client = new S3Client({
   region: process.env.MYNEW_AWS_REGION || 'us-east-1',
+  maxAttempts: 1,
+  endpoint: process.env.MYNEW_S3_ENDPOINT || undefined,
+  forcePathStyle: process.env.MYNEW_S3_FORCE_PATH_STYLE === 'true',
   credentials: {
     accessKeyId: process.env.MYNEW_AWS_ACCESS_KEY_ID!,
     secretAccessKey: process.env.MYNEW_AWS_SECRET_ACCESS_KEY!,
@@ -20,4 +28,5 @@ export const s3Client = new S3Client({
 export const AWS_CONFIG = {
   region: process.env.MYNEW_AWS_REGION || 'us-east-1',
   s3BucketName: process.env.MYNEW_AWS_S3_BUCKET_NAME!,
+  s3Endpoint: process.env.MYNEW_S3_ENDPOINT || undefined,
 };
\ No newline at end of file
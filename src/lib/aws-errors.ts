@@ -0,0 +1,132 @@
+export type AwsServiceName = 'textract' | 's3';
+
+interface AwsErrorDetails {
+  service: AwsServiceName;
+  operation: string; // SDK command name, e.g. "AnalyzeExpense"
+  awsErrorName: string; // Error name reported by AWS, e.g. "ThrottlingException"
+  httpStatusCode?: number; // Status AWS answered with, when there was a response
+  requestId?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for failed Textract/S3 calls. Keeps the AWS error name so callers can
+ * branch on the error type instead of matching message text.
+ */
+export class AwsServiceError extends Error {
+  readonly service: AwsServiceName;
+  readonly operation: string;
+  readonly awsErrorName: string;
+  readonly httpStatusCode?: number;
+  readonly requestId?: string;
+  // HTTP status our API should answer with
+  readonly status: number = 502;
+  readonly retryable: boolean = false;
+
+  constructor(message: string, details: AwsErrorDetails) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.service = details.service;
+    this.operation = details.operation;
+    this.awsErrorName = details.awsErrorName;
+    this.httpStatusCode = details.httpStatusCode;
+    this.requestId = details.requestId;
+  }
+}
+
+export class ThrottlingError extends AwsServiceError {
+  readonly status = 429;
+  readonly retryable = true;
+}
+
+export class ServiceUnavailableError extends AwsServiceError {
+  readonly status = 503;
+  readonly retryable = true;
+}
+
+export class UnsupportedDocumentError extends AwsServiceError {
+  readonly status = 400;
+}
+
+export class InvalidDocumentError extends AwsServiceError {
+  readonly status = 400;
+}
+
+export class DocumentTooLargeError extends AwsServiceError {
+  readonly status = 413;
+}
+
+export class AwsCredentialsError extends AwsServiceError {
+  readonly status = 500;
+}
+
+export class AnalysisTimeoutError extends AwsServiceError {
+  readonly status = 504;
+}
+
+const THROTTLING_ERRORS = new Set([
+  'ThrottlingException',
+  'ProvisionedThroughputExceededException',
+  'LimitExceededException',
+  'TooManyRequestsException',
+  'RequestLimitExceeded',
+  'SlowDown',
+]);
+
+const UNAVAILABLE_ERRORS = new Set([
+  'InternalServerError',
+  'InternalError',
+  'ServiceUnavailable',
+  'ServiceUnavailableException',
+  'TimeoutError',
+  'RequestTimeout',
+  'ECONNRESET',
+  'ETIMEDOUT',
+]);
+
+const INVALID_DOCUMENT_ERRORS = new Set([
+  'InvalidParameterException',
+  'BadDocumentException',
+  'InvalidS3ObjectException',
+]);
+
+const CREDENTIALS_ERRORS = new Set([
+  'CredentialsProviderError',
+  'UnrecognizedClientException',
+  'InvalidSignatureException',
+  'InvalidAccessKeyId',
+  'SignatureDoesNotMatch',
+  'ExpiredToken',
+  'ExpiredTokenException',
+  'AccessDenied',
+  'AccessDeniedException',
+]);
+
+/**
+ * Converts an AWS SDK (or network) error into the matching AwsServiceError subclass
+ */
+export function toAwsServiceError(error: unknown, service: AwsServiceName, operation: string): AwsServiceError {
+  if (error instanceof AwsServiceError) return error;
+
+  const sdkError = error as { name?: string; code?: string; message?: string; $metadata?: { httpStatusCode?: number; requestId?: string } };
+  const awsErrorName = sdkError?.name && sdkError.name !== 'Error' ? sdkError.name : sdkError?.code || 'UnknownError';
+  const details: AwsErrorDetails = {
+    service,
+    operation,
+    awsErrorName,
+    httpStatusCode: sdkError?.$metadata?.httpStatusCode,
+    requestId: sdkError?.$metadata?.requestId,
+    cause: error,
+  };
+  const message = `${service} ${operation} failed: ${awsErrorName}${sdkError?.message ? ` - ${sdkError.message}` : ''}`;
+
+  if (THROTTLING_ERRORS.has(awsErrorName)) return new ThrottlingError(message, details);
+  if (awsErrorName === 'UnsupportedDocumentException') return new UnsupportedDocumentError(message, details);
+  if (awsErrorName === 'DocumentTooLargeException') return new DocumentTooLargeError(message, details);
+  if (INVALID_DOCUMENT_ERRORS.has(awsErrorName)) return new InvalidDocumentError(message, details);
+  if (CREDENTIALS_ERRORS.has(awsErrorName)) return new AwsCredentialsError(message, details);
+  if (UNAVAILABLE_ERRORS.has(awsErrorName) || (details.httpStatusCode !== undefined && details.httpStatusCode >= 500)) {
+    return new ServiceUnavailableError(message, details);
+  }
+  return new AwsServiceError(message, details);
+}
@@ -0,0 +1,317 @@
+import type { ExtractedReceiptData } from './textract-service';
+import { CompanyConfigService } from './company-config';
+import { getLearningStore, LEARNING_CONFIG, LearnedField, LearnedMapping, LearningScope, LearningStore } from './learning-store';
+
+export interface LearningCorrection {
+  merchant: string;
+  category?: string;
+  description?: string;
+}
+
+export interface LearnedSuggestion {
+  value: string;
+  merchant: string;
+  count: number;
+  score: number;
+  shared: boolean; // Came from the company's shared mappings rather than the user's own
+}
+
+// Format of GET /api/learning/mappings, accepted back by the import
+export interface LearningExport {
+  version: 1;
+  companyId: string;
+  userId?: string;
+  exportedAt: string;
+  mappings: LearnedMapping[];
+}
+
+export type LearningImportMode = 'merge' | 'replace';
+
+export interface LearningImportResult {
+  imported: number;
+  total: number;
+}
+
+const LEARNED_FIELDS: LearnedField[] = ['category', 'description'];
+const MAX_VALUE_LENGTH = 500;
+const MAX_MERCHANT_LENGTH = 200;
+const MAX_IMPORT_MAPPINGS = 10000;
+// Shared company mappings count for less than the user's own choices
+const SHARED_WEIGHT = 0.5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class LearningRequestError extends Error {
+  readonly status = 400;
+  readonly details: string[];
+
+  constructor(message: string, details: string[] = []) {
+    super(message);
+    this.name = 'LearningRequestError';
+    this.details = details;
+  }
+}
+
+/**
+ * Remembers which category and purpose each user picks for a merchant, and suggests
+ * them for the next receipt from that merchant. Mappings are ranked by how often they
+ * were used, with older uses counting less.
+ */
+export class CategoryLearningService {
+  private readonly store: LearningStore;
+  // Serializes read-modify-write per scope within this process
+  private static readonly scopeLocks = new Map<string, Promise<unknown>>();
+
+  constructor(store: LearningStore = getLearningStore()) {
+    this.store = store;
+  }
+
+  /**
+   * Users are identified by the employee name on the report. Without one the
+   * company's shared mappings are used.
+   */
+  static scopeFor(companyId?: string | null, userId?: string | null): LearningScope {
+    const id = CompanyConfigService.companyIdOf(companyId);
+    if (!CompanyConfigService.isValidCompanyId(id)) {
+      throw new LearningRequestError('companyId must be 1-64 letters, digits, dashes or underscores');
+    }
+    const user = userId?.trim().replace(/\s+/g, ' ').toLowerCase();
+    return user ? { companyId: id, userId: user } : { companyId: id };
+  }
+
+  // "SHELL OIL 57442" and "Shell Oil #57" are the same merchant
+  static merchantKeyOf(merchant: string): string {
+    return merchant
+      .toLowerCase()
+      .replace(/#?\d+/g, ' ')
+      .replace(/[^a-z&' ]+/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  async record(scope: LearningScope, correction: LearningCorrection): Promise<void> {
+    const merchant = correction.merchant?.trim().slice(0, MAX_MERCHANT_LENGTH);
+    const merchantKey = merchant ? CategoryLearningService.merchantKeyOf(merchant) : '';
+    if (!merchantKey) {
+      throw new LearningRequestError('A merchant name is required to learn from a correction');
+    }
+
+    const values = LEARNED_FIELDS
+      .map(field => ({ field, value: correction[field]?.trim().slice(0, MAX_VALUE_LENGTH) }))
+      .filter((entry): entry is { field: LearnedField; value: string } => !!entry.value);
+    if (values.length === 0) {
+      throw new LearningRequestError('A category or description is required');
+    }
+
+    const now = new Date().toISOString();
+    await this.updateScope(scope, mappings => {
+      for (const { field, value } of values) {
+        const existing = mappings.find(mapping => CategoryLearningService.sameMapping(mapping, merchantKey, field, value));
+        if (existing) {
+          existing.count += 1;
+          existing.lastUsedAt = now;
+          existing.merchant = merchant;
+          existing.value = value;
+        } else {
+          mappings.push({ merchantKey, merchant, field, value, count: 1, lastUsedAt: now });
+        }
+      }
+      return mappings;
+    });
+    console.log(`[CategoryLearning] Learned ${values.map(entry => entry.field).join(' and ')} for "${merchantKey}" (${scope.companyId}${scope.userId ? '' : ', shared'})`);
+  }
+
+  /**
+   * Best value for a merchant from the user's own and the company's shared mappings.
+   * `accept` can rule out values that are no longer valid, e.g. disabled categories.
+   */
+  async suggest(
+    scope: LearningScope,
+    merchant: string,
+    field: LearnedField,
+    accept: (value: string) => boolean = () => true
+  ): Promise<LearnedSuggestion | null> {
+    const merchantKey = CategoryLearningService.merchantKeyOf(merchant);
+    if (!merchantKey) return null;
+
+    const now = Date.now();
+    const candidates: LearnedSuggestion[] = [];
+    const scopes: Array<{ scope: LearningScope; shared: boolean }> = scope.userId
+      ? [{ scope, shared: false }, { scope: { companyId: scope.companyId }, shared: true }]
+      : [{ scope, shared: true }];
+
+    for (const { scope: candidateScope, shared } of scopes) {
+      for (const mapping of await this.store.list(candidateScope)) {
+        if (mapping.merchantKey !== merchantKey || mapping.field !== field || !accept(mapping.value)) continue;
+        candidates.push({
+          value: mapping.value,
+          merchant: mapping.merchant,
+          count: mapping.count,
+          score: CategoryLearningService.score(mapping, now) * (shared ? SHARED_WEIGHT : 1),
+          shared,
+        });
+      }
+    }
+
+    return candidates.reduce<LearnedSuggestion | null>((best, candidate) =>
+      !best || candidate.score > best.score ? candidate : best, null);
+  }
+
+  /**
+   * Fills the category and purpose of receipts that don't have them yet from earlier
+   * choices for the same merchant. Categories must be one of `categoryLabels`.
+   */
+  async apply(receipts: ExtractedReceiptData[], scope: LearningScope, categoryLabels: string[]): Promise<ExtractedReceiptData[]> {
+    const labels = new Set(categoryLabels);
+
+    return Promise.all(receipts.map(async receipt => {
+      if (!receipt.merchant?.trim()) return receipt;
+      const updated = { ...receipt };
+
+      if (!receipt.category?.trim()) {
+        const category = await this.suggest(scope, receipt.merchant, 'category', value => labels.has(value));
+        if (category) {
+          updated.category = category.value;
+          updated.categorySuggestion = { category: category.value, source: 'learned', matched: category.merchant };
+          console.log(`[CategoryLearning] Suggested ${category.value} for ${receipt.merchant} (used ${category.count} time(s))`);
+        }
+      }
+
+      if (!receipt.description?.trim()) {
+        const description = await this.suggest(scope, receipt.merchant, 'description');
+        if (description) {
+          updated.description = description.value;
+          updated.descriptionSuggestion = { description: description.value, count: description.count };
+        }
+      }
+      return updated;
+    }));
+  }
+
+  async export(scope: LearningScope): Promise<LearningExport> {
+    return {
+      version: 1,
+      companyId: scope.companyId,
+      userId: scope.userId,
+      exportedAt: new Date().toISOString(),
+      mappings: await this.store.list(scope),
+    };
+  }
+
+  /**
+   * Adds exported mappings to a scope. Merging adds up the counts of mappings both
+   * sides have; replacing discards the scope's current mappings first.
+   */
+  async import(scope: LearningScope, payload: unknown, mode: LearningImportMode = 'merge'): Promise<LearningImportResult> {
+    const incoming = CategoryLearningService.validateImport(payload);
+
+    const merged = await this.updateScope(scope, current => {
+      const mappings = mode === 'replace' ? [] : current;
+      for (const mapping of incoming) {
+        const existing = mappings.find(candidate =>
+          CategoryLearningService.sameMapping(candidate, mapping.merchantKey, mapping.field, mapping.value)
+        );
+        if (!existing) {
+          mappings.push(mapping);
+          continue;
+        }
+        existing.count += mapping.count;
+        if (mapping.lastUsedAt > existing.lastUsedAt) {
+          existing.lastUsedAt = mapping.lastUsedAt;
+          existing.merchant = mapping.merchant;
+          existing.value = mapping.value;
+        }
+      }
+      return mappings;
+    });
+
+    console.log(`[CategoryLearning] Imported ${incoming.length} mapping(s) into ${scope.companyId}${scope.userId ? '' : ' (shared)'} with mode ${mode}`);
+    return { imported: incoming.length, total: merged.length };
+  }
+
+  private static validateImport(payload: unknown): LearnedMapping[] {
+    const raw = payload as { mappings?: unknown } | null;
+    if (!raw || typeof raw !== 'object' || !Array.isArray(raw.mappings)) {
+      throw new LearningRequestError('Import must be an object with a mappings array');
+    }
+    if (raw.mappings.length > MAX_IMPORT_MAPPINGS) {
+      throw new LearningRequestError(`At most ${MAX_IMPORT_MAPPINGS} mappings can be imported at once`);
+    }
+
+    const errors: string[] = [];
+    const mappings: LearnedMapping[] = [];
+    raw.mappings.forEach((entry: unknown, index: number) => {
+      const mapping = entry as Partial<LearnedMapping> | null;
+      const merchant = typeof mapping?.merchant === 'string' ? mapping.merchant.trim().slice(0, MAX_MERCHANT_LENGTH) : '';
+      const merchantKey = CategoryLearningService.merchantKeyOf(merchant);
+      const value = typeof mapping?.value === 'string' ? mapping.value.trim() : '';
+      const lastUsedAt = typeof mapping?.lastUsedAt === 'string' ? new Date(mapping.lastUsedAt) : null;
+
+      if (!merchantKey) errors.push(`mappings[${index}].merchant is required`);
+      if (!mapping?.field || !LEARNED_FIELDS.includes(mapping.field)) errors.push(`mappings[${index}].field must be "category" or "description"`);
+      if (!value || value.length > MAX_VALUE_LENGTH) errors.push(`mappings[${index}].value must be 1-${MAX_VALUE_LENGTH} characters`);
+      if (!Number.isInteger(mapping?.count) || (mapping?.count as number) < 1) errors.push(`mappings[${index}].count must be a positive integer`);
+      if (!lastUsedAt || isNaN(lastUsedAt.getTime())) errors.push(`mappings[${index}].lastUsedAt must be a date`);
+
+      if (errors.length === 0) {
+        mappings.push({
+          // Recomputed rather than trusted, so imports from older versions still line up
+          merchantKey,
+          merchant,
+          field: mapping!.field!,
+          value,
+          count: mapping!.count!,
+          lastUsedAt: lastUsedAt!.toISOString(),
+        });
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new LearningRequestError('Invalid learning import', errors.slice(0, 20));
+    }
+    return mappings;
+  }
+
+  private async updateScope(
+    scope: LearningScope,
+    update: (mappings: LearnedMapping[]) => LearnedMapping[]
+  ): Promise<LearnedMapping[]> {
+    const lockKey = `${scope.companyId}\n${scope.userId ?? ''}`;
+    const previous = CategoryLearningService.scopeLocks.get(lockKey) || Promise.resolve();
+
+    const next = previous.catch(() => undefined).then(async () => {
+      const mappings = CategoryLearningService.prune(update(await this.store.list(scope)));
+      await this.store.save(scope, mappings);
+      return mappings;
+    });
+    CategoryLearningService.scopeLocks.set(lockKey, next);
+
+    try {
+      return await next;
+    } finally {
+      if (CategoryLearningService.scopeLocks.get(lockKey) === next) {
+        CategoryLearningService.scopeLocks.delete(lockKey);
+      }
+    }
+  }
+
+  // Keeps the highest-scoring mappings when a scope grows past the limit
+  private static prune(mappings: LearnedMapping[]): LearnedMapping[] {
+    if (mappings.length <= LEARNING_CONFIG.maxMappingsPerScope) return mappings;
+    const now = Date.now();
+    return [...mappings]
+      .sort((a, b) => this.score(b, now) - this.score(a, now))
+      .slice(0, LEARNING_CONFIG.maxMappingsPerScope);
+  }
+
+  // Use count, halved for every half-life since the mapping was last used
+  private static score(mapping: LearnedMapping, now: number): number {
+    const ageDays = Math.max(0, now - new Date(mapping.lastUsedAt).getTime()) / DAY_MS;
+    return mapping.count * Math.pow(0.5, ageDays / LEARNING_CONFIG.halfLifeDays);
+  }
+
+  private static sameMapping(mapping: LearnedMapping, merchantKey: string, field: LearnedField, value: string): boolean {
+    return mapping.merchantKey === merchantKey
+      && mapping.field === field
+      && mapping.value.toLowerCase() === value.toLowerCase();
+  }
+}
@@ -0,0 +1,26 @@
+import type { StoredCompanyConfig } from './company-config';
+import { FileCompanyConfigStore } from './file-company-config-store';
+
+export interface CompanyConfigStore {
+  get(companyId: string): Promise<StoredCompanyConfig | null>;
+  save(config: StoredCompanyConfig): Promise<void>;
+  delete(companyId: string): Promise<void>;
+}
+
+export const COMPANY_CONFIG_SETTINGS = {
+  dir: process.env.MYNEW_COMPANY_CONFIG_DIR || 'config/companies',
+  // Company used when a request doesn't name one; the same default as the receipt archive
+  defaultCompanyId: process.env.MYNEW_DEFAULT_COMPANY_ID || 'default',
+  // Bearer token for the admin API; changes are rejected while it is unset
+  adminToken: process.env.MYNEW_ADMIN_TOKEN || '',
+};
+
+let activeStore: CompanyConfigStore | null = null;
+
+export function getCompanyConfigStore(): CompanyConfigStore {
+  if (!activeStore) {
+    activeStore = new FileCompanyConfigStore(COMPANY_CONFIG_SETTINGS.dir);
+    console.log(`[CompanyConfigStore] Reading company configurations from ${COMPANY_CONFIG_SETTINGS.dir}`);
+  }
+  return activeStore;
+}
@@ -0,0 +1,420 @@
+import { EXPENSE_CATEGORIES, ExpenseCategories, ExpenseCategory, ExpenseCategoryId } from './expense-categories';
+import { COMPANY_CONFIG_SETTINGS, CompanyConfigStore, getCompanyConfigStore } from './company-config-store';
+import { CategorizationRule, CategorizationRuleSetting, DEFAULT_CATEGORIZATION_RULES, ReceiptCategorizer } from './receipt-categorizer';
+import { ExpensePolicy, PolicyRule, PolicyRuleSetting } from './expense-policy';
+
+// One entry of a company's configuration as written in its JSON file or sent to the
+// admin API. Built-in categories only need the fields they override.
+export interface CompanyCategorySetting {
+  id: string;
+  label?: string;
+  glAccount?: string;
+  subAccount?: string;
+  enabled?: boolean;
+  // Report column a company-specific category is totalled in; built-ins use their own
+  reportAs?: ExpenseCategoryId;
+}
+
+export interface CompanyConfigInput {
+  name?: string;
+  categories?: CompanyCategorySetting[];
+  rules?: CategorizationRuleSetting[]; // Categorization rules, see receipt-categorizer.ts
+  policyRules?: PolicyRuleSetting[]; // Expense policy, see expense-policy.ts
+}
+
+export interface StoredCompanyConfig extends CompanyConfigInput {
+  companyId: string;
+  updatedAt: string;
+}
+
+export interface CompanyCategory {
+  id: string;
+  label: string;
+  glAccount: string;
+  subAccount?: string;
+  enabled: boolean;
+  reportAs: ExpenseCategoryId;
+  custom: boolean; // Added by the company rather than overriding a built-in category
+}
+
+export interface CompanyConfig {
+  companyId: string;
+  name?: string;
+  categories: CompanyCategory[];
+  rules: CategorizationRule[];
+  policyRules: PolicyRule[];
+  updatedAt?: string; // Absent while the company uses the defaults
+}
+
+// The complete report's account coding block has two columns of up to eleven rows
+export const MAX_COMPANY_CATEGORIES = 22;
+
+const COMPANY_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const CATEGORY_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const ACCOUNT_PATTERN = /^[A-Za-z0-9.-]{1,20}$/;
+const MAX_LABEL_LENGTH = 40;
+const MAX_RULE_PHRASES = 100;
+
+export class CompanyConfigError extends Error {
+  readonly status = 400;
+  readonly details: string[];
+
+  constructor(message: string, details: string[] = []) {
+    super(message);
+    this.name = 'CompanyConfigError';
+    this.details = details;
+  }
+}
+
+/**
+ * Per-company expense categories and chart of accounts, layered over the built-in
+ * registry in expense-categories.ts. Companies without a configuration get the defaults.
+ */
+export class CompanyConfigService {
+  private readonly store: CompanyConfigStore;
+
+  constructor(store: CompanyConfigStore = getCompanyConfigStore()) {
+    this.store = store;
+  }
+
+  static isValidCompanyId(companyId: string): boolean {
+    return COMPANY_ID_PATTERN.test(companyId);
+  }
+
+  static companyIdOf(companyId?: string | null): string {
+    return companyId?.trim() || COMPANY_CONFIG_SETTINGS.defaultCompanyId;
+  }
+
+  async get(companyId?: string | null): Promise<CompanyConfig> {
+    const id = this.checkedCompanyId(companyId);
+    const stored = await this.store.get(id);
+    if (!stored) {
+      return CompanyConfigService.resolve({ companyId: id });
+    }
+
+    try {
+      const config = CompanyConfigService.validate(stored);
+      return CompanyConfigService.resolve({ ...config, companyId: id, updatedAt: stored.updatedAt });
+    } catch (error) {
+      // A hand-edited file that doesn't validate must not silently fall back to default codes
+      if (error instanceof CompanyConfigError) {
+        throw new Error(`Configuration for company ${id} is invalid: ${[error.message, ...error.details].join('; ')}`);
+      }
+      throw error;
+    }
+  }
+
+  async save(companyId: string, input: unknown): Promise<CompanyConfig> {
+    const id = this.checkedCompanyId(companyId);
+    const config = CompanyConfigService.validate(input);
+
+    const stored: StoredCompanyConfig = {
+      companyId: id,
+      name: config.name,
+      categories: config.categories,
+      rules: config.rules,
+      policyRules: config.policyRules,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.store.save(stored);
+    console.log(`[CompanyConfig] Saved configuration for company ${id} (${config.categories?.length || 0} category settings, ${config.rules?.length || 0} rules, ${config.policyRules?.length || 0} policy rules)`);
+
+    return CompanyConfigService.resolve(stored);
+  }
+
+  // Drops the company's configuration so it uses the defaults again
+  async reset(companyId: string): Promise<CompanyConfig> {
+    const id = this.checkedCompanyId(companyId);
+    await this.store.delete(id);
+    console.log(`[CompanyConfig] Reset company ${id} to the default configuration`);
+    return CompanyConfigService.resolve({ companyId: id });
+  }
+
+  static enabledCategories(config: CompanyConfig): CompanyCategory[] {
+    return config.categories.filter(category => category.enabled);
+  }
+
+  /**
+   * Finds the company category for a receipt's category value: the company's own ids
+   * and labels first, then the built-in matching, then MISC
+   */
+  static resolveCategory(config: CompanyConfig, value?: string | null): CompanyCategory {
+    const normalized = value?.trim().toLowerCase();
+    if (normalized) {
+      const exact = config.categories.find(category =>
+        category.id === normalized || category.label.toLowerCase() === normalized
+      );
+      if (exact) return exact;
+    }
+
+    const builtIn = ExpenseCategories.resolveOrMisc(value);
+    return config.categories.find(category => category.id === builtIn.id)
+      || this.fromBuiltIn(builtIn);
+  }
+
+  // Account code as printed on reports, e.g. 5710 or 5710-200 with a sub-account
+  static accountCode(category: CompanyCategory): string {
+    return category.subAccount ? `${category.glAccount}-${category.subAccount}` : category.glAccount;
+  }
+
+  static resolve(stored: { companyId: string; updatedAt?: string } & CompanyConfigInput): CompanyConfig {
+    const settings = new Map((stored.categories || []).map(setting => [setting.id, setting]));
+
+    const builtIns = EXPENSE_CATEGORIES.map(category => {
+      const setting = settings.get(category.id);
+      return {
+        ...this.fromBuiltIn(category),
+        label: setting?.label?.trim() || category.label,
+        glAccount: setting?.glAccount || category.glAccount,
+        subAccount: setting?.subAccount || undefined,
+        enabled: setting?.enabled ?? true,
+      };
+    });
+
+    const custom = (stored.categories || [])
+      .filter(setting => !this.isBuiltIn(setting.id))
+      .map(setting => ({
+        id: setting.id,
+        label: setting.label!.trim(),
+        glAccount: setting.glAccount!,
+        subAccount: setting.subAccount || undefined,
+        enabled: setting.enabled ?? true,
+        reportAs: setting.reportAs!,
+        custom: true,
+      }));
+
+    return {
+      companyId: stored.companyId,
+      name: stored.name,
+      categories: [...builtIns, ...custom],
+      rules: ReceiptCategorizer.resolveRules(stored.rules),
+      policyRules: ExpensePolicy.resolveRules(stored.policyRules),
+      updatedAt: stored.updatedAt || undefined,
+    };
+  }
+
+  /**
+   * Checks a configuration from the admin API or a JSON file and returns it with
+   * only the known fields. All problems are reported together.
+   */
+  static validate(input: unknown): CompanyConfigInput {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      throw new CompanyConfigError('Company configuration must be a JSON object');
+    }
+    const raw = input as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (raw.name !== undefined && typeof raw.name !== 'string') {
+      errors.push('name must be a string');
+    }
+    if (raw.categories !== undefined && !Array.isArray(raw.categories)) {
+      errors.push('categories must be an array');
+    }
+    if (raw.rules !== undefined && !Array.isArray(raw.rules)) {
+      errors.push('rules must be an array');
+    }
+    if (raw.policyRules !== undefined && !Array.isArray(raw.policyRules)) {
+      errors.push('policyRules must be an array');
+    }
+
+    const categories: CompanyCategorySetting[] = [];
+    const seen = new Set<string>();
+    (Array.isArray(raw.categories) ? raw.categories : []).forEach((entry: unknown, index: number) => {
+      const setting = this.validateSetting(entry, `categories[${index}]`, errors);
+      if (!setting) return;
+      if (seen.has(setting.id)) {
+        errors.push(`categories[${index}]: duplicate category id "${setting.id}"`);
+        return;
+      }
+      seen.add(setting.id);
+      categories.push(setting);
+    });
+
+    const rules: CategorizationRuleSetting[] = [];
+    const seenRules = new Set<string>();
+    (Array.isArray(raw.rules) ? raw.rules : []).forEach((entry: unknown, index: number) => {
+      const rule = this.validateRule(entry, `rules[${index}]`, errors);
+      if (!rule) return;
+      if (seenRules.has(rule.id)) {
+        errors.push(`rules[${index}]: duplicate rule id "${rule.id}"`);
+        return;
+      }
+      seenRules.add(rule.id);
+      rules.push(rule);
+    });
+
+    const policyRules: PolicyRuleSetting[] = [];
+    const seenPolicyRules = new Set<string>();
+    (Array.isArray(raw.policyRules) ? raw.policyRules : []).forEach((entry: unknown, index: number) => {
+      const rule = ExpensePolicy.validateRuleSetting(entry, `policyRules[${index}]`, errors);
+      if (!rule) return;
+      if (seenPolicyRules.has(rule.id)) {
+        errors.push(`policyRules[${index}]: duplicate rule id "${rule.id}"`);
+        return;
+      }
+      seenPolicyRules.add(rule.id);
+      policyRules.push(rule);
+    });
+
+    const config: CompanyConfigInput = {
+      name: typeof raw.name === 'string' ? raw.name.trim() || undefined : undefined,
+      categories,
+      rules,
+      policyRules,
+    };
+
+    if (errors.length === 0) {
+      const resolved = this.resolve({ companyId: 'validation', ...config });
+      const labels = new Set<string>();
+      for (const category of resolved.categories) {
+        const label = category.label.toLowerCase();
+        if (labels.has(label)) {
+          errors.push(`label "${category.label}" is used by more than one category`);
+        }
+        labels.add(label);
+      }
+      if (!resolved.categories.some(category => category.enabled)) {
+        errors.push('at least one category must be enabled');
+      }
+      if (this.enabledCategories(resolved).length > MAX_COMPANY_CATEGORIES) {
+        errors.push(`at most ${MAX_COMPANY_CATEGORIES} categories can be enabled`);
+      }
+      const categoryIds = new Set(resolved.categories.map(category => category.id));
+      for (const rule of resolved.rules) {
+        if (!categoryIds.has(rule.category)) {
+          errors.push(`rule "${rule.id}" suggests unknown category "${rule.category}"`);
+        }
+      }
+      for (const rule of resolved.policyRules) {
+        const ruleCategories = rule.type === 'categoryCap' ? [rule.category] : rule.type === 'weekend' ? rule.categories : [];
+        for (const category of ruleCategories.filter(category => !categoryIds.has(category))) {
+          errors.push(`policy rule "${rule.id}" refers to unknown category "${category}"`);
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new CompanyConfigError('Invalid company configuration', errors);
+    }
+    return config;
+  }
+
+  private static validateSetting(entry: unknown, path: string, errors: string[]): CompanyCategorySetting | null {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      errors.push(`${path} must be an object`);
+      return null;
+    }
+    const raw = entry as Record<string, unknown>;
+
+    if (typeof raw.id !== 'string' || !CATEGORY_ID_PATTERN.test(raw.id)) {
+      errors.push(`${path}.id must be lower-case letters, digits and dashes`);
+      return null;
+    }
+    const builtIn = this.isBuiltIn(raw.id);
+    const before = errors.length;
+
+    if (raw.label !== undefined && (typeof raw.label !== 'string' || !raw.label.trim() || raw.label.length > MAX_LABEL_LENGTH)) {
+      errors.push(`${path}.label must be a non-empty string of at most ${MAX_LABEL_LENGTH} characters`);
+    }
+    for (const field of ['glAccount', 'subAccount'] as const) {
+      if (raw[field] !== undefined && (typeof raw[field] !== 'string' || !ACCOUNT_PATTERN.test(raw[field] as string))) {
+        errors.push(`${path}.${field} must be up to 20 letters, digits, dots or dashes`);
+      }
+    }
+    if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') {
+      errors.push(`${path}.enabled must be true or false`);
+    }
+
+    if (builtIn) {
+      if (raw.reportAs !== undefined && raw.reportAs !== raw.id) {
+        errors.push(`${path}.reportAs can't be changed for the built-in "${raw.id}" category`);
+      }
+    } else {
+      if (raw.label === undefined) errors.push(`${path}.label is required for a new category`);
+      if (raw.glAccount === undefined) errors.push(`${path}.glAccount is required for a new category`);
+      if (typeof raw.reportAs !== 'string' || !this.isBuiltIn(raw.reportAs)) {
+        errors.push(`${path}.reportAs must be one of ${EXPENSE_CATEGORIES.map(category => category.id).join(', ')}`);
+      }
+    }
+
+    if (errors.length > before) return null;
+    return {
+      id: raw.id,
+      label: raw.label as string | undefined,
+      glAccount: raw.glAccount as string | undefined,
+      subAccount: raw.subAccount as string | undefined,
+      enabled: raw.enabled as boolean | undefined,
+      reportAs: builtIn ? undefined : raw.reportAs as ExpenseCategoryId,
+    };
+  }
+
+  private static validateRule(entry: unknown, path: string, errors: string[]): CategorizationRuleSetting | null {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      errors.push(`${path} must be an object`);
+      return null;
+    }
+    const raw = entry as Record<string, unknown>;
+
+    if (typeof raw.id !== 'string' || !CATEGORY_ID_PATTERN.test(raw.id)) {
+      errors.push(`${path}.id must be lower-case letters, digits and dashes`);
+      return null;
+    }
+    const overridesDefault = DEFAULT_CATEGORIZATION_RULES.some(rule => rule.id === raw.id);
+    const before = errors.length;
+
+    if (raw.category !== undefined && typeof raw.category !== 'string') {
+      errors.push(`${path}.category must be a category id`);
+    }
+    if (!overridesDefault && raw.category === undefined) {
+      errors.push(`${path}.category is required for a new rule`);
+    }
+    for (const field of ['merchantPatterns', 'lineItemKeywords', 'fieldHints'] as const) {
+      const value = raw[field];
+      if (value !== undefined && (
+        !Array.isArray(value)
+        || value.length > MAX_RULE_PHRASES
+        || !value.every(phrase => typeof phrase === 'string' && phrase.trim())
+      )) {
+        errors.push(`${path}.${field} must be a list of up to ${MAX_RULE_PHRASES} non-empty strings`);
+      }
+    }
+    if (!overridesDefault && !['merchantPatterns', 'lineItemKeywords', 'fieldHints'].some(field => Array.isArray(raw[field]) && (raw[field] as unknown[]).length > 0)) {
+      errors.push(`${path} needs merchantPatterns, lineItemKeywords or fieldHints to match on`);
+    }
+    if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') {
+      errors.push(`${path}.enabled must be true or false`);
+    }
+
+    if (errors.length > before) return null;
+    const rule: CategorizationRuleSetting = { id: raw.id };
+    if (raw.category !== undefined) rule.category = raw.category as string;
+    if (raw.merchantPatterns !== undefined) rule.merchantPatterns = raw.merchantPatterns as string[];
+    if (raw.lineItemKeywords !== undefined) rule.lineItemKeywords = raw.lineItemKeywords as string[];
+    if (raw.fieldHints !== undefined) rule.fieldHints = raw.fieldHints as string[];
+    if (raw.enabled !== undefined) rule.enabled = raw.enabled as boolean;
+    return rule;
+  }
+
+  private static isBuiltIn(id: string): id is ExpenseCategoryId {
+    return EXPENSE_CATEGORIES.some(category => category.id === id);
+  }
+
+  private static fromBuiltIn(category: ExpenseCategory): CompanyCategory {
+    return {
+      id: category.id,
+      label: category.label,
+      glAccount: category.glAccount,
+      enabled: true,
+      reportAs: category.id,
+      custom: false,
+    };
+  }
+
+  private checkedCompanyId(companyId?: string | null): string {
+    const id = CompanyConfigService.companyIdOf(companyId);
+    if (!CompanyConfigService.isValidCompanyId(id)) {
+      throw new CompanyConfigError('companyId must be 1-64 letters, digits, dashes or underscores');
+    }
+    return id;
+  }
+}
@@ -0,0 +1,10 @@
+import { createHash } from 'crypto';
+
+export class ContentHash {
+  /**
+   * SHA-256 hex digest of a file buffer, used to key fixtures and cached results
+   */
+  static sha256(buffer: Uint8Array): string {
+    return createHash('sha256').update(buffer).digest('hex');
+  }
+}
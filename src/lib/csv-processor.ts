@@ -1,4 +1,6 @@
 import { ExtractedReceiptData } from './textract-service';
+import { ReceiptNormalizer } from './receipt-normalizer';
+import { ExpenseCategories } from './expense-categories';
 
 interface ReceiptEntry {
   id: string;
@@ -13,21 +15,6 @@ interface ExpenseReportData {
 }
 
 export class CSVProcessor {
-  private static readonly EXPENSE_CATEGORIES = {
-    'HOTEL/MOTEL': { column: 5, csvColumn: 'F' },        // Column F (index 5)
-    'MEALS': { column: 6, csvColumn: 'G' },              // Column G (index 6)
-    'ENTERTAINMENT': { column: 7, csvColumn: 'H' },      // Column H (index 7)
-    'TRANSPORT/AIR-RAIL': { column: 9, csvColumn: 'J' }, // Column J (index 9)
-    'COMPUTER SUPPLIES': { column: 10, csvColumn: 'K' }, // Column K (index 10)
-    'CELL PHONE': { column: 11, csvColumn: 'L' },        // Column L (index 11)
-    'GAS': { column: 12, csvColumn: 'M' },               // Column M (index 12)
-    'COPIES': { column: 13, csvColumn: 'N' },            // Column N (index 13)
-    'DUES': { column: 14, csvColumn: 'O' },              // Column O (index 14)
-    'POSTAGE': { column: 15, csvColumn: 'P' },           // Column P (index 15)
-    'OFFICE SUPPLIES': { column: 16, csvColumn: 'Q' },   // Column Q (index 16)
-    'MISC': { column: 17, csvColumn: 'R' }               // Column R (index 17)
-  };
-
   private static readonly DATA_START_ROW = 9;  // Row 10 in 1-based indexing (index 9)
   private static readonly DATA_END_ROW = 36;   // Row 37 in 1-based indexing (index 36)
   private static readonly MAX_RECEIPTS = 28;
@@ -72,7 +59,7 @@ export class CSVProcessor {
 
       // Column A: Date
       if (receipt.data.date) {
-        csvData[rowIndex][0] = this.formatDate(receipt.data.date);
+        csvData[rowIndex][0] = ReceiptNormalizer.formatReportDate(ReceiptNormalizer.isoDateOf(receipt.data)) || receipt.data.date;
       }
 
       // Column B: Location (Merchant)
@@ -86,15 +73,14 @@ export class CSVProcessor {
       }
 
       // Parse amount
-      const amount = this.parseAmount(receipt.data.total);
+      const amount = ReceiptNormalizer.amountOf(receipt.data);
       totalExpenses += amount;
 
       // Column for category-specific amount
-      if (receipt.data.category && this.EXPENSE_CATEGORIES[receipt.data.category as keyof typeof this.EXPENSE_CATEGORIES]) {
-        const categoryInfo = this.EXPENSE_CATEGORIES[receipt.data.category as keyof typeof this.EXPENSE_CATEGORIES];
-        csvData[rowIndex][categoryInfo.column] = this.formatAmount(amount);
-        console.log(`[CSVProcessor] Added $${amount} to ${receipt.data.category} column ${categoryInfo.csvColumn}`);
-      }
+      const category = ExpenseCategories.resolveOrMisc(receipt.data.category);
+      const columnIndex = ExpenseCategories.columnNumber(category, 'template') - 1;
+      csvData[rowIndex][columnIndex] = this.formatAmount(amount);
+      console.log(`[CSVProcessor] Added $${amount} to ${category.label} column ${ExpenseCategories.column(category, 'template')}`);
 
       // Column T: Total for this row (index 19)
       csvData[rowIndex][19] = this.formatAmount(amount);
@@ -148,17 +134,8 @@ export class CSVProcessor {
   }
 
   private static sortReceiptsByDate(receipts: ReceiptEntry[]): ReceiptEntry[] {
-    return [...receipts].sort((a, b) => {
-      // If no dates, maintain original order
-      if (!a.data.date && !b.data.date) return 0;
-      if (!a.data.date) return 1;
-      if (!b.data.date) return -1;
-
-      // Parse dates and sort chronologically (oldest first)
-      const dateA = new Date(a.data.date);
-      const dateB = new Date(b.data.date);
-      return dateA.getTime() - dateB.getTime();
-    });
+    // Chronological (oldest first), undated receipts last
+    return [...receipts].sort((a, b) => ReceiptNormalizer.compareByDate(a.data, b.data));
   }
 
   private static insertAdditionalRows(csvData: string[][], additionalRows: number): string[][] {
@@ -183,28 +160,10 @@ export class CSVProcessor {
     return csvData;
   }
 
-  private static parseAmount(amount?: string): number {
-    if (!amount) return 0;
-    // Remove all non-numeric characters except decimal point and negative sign
-    const cleanAmount = amount.replace(/[^0-9.-]/g, '');
-    return parseFloat(cleanAmount) || 0;
-  }
-
   private static formatAmount(amount: number): string {
     return `$${amount.toFixed(2)}`;
   }
 
-  private static formatDate(dateStr: string): string {
-    try {
-      const date = new Date(dateStr);
-      // Return in MM/DD/YYYY format
-      return date.toLocaleDateString('en-US');
-    } catch (error) {
-      // If date parsing fails, return original string
-      return dateStr;
-    }
-  }
-
   private static generateCSV(data: string[][]): string {
     return data.map(row => {
       // Escape cells that contain commas by wrapping in quotes
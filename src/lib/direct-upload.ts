@@ -0,0 +1,112 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getStorageProvider, StorageProvider } from './storage-provider';
+
+export interface DirectUploadRequest {
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+export interface PresignedUpload {
+  key: string;
+  uploadUrl: string;
+  method: 'PUT';
+  // Headers the browser must send with the PUT, they are part of the signature
+  headers: Record<string, string>;
+  expiresAt: string;
+}
+
+// Uploads waiting to be analyzed; removed once the analysis has read them
+export const DIRECT_UPLOAD_PREFIX = 'uploads/';
+
+export const DIRECT_UPLOAD_CONTENT_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'application/pdf': 'pdf',
+};
+
+export const DIRECT_UPLOAD_CONFIG = {
+  enabled: process.env.MYNEW_DIRECT_UPLOADS === 'true',
+  maxBytes: parseInt(process.env.MYNEW_DIRECT_UPLOAD_MAX_BYTES || String(5 * 1024 * 1024), 10),
+  expiresInSeconds: parseInt(process.env.MYNEW_DIRECT_UPLOAD_TTL_SECONDS || '300', 10),
+};
+
+export class DirectUploadRequestError extends Error {
+  readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'DirectUploadRequestError';
+  }
+}
+
+/**
+ * Issues presigned PUT URLs so receipts go straight from the browser to storage
+ * instead of through the Next.js function body limit
+ */
+export class DirectUploadService {
+  private readonly storage: StorageProvider;
+
+  constructor(storage: StorageProvider = getStorageProvider()) {
+    this.storage = storage;
+  }
+
+  static get enabled(): boolean {
+    return DIRECT_UPLOAD_CONFIG.enabled;
+  }
+
+  static isUploadKey(key: string): boolean {
+    return key.startsWith(DIRECT_UPLOAD_PREFIX) && !key.split('/').includes('..');
+  }
+
+  async createUpload(request: DirectUploadRequest): Promise<PresignedUpload> {
+    const extension = DIRECT_UPLOAD_CONTENT_TYPES[request.contentType];
+    if (!extension) {
+      throw new DirectUploadRequestError(`Unsupported content type: ${request.contentType}. Only JPEG, PNG, and PDF are supported.`);
+    }
+    if (!Number.isInteger(request.size) || request.size <= 0) {
+      throw new DirectUploadRequestError('File size must be a positive number of bytes');
+    }
+    if (request.size > DIRECT_UPLOAD_CONFIG.maxBytes) {
+      throw new DirectUploadRequestError(`File is too large (${request.size} bytes, max ${DIRECT_UPLOAD_CONFIG.maxBytes})`);
+    }
+
+    const key = `${DIRECT_UPLOAD_PREFIX}${uuidv4()}.${extension}`;
+    // Content type and exact length are signed, so storage rejects any other body
+    const uploadUrl = await this.storage.getSignedUrl(key, {
+      method: 'PUT',
+      contentType: request.contentType,
+      contentLength: request.size,
+      expiresInSeconds: DIRECT_UPLOAD_CONFIG.expiresInSeconds,
+    });
+    console.log(`[DirectUpload] Issued upload URL for ${request.fileName} as ${key}`);
+
+    return {
+      key,
+      uploadUrl,
+      method: 'PUT',
+      headers: { 'Content-Type': request.contentType },
+      expiresAt: new Date(Date.now() + DIRECT_UPLOAD_CONFIG.expiresInSeconds * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Stores a file received by the server under the same prefix as browser uploads,
+   * so it can be analyzed later by key (used by the job queue for multipart batches)
+   */
+  async stage(bytes: Uint8Array, fileName: string, contentType: string): Promise<string> {
+    const extension = DIRECT_UPLOAD_CONTENT_TYPES[contentType] || fileName.split('.').pop()?.toLowerCase() || 'bin';
+    const key = `${DIRECT_UPLOAD_PREFIX}${uuidv4()}.${extension.replace(/[^a-z0-9]/g, '') || 'bin'}`;
+
+    await this.storage.put({
+      key,
+      body: bytes,
+      contentType,
+      metadata: {
+        originalName: encodeURIComponent(fileName),
+        uploadedAt: new Date().toISOString(),
+      },
+    });
+    return key;
+  }
+}
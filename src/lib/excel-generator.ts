@@ -1,5 +1,7 @@
 import ExcelJS from 'exceljs';
 import { ExtractedReceiptData } from './textract-service';
+import { ReceiptNormalizer } from './receipt-normalizer';
+import { ExpenseCategories } from './expense-categories';
 
 interface ReceiptEntry {
   id: string;
@@ -14,21 +16,6 @@ interface ExpenseReportData {
 }
 
 export class ExcelGenerator {
-  private static readonly EXPENSE_CATEGORIES = {
-    'HOTEL/MOTEL': 4,           // Column D
-    'MEALS': 5,                 // Column E
-    'ENTERTAINMENT': 6,         // Column F
-    'TRANSPORT/AIR-RAIL': 7,    // Column G
-    'COMPUTER SUPPLIES': 8,     // Column H
-    'CELL PHONE': 9,            // Column I
-    'GAS': 10,                  // Column J
-    'COPIES': 11,               // Column K
-    'DUES': 12,                 // Column L
-    'POSTAGE': 13,              // Column M
-    'OFFICE SUPPLIES': 14,      // Column N
-    'MISC': 15                  // Column O
-  };
-
   static async generateExpenseReport(data: ExpenseReportData): Promise<Buffer> {
     console.log('[ExcelGenerator] Creating new expense report');
     
@@ -130,7 +117,9 @@ export class ExcelGenerator {
       const row = worksheet.getRow(rowNum);
       
       // Date (Column A)
-      row.getCell(1).value = receipt.data.date ? this.formatDate(receipt.data.date) : '';
+      row.getCell(1).value = receipt.data.date
+        ? ReceiptNormalizer.formatReportDate(ReceiptNormalizer.isoDateOf(receipt.data)) || receipt.data.date
+        : '';
       
       // Location/Merchant (Column B)
       row.getCell(2).value = receipt.data.merchant || '';
@@ -139,25 +128,21 @@ export class ExcelGenerator {
       row.getCell(3).value = receipt.data.description || '';
       
       // Amount in appropriate category column
-      const amount = this.parseAmount(receipt.data.total);
-      
-      // Determine which category column to use
-      let categoryCol: number | undefined;
-      if (receipt.data.category) {
-        categoryCol = this.EXPENSE_CATEGORIES[receipt.data.category as keyof typeof this.EXPENSE_CATEGORIES];
-      }
+      const amount = ReceiptNormalizer.amountOf(receipt.data);
       
       // If no category or unrecognized category, default to MISC (Column O)
-      if (!categoryCol) {
-        categoryCol = 15; // MISC column
+      let category = ExpenseCategories.resolve(receipt.data.category);
+      if (!category) {
+        category = ExpenseCategories.misc();
         console.log(`[ExcelGenerator] Using MISC category for receipt: ${receipt.data.merchant || 'Unknown'}, category: ${receipt.data.category || 'None'}`);
       }
+      const categoryCol = ExpenseCategories.columnNumber(category, 'generated');
       
       // Place amount in the determined category column
       row.getCell(categoryCol).value = amount;
       row.getCell(categoryCol).numFmt = '$#,##0.00';
       
-      console.log(`[ExcelGenerator] Added $${amount} to column ${categoryCol} for category: ${receipt.data.category || 'MISC'}`);
+      console.log(`[ExcelGenerator] Added $${amount} to column ${categoryCol} for category: ${category.label}`);
       
       // Total (Column P - 16) - Use SUM formula for columns D through O
       row.getCell(16).value = { formula: `SUM(D${rowNum}:O${rowNum})` };
@@ -317,174 +302,7 @@ export class ExcelGenerator {
     approvalRow.getCell(15).font = { size: 9 };
   }
 
-  private static normalizeDate(dateStr: string): string {
-    if (!dateStr) return dateStr;
-    
-    // Remove leading zeros from month and day
-    // Convert 09/05/25 to 9/5/25
-    const parts = dateStr.split(/[\/\-]/);
-    if (parts.length === 3) {
-      const month = parseInt(parts[0], 10).toString();
-      const day = parseInt(parts[1], 10).toString();
-      const year = parts[2];
-      return `${month}/${day}/${year}`;
-    }
-    return dateStr;
-  }
-
   private static sortReceiptsByDate(receipts: ReceiptEntry[]): ReceiptEntry[] {
-    console.log('[ExcelGenerator] Starting date sort for receipts...');
-    
-    const receiptsWithParsedDates = receipts.map(receipt => {
-      // Normalize the date first (remove leading zeros)
-      const normalizedDate = this.normalizeDate(receipt.data.date || '');
-      const parsedDate = this.parseReceiptDate(normalizedDate);
-      return {
-        receipt,
-        parsedDate,
-        originalDate: receipt.data.date,
-        normalizedDate
-      };
-    });
-    
-    // Log parsing results
-    receiptsWithParsedDates.forEach(item => {
-      if (item.parsedDate) {
-        console.log(`[ExcelGenerator] "${item.originalDate}" -> normalized to "${item.normalizedDate}" -> parsed to: ${item.parsedDate.toLocaleDateString('en-US')}`);
-      } else {
-        console.log(`[ExcelGenerator] "${item.originalDate}" could not be parsed`);
-      }
-    });
-    
-    // Sort by parsed dates
-    receiptsWithParsedDates.sort((a, b) => {
-      // Handle null dates
-      if (!a.parsedDate && !b.parsedDate) return 0;
-      if (!a.parsedDate) return 1;  // null dates to end
-      if (!b.parsedDate) return -1; // null dates to end
-      
-      // Use the sortValue for more reliable sorting
-      const aSortValue = (a.parsedDate as Date & { sortValue?: number }).sortValue || 0;
-      const bSortValue = (b.parsedDate as Date & { sortValue?: number }).sortValue || 0;
-      
-      const diff = aSortValue - bSortValue;
-      console.log(`[ExcelGenerator] Comparing ${a.originalDate} (${aSortValue}) vs ${b.originalDate} (${bSortValue}): ${diff}`);
-      return diff;
-    });
-    
-    console.log('[ExcelGenerator] Final sorted order:', 
-      receiptsWithParsedDates.map(item => item.originalDate || 'no date'));
-    
-    return receiptsWithParsedDates.map(item => item.receipt);
+    return [...receipts].sort((a, b) => ReceiptNormalizer.compareByDate(a.data, b.data));
   }
-
-  private static parseReceiptDate(dateStr: string): Date | null {
-    if (!dateStr) return null;
-    
-    // Clean the date string
-    const cleanedDate = dateStr.trim();
-    
-    try {
-      // Handle various date formats with explicit parsing
-      // Match M/D/YY or MM/DD/YY or M/D/YYYY or MM/DD/YYYY
-      const dateMatch = cleanedDate.match(/^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})$/);
-      if (dateMatch) {
-        const month = parseInt(dateMatch[1], 10);
-        const day = parseInt(dateMatch[2], 10);
-        let year = parseInt(dateMatch[3], 10);
-        
-        // Convert 2-digit year to 4-digit
-        if (year < 100) {
-          year = 2000 + year;  // Always assume 20xx for 2-digit years
-        }
-        
-        // Validate date components
-        if (month >= 1 && month <= 12 && day >= 1 && day <= 31 && year >= 1900 && year <= 2100) {
-          // Create a sortable date value (year * 10000 + month * 100 + day)
-          // This ensures proper sorting regardless of timezone issues
-          const sortValue = year * 10000 + month * 100 + day;
-          
-          // Create the actual date object
-          const parsedDate = new Date(year, month - 1, day, 12, 0, 0); // Use noon to avoid DST issues
-          
-          // Store the sort value as a property for debugging
-          (parsedDate as Date & { sortValue?: number }).sortValue = sortValue;
-          
-          console.log(`[ExcelGenerator] Parsed date: "${dateStr}" -> ${month}/${day}/${year} -> sortValue: ${sortValue}`);
-          return parsedDate;
-        }
-      }
-      
-      // Try ISO format (YYYY-MM-DD)
-      const isoMatch = cleanedDate.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
-      if (isoMatch) {
-        const year = parseInt(isoMatch[1], 10);
-        const month = parseInt(isoMatch[2], 10);
-        const day = parseInt(isoMatch[3], 10);
-        
-        if (month >= 1 && month <= 12 && day >= 1 && day <= 31 && year >= 1900 && year <= 2100) {
-          const sortValue = year * 10000 + month * 100 + day;
-          const parsedDate = new Date(year, month - 1, day, 12, 0, 0);
-          (parsedDate as Date & { sortValue?: number }).sortValue = sortValue;
-          console.log(`[ExcelGenerator] Parsed ISO date: "${dateStr}" -> ${month}/${day}/${year} -> sortValue: ${sortValue}`);
-          return parsedDate;
-        }
-      }
-      
-      console.warn(`[ExcelGenerator] Could not parse date: "${dateStr}"`);
-      return null;
-    } catch (error) {
-      console.warn(`[ExcelGenerator] Error parsing date "${dateStr}":`, error);
-      return null;
-    }
-  }
-
-  private static parseAmount(amount?: string): number {
-    if (!amount) return 0;
-    const cleanAmount = amount.replace(/[^0-9.-]/g, '');
-    return parseFloat(cleanAmount) || 0;
-  }
-
-  private static formatDate(dateStr: string): string {
-    if (!dateStr) return '';
-    
-    try {
-      // Parse the date string to get components
-      const dateMatch = dateStr.trim().match(/^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{2,4})$/);
-      if (dateMatch) {
-        const month = parseInt(dateMatch[1], 10);
-        const day = parseInt(dateMatch[2], 10);
-        let year = parseInt(dateMatch[3], 10);
-        
-        // Convert 2-digit year to 4-digit
-        if (year < 100) {
-          year = 2000 + year;
-        }
-        
-        // Format with leading zeros for month and day when needed
-        const formattedMonth = month.toString().padStart(2, '0');
-        const formattedDay = day.toString().padStart(2, '0');
-        
-        return `${formattedMonth}/${formattedDay}/${year}`;
-      }
-      
-      // Try ISO format
-      const isoMatch = dateStr.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
-      if (isoMatch) {
-        const year = parseInt(isoMatch[1], 10);
-        const month = parseInt(isoMatch[2], 10);
-        const day = parseInt(isoMatch[3], 10);
-        
-        const formattedMonth = month.toString().padStart(2, '0');
-        const formattedDay = day.toString().padStart(2, '0');
-        
-        return `${formattedMonth}/${formattedDay}/${year}`;
-      }
-      
-      // Fallback to original string if can't parse
-      return dateStr;
-    } catch (error) {
-      return dateStr;
-    }
-  }
-}
\ No newline at end of file
+}
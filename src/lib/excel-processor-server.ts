@@ -1,5 +1,7 @@
 import ExcelJS from 'exceljs';
 import { ExtractedReceiptData } from './textract-service';
+import { ReceiptNormalizer } from './receipt-normalizer';
+import { ExpenseCategories } from './expense-categories';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
@@ -16,21 +18,6 @@ interface ExpenseReportData {
 }
 
 export class ExcelProcessorServer {
-  private static readonly EXPENSE_CATEGORIES = {
-    'HOTEL/MOTEL': { column: 'F' },      
-    'MEALS': { column: 'G' },            
-    'ENTERTAINMENT': { column: 'H' },    
-    'TRANSPORT/AIR-RAIL': { column: 'J' },
-    'COMPUTER SUPPLIES': { column: 'K' }, 
-    'CELL PHONE': { column: 'L' },        
-    'GAS': { column: 'M' },               
-    'COPIES': { column: 'N' },            
-    'DUES': { column: 'O' },              
-    'POSTAGE': { column: 'P' },           
-    'OFFICE SUPPLIES': { column: 'Q' },   
-    'MISC': { column: 'R' }               
-  };
-
   private static readonly DATA_START_ROW = 10;
   private static readonly DATA_END_ROW = 37;
   private static readonly MAX_RECEIPTS = 28;
@@ -103,7 +90,7 @@ export class ExcelProcessorServer {
       try {
         // Column A: Date
         if (receipt.data.date) {
-          worksheet.getRow(rowNumber).getCell(1).value = this.formatDate(receipt.data.date);
+          worksheet.getRow(rowNumber).getCell(1).value = ReceiptNormalizer.formatReportDate(ReceiptNormalizer.isoDateOf(receipt.data)) || receipt.data.date;
         }
 
         // Column B: Location (Merchant)
@@ -117,16 +104,14 @@ export class ExcelProcessorServer {
         }
 
         // Parse amount
-        const amount = this.parseAmount(receipt.data.total);
+        const amount = ReceiptNormalizer.amountOf(receipt.data);
         totalExpenses += amount;
 
         // Column for category-specific amount
-        if (receipt.data.category && this.EXPENSE_CATEGORIES[receipt.data.category as keyof typeof this.EXPENSE_CATEGORIES]) {
-          const categoryInfo = this.EXPENSE_CATEGORIES[receipt.data.category as keyof typeof this.EXPENSE_CATEGORIES];
-          const colLetter = categoryInfo.column;
-          worksheet.getCell(`${colLetter}${rowNumber}`).value = amount;
-          console.log(`[ExcelProcessorServer] Added $${amount} to ${receipt.data.category} column ${colLetter}${rowNumber}`);
-        }
+        const category = ExpenseCategories.resolveOrMisc(receipt.data.category);
+        const colLetter = ExpenseCategories.column(category, 'template');
+        worksheet.getCell(`${colLetter}${rowNumber}`).value = amount;
+        console.log(`[ExcelProcessorServer] Added $${amount} to ${category.label} column ${colLetter}${rowNumber}`);
 
         // Column T: Total for this row
         worksheet.getRow(rowNumber).getCell(20).value = amount; // Column T is the 20th column
@@ -159,29 +144,7 @@ export class ExcelProcessorServer {
   }
 
   private static sortReceiptsByDate(receipts: ReceiptEntry[]): ReceiptEntry[] {
-    return [...receipts].sort((a, b) => {
-      if (!a.data.date && !b.data.date) return 0;
-      if (!a.data.date) return 1;
-      if (!b.data.date) return -1;
-
-      const dateA = new Date(a.data.date);
-      const dateB = new Date(b.data.date);
-      return dateA.getTime() - dateB.getTime();
-    });
-  }
-
-  private static parseAmount(amount?: string): number {
-    if (!amount) return 0;
-    const cleanAmount = amount.replace(/[^0-9.-]/g, '');
-    return parseFloat(cleanAmount) || 0;
+    return [...receipts].sort((a, b) => ReceiptNormalizer.compareByDate(a.data, b.data));
   }
 
-  private static formatDate(dateStr: string): string {
-    try {
-      const date = new Date(dateStr);
-      return date.toLocaleDateString('en-US');
-    } catch (error) {
-      return dateStr;
-    }
-  }
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
 import ExcelJS from 'exceljs';
 import { ExtractedReceiptData } from './textract-service';
+import { ReceiptNormalizer } from './receipt-normalizer';
+import { ExpenseCategories } from './expense-categories';
 
 interface ReceiptEntry {
   id: string;
@@ -14,21 +16,6 @@ interface ExpenseReportData {
 }
 
 export class ExcelProcessor {
-  private static readonly EXPENSE_CATEGORIES = {
-    'HOTEL/MOTEL': { column: 'F' },      // Column F
-    'MEALS': { column: 'G' },            // Column G  
-    'ENTERTAINMENT': { column: 'H' },    // Column H
-    'TRANSPORT/AIR-RAIL': { column: 'J' }, // Column J
-    'COMPUTER SUPPLIES': { column: 'K' }, // Column K
-    'CELL PHONE': { column: 'L' },        // Column L
-    'GAS': { column: 'M' },               // Column M
-    'COPIES': { column: 'N' },            // Column N
-    'DUES': { column: 'O' },              // Column O
-    'POSTAGE': { column: 'P' },           // Column P
-    'OFFICE SUPPLIES': { column: 'Q' },   // Column Q
-    'MISC': { column: 'R' }               // Column R
-  };
-
   private static readonly DATA_START_ROW = 10;  // Row 10 in 1-based indexing
   private static readonly DATA_END_ROW = 37;    // Row 37 in 1-based indexing  
   private static readonly MAX_RECEIPTS = 28;
@@ -101,7 +88,7 @@ export class ExcelProcessor {
 
       // Column A: Date
       if (receipt.data.date) {
-        worksheet.getCell(`A${rowNumber}`).value = this.formatDate(receipt.data.date);
+        worksheet.getCell(`A${rowNumber}`).value = ReceiptNormalizer.formatReportDate(ReceiptNormalizer.isoDateOf(receipt.data)) || receipt.data.date;
       }
 
       // Column B: Location (Merchant) 
@@ -115,15 +102,14 @@ export class ExcelProcessor {
       }
 
       // Parse amount
-      const amount = this.parseAmount(receipt.data.total);
+      const amount = ReceiptNormalizer.amountOf(receipt.data);
       totalExpenses += amount;
 
       // Column for category-specific amount
-      if (receipt.data.category && this.EXPENSE_CATEGORIES[receipt.data.category as keyof typeof this.EXPENSE_CATEGORIES]) {
-        const categoryInfo = this.EXPENSE_CATEGORIES[receipt.data.category as keyof typeof this.EXPENSE_CATEGORIES];
-        worksheet.getCell(`${categoryInfo.column}${rowNumber}`).value = amount;
-        console.log(`[ExcelProcessor] Added $${amount} to ${receipt.data.category} column ${categoryInfo.column}${rowNumber}`);
-      }
+      const category = ExpenseCategories.resolveOrMisc(receipt.data.category);
+      const colLetter = ExpenseCategories.column(category, 'template');
+      worksheet.getCell(`${colLetter}${rowNumber}`).value = amount;
+      console.log(`[ExcelProcessor] Added $${amount} to ${category.label} column ${colLetter}${rowNumber}`);
 
       // Column T: Total for this row
       worksheet.getCell(`T${rowNumber}`).value = amount;
@@ -166,17 +152,8 @@ export class ExcelProcessor {
   }
 
   private static sortReceiptsByDate(receipts: ReceiptEntry[]): ReceiptEntry[] {
-    return [...receipts].sort((a, b) => {
-      // If no dates, maintain original order
-      if (!a.data.date && !b.data.date) return 0;
-      if (!a.data.date) return 1;
-      if (!b.data.date) return -1;
-
-      // Parse dates and sort chronologically (oldest first)
-      const dateA = new Date(a.data.date);
-      const dateB = new Date(b.data.date);
-      return dateA.getTime() - dateB.getTime();
-    });
+    // Chronological (oldest first), undated receipts last
+    return [...receipts].sort((a, b) => ReceiptNormalizer.compareByDate(a.data, b.data));
   }
 
   private static insertAdditionalRows(worksheet: ExcelJS.Worksheet, additionalRows: number): void {
@@ -209,24 +186,6 @@ export class ExcelProcessor {
     }
   }
 
-  private static parseAmount(amount?: string): number {
-    if (!amount) return 0;
-    // Remove all non-numeric characters except decimal point and negative sign
-    const cleanAmount = amount.replace(/[^0-9.-]/g, '');
-    return parseFloat(cleanAmount) || 0;
-  }
-
-  private static formatDate(dateStr: string): string {
-    try {
-      const date = new Date(dateStr);
-      // Return in MM/DD/YYYY format
-      return date.toLocaleDateString('en-US');
-    } catch (error) {
-      // If date parsing fails, return original string
-      return dateStr;
-    }
-  }
-
   static downloadExcel(excelBuffer: Buffer, employeeName: string): void {
     const blob = new Blob([new Uint8Array(excelBuffer)], { 
       type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' 
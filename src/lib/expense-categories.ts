@@ -0,0 +1,179 @@
+// Single source of truth for expense categories. Client-safe: the receipt table
+// dropdown reads it as well as the server-side report generators.
+
+export type ExpenseCategoryId =
+  | 'hotel'
+  | 'meals'
+  | 'entertainment'
+  | 'transport'
+  | 'computer-supplies'
+  | 'cell-phone'
+  | 'gas'
+  | 'copies'
+  | 'dues'
+  | 'postage'
+  | 'office-supplies'
+  | 'misc';
+
+// Report layouts that place each category in its own amount column
+export type ExpenseReportFormat =
+  | 'template'        // Company expense template (CSVProcessor, ExcelProcessor, ExcelProcessorServer)
+  | 'generated'       // Workbook built from scratch by ExcelGenerator
+  | 'completeReport'; // /api/export-complete-report workbook
+
+export interface ExpenseCategory {
+  id: ExpenseCategoryId;
+  label: string; // Value stored in receipt.data.category and shown in the dropdown
+  glAccount: string;
+  // Lower-case words matched against free-text categories that aren't an exact label
+  keywords: string[];
+  columns: Record<ExpenseReportFormat, string>; // Column letter per report layout
+}
+
+export const EXPENSE_CATEGORIES: readonly ExpenseCategory[] = [
+  {
+    id: 'hotel',
+    label: 'HOTEL/MOTEL',
+    glAccount: '5710',
+    keywords: ['hotel', 'motel', 'lodging'],
+    columns: { template: 'F', generated: 'D', completeReport: 'G' },
+  },
+  {
+    id: 'meals',
+    label: 'MEALS',
+    glAccount: '5714',
+    keywords: ['meal', 'meals', 'food', 'restaurant'],
+    columns: { template: 'G', generated: 'E', completeReport: 'H' },
+  },
+  {
+    id: 'entertainment',
+    label: 'ENTERTAINMENT',
+    glAccount: '5718',
+    keywords: ['entertainment'],
+    columns: { template: 'H', generated: 'F', completeReport: 'I' },
+  },
+  {
+    id: 'transport',
+    label: 'TRANSPORT/AIR-RAIL',
+    glAccount: '5712',
+    keywords: ['transport', 'air', 'airfare', 'rail', 'uber', 'lyft', 'taxi'],
+    columns: { template: 'J', generated: 'G', completeReport: 'J' },
+  },
+  {
+    id: 'computer-supplies',
+    label: 'COMPUTER SUPPLIES',
+    glAccount: '5405',
+    keywords: ['computer'],
+    columns: { template: 'K', generated: 'H', completeReport: 'K' },
+  },
+  {
+    id: 'cell-phone',
+    label: 'CELL PHONE',
+    glAccount: '5678',
+    keywords: ['cell', 'phone'],
+    columns: { template: 'L', generated: 'I', completeReport: 'L' },
+  },
+  {
+    id: 'gas',
+    label: 'GAS',
+    glAccount: '5720',
+    keywords: ['gas', 'fuel', 'mileage'],
+    columns: { template: 'M', generated: 'J', completeReport: 'M' },
+  },
+  {
+    id: 'copies',
+    label: 'COPIES',
+    glAccount: '5560',
+    keywords: ['copies', 'copy', 'printing'],
+    columns: { template: 'N', generated: 'K', completeReport: 'N' },
+  },
+  {
+    id: 'dues',
+    label: 'DUES',
+    glAccount: '5470',
+    keywords: ['dues', 'membership', 'subscription'],
+    columns: { template: 'O', generated: 'L', completeReport: 'O' },
+  },
+  {
+    id: 'postage',
+    label: 'POSTAGE',
+    glAccount: '5590',
+    keywords: ['postage', 'shipping'],
+    columns: { template: 'P', generated: 'M', completeReport: 'P' },
+  },
+  {
+    id: 'office-supplies',
+    label: 'OFFICE SUPPLIES',
+    glAccount: '5560',
+    keywords: ['office'],
+    columns: { template: 'Q', generated: 'N', completeReport: 'Q' },
+  },
+  {
+    id: 'misc',
+    label: 'MISC',
+    glAccount: '5718',
+    keywords: ['misc', 'other'],
+    columns: { template: 'R', generated: 'O', completeReport: 'R' },
+  },
+];
+
+export class ExpenseCategories {
+  static readonly MISC_ID: ExpenseCategoryId = 'misc';
+
+  static all(): readonly ExpenseCategory[] {
+    return EXPENSE_CATEGORIES;
+  }
+
+  static labels(): string[] {
+    return EXPENSE_CATEGORIES.map(category => category.label);
+  }
+
+  static get(id: ExpenseCategoryId): ExpenseCategory {
+    const category = EXPENSE_CATEGORIES.find(candidate => candidate.id === id);
+    if (!category) {
+      throw new Error(`Unknown expense category: ${id}`);
+    }
+    return category;
+  }
+
+  static misc(): ExpenseCategory {
+    return this.get(this.MISC_ID);
+  }
+
+  /**
+   * Finds the category for a stored or free-text value. Exact ids and labels win;
+   * otherwise the first category owning one of the value's words is used, so
+   * "Office supplies" and "Computer supplies" can't be confused by the shared word.
+   */
+  static resolve(value?: string | null): ExpenseCategory | undefined {
+    const normalized = value?.trim().toLowerCase();
+    if (!normalized) return undefined;
+
+    const exact = EXPENSE_CATEGORIES.find(category =>
+      category.id === normalized || category.label.toLowerCase() === normalized
+    );
+    if (exact) return exact;
+
+    const words = normalized.split(/[^a-z]+/).filter(Boolean);
+    return EXPENSE_CATEGORIES.find(category =>
+      category.keywords.some(keyword => words.includes(keyword))
+    );
+  }
+
+  // Receipts without a recognizable category are reported as miscellaneous
+  static resolveOrMisc(value?: string | null): ExpenseCategory {
+    return this.resolve(value) || this.misc();
+  }
+
+  static column(category: ExpenseCategory, format: ExpenseReportFormat): string {
+    return category.columns[format];
+  }
+
+  // 1-based column number, as used by ExcelJS rows
+  static columnNumber(category: ExpenseCategory, format: ExpenseReportFormat): number {
+    return this.column(category, format)
+      .toUpperCase()
+      .split('')
+      .reduce((number, letter) => number * 26 + (letter.charCodeAt(0) - 64), 0);
+  }
+}
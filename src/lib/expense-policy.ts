@@ -0,0 +1,459 @@
+import { ExpenseCategories } from './expense-categories';
+import { ReceiptCategorizer } from './receipt-categorizer';
+import { ReceiptNormalizer, ReceiptValues } from './receipt-normalizer';
+
+// Hard violations block the report; soft ones need a written justification
+export type PolicySeverity = 'hard' | 'soft';
+
+export type PolicyRuleType = 'categoryCap' | 'itemizedReceipt' | 'bannedMerchant' | 'alcohol' | 'weekend' | 'mileageCap';
+
+interface PolicyRuleBase {
+  id: string;
+  severity: PolicySeverity;
+  enabled: boolean;
+}
+
+// Spending limit for a category, per calendar day or per hotel night
+export interface CategoryCapRule extends PolicyRuleBase {
+  type: 'categoryCap';
+  category: string; // Company category id
+  limit: number; // In the report currency; receipt amounts aren't converted
+  per: 'day' | 'night';
+}
+
+// Receipts over the threshold must list their line items
+export interface ItemizedReceiptRule extends PolicyRuleBase {
+  type: 'itemizedReceipt';
+  threshold: number;
+}
+
+export interface BannedMerchantRule extends PolicyRuleBase {
+  type: 'bannedMerchant';
+  merchants: string[]; // Words or phrases in the merchant name
+}
+
+export interface AlcoholRule extends PolicyRuleBase {
+  type: 'alcohol';
+  keywords: string[]; // Words or phrases in line item descriptions
+}
+
+export interface WeekendRule extends PolicyRuleBase {
+  type: 'weekend';
+  categories: string[]; // Company category ids the rule covers; empty covers all
+  includeMileage: boolean;
+}
+
+// Reimbursable miles driven per calendar day
+export interface MileageCapRule extends PolicyRuleBase {
+  type: 'mileageCap';
+  miles: number;
+}
+
+export type PolicyRule = CategoryCapRule | ItemizedReceiptRule | BannedMerchantRule | AlcoholRule | WeekendRule | MileageCapRule;
+
+// A rule as written in a company configuration; a default rule's id only needs the fields it changes
+export interface PolicyRuleSetting {
+  id: string;
+  type?: PolicyRuleType;
+  severity?: PolicySeverity;
+  enabled?: boolean;
+  category?: string;
+  limit?: number;
+  per?: 'day' | 'night';
+  threshold?: number;
+  merchants?: string[];
+  keywords?: string[];
+  categories?: string[];
+  includeMileage?: boolean;
+  miles?: number;
+}
+
+export interface PolicyViolation {
+  ruleId: string;
+  type: PolicyRuleType;
+  severity: PolicySeverity;
+  message: string;
+  subjectKind: 'receipt' | 'mileage';
+  subjectId: string; // Receipt or mileage entry id
+  justification?: string; // What the user wrote for a soft violation
+}
+
+// Keyed by rule id; stored on the receipt or mileage entry the violation is for
+export type PolicyJustifications = Record<string, string>;
+
+export interface PolicyReceipt {
+  id: string;
+  data: ReceiptValues;
+}
+
+export interface PolicyMileageEntry {
+  id: string;
+  date: string;
+  reimbursableDistance: number;
+  policyJustifications?: PolicyJustifications;
+}
+
+// Everything the evaluation needs, as served by GET /api/policy
+export interface ExpensePolicyConfig {
+  rules: PolicyRule[];
+  categories: Array<{ id: string; label: string }>;
+}
+
+export const DEFAULT_ALCOHOL_KEYWORDS = [
+  'beer', 'ipa', 'lager', 'pilsner', 'stout', 'wine', 'merlot', 'cabernet', 'chardonnay',
+  'pinot', 'sauvignon', 'prosecco', 'champagne', 'sangria', 'cocktail', 'margarita', 'martini', 'mojito',
+  'vodka', 'gin', 'rum', 'tequila', 'whiskey', 'whisky', 'bourbon', 'scotch', 'liquor', 'sake',
+];
+
+export const DEFAULT_POLICY_RULES: readonly PolicyRule[] = [
+  { id: 'meals-daily-limit', type: 'categoryCap', category: 'meals', limit: 75, per: 'day', severity: 'soft', enabled: true },
+  { id: 'hotel-nightly-limit', type: 'categoryCap', category: 'hotel', limit: 250, per: 'night', severity: 'soft', enabled: true },
+  { id: 'itemized-receipt', type: 'itemizedReceipt', threshold: 75, severity: 'soft', enabled: true },
+  { id: 'banned-merchants', type: 'bannedMerchant', merchants: [], severity: 'hard', enabled: true },
+  { id: 'alcohol', type: 'alcohol', keywords: DEFAULT_ALCOHOL_KEYWORDS, severity: 'soft', enabled: true },
+  { id: 'weekend', type: 'weekend', categories: [], includeMileage: true, severity: 'soft', enabled: true },
+  { id: 'mileage-daily-limit', type: 'mileageCap', miles: 500, severity: 'soft', enabled: true },
+];
+
+const POLICY_RULE_TYPES: PolicyRuleType[] = ['categoryCap', 'itemizedReceipt', 'bannedMerchant', 'alcohol', 'weekend', 'mileageCap'];
+const RULE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const MAX_POLICY_PHRASES = 200;
+// Folio lines that each stand for one night, e.g. "Room Charge 10/02"
+const NIGHTLY_LINE_PATTERN = /\b(room|nightly|night)\b/i;
+// Lines that mention the room but aren't its rate, e.g. "Room Tax" or "Room Service"
+const NOT_NIGHTLY_LINE_PATTERN = /\b(tax|taxes|service|fee|fees|surcharge|levy|occupancy|resort|parking|minibar|phone|internet|wi-?fi|upgrade|deposit)\b/i;
+
+/**
+ * Checks receipts and mileage entries against a company's expense policy. Pure and
+ * client-safe, so the table can flag violations as the user edits.
+ */
+export class ExpensePolicy {
+  // Company rules override the default rule with the same id; new rules follow the defaults
+  static resolveRules(settings: PolicyRuleSetting[] = []): PolicyRule[] {
+    const overrides = new Map(settings.map(setting => [setting.id, setting]));
+    const defaultIds = new Set(DEFAULT_POLICY_RULES.map(rule => rule.id));
+
+    const defaults = DEFAULT_POLICY_RULES.map(rule => {
+      const override = overrides.get(rule.id);
+      return override ? this.withDefaults({ ...rule, ...override, type: rule.type }) : rule;
+    });
+    const custom = settings
+      .filter(setting => !defaultIds.has(setting.id))
+      .map(setting => this.withDefaults(setting));
+
+    return [...defaults, ...custom];
+  }
+
+  // Policy used until the company's own has loaded
+  static defaultConfig(): ExpensePolicyConfig {
+    return {
+      rules: [...DEFAULT_POLICY_RULES],
+      categories: ExpenseCategories.all().map(category => ({ id: category.id, label: category.label })),
+    };
+  }
+
+  static evaluate(
+    receipts: PolicyReceipt[],
+    mileageEntries: PolicyMileageEntry[],
+    policy: ExpensePolicyConfig
+  ): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+    for (const rule of policy.rules.filter(rule => rule.enabled)) {
+      switch (rule.type) {
+        case 'categoryCap':
+          violations.push(...(rule.per === 'night'
+            ? this.checkNightlyCap(rule, receipts, policy)
+            : this.checkDailyCap(rule, receipts, policy)));
+          break;
+        case 'itemizedReceipt':
+          violations.push(...this.checkItemized(rule, receipts));
+          break;
+        case 'bannedMerchant':
+          violations.push(...this.checkBannedMerchants(rule, receipts));
+          break;
+        case 'alcohol':
+          violations.push(...this.checkAlcohol(rule, receipts));
+          break;
+        case 'weekend':
+          violations.push(...this.checkWeekend(rule, receipts, mileageEntries, policy));
+          break;
+        case 'mileageCap':
+          violations.push(...this.checkMileageCap(rule, mileageEntries));
+          break;
+      }
+    }
+
+    const justifications = new Map<string, PolicyJustifications | undefined>([
+      ...receipts.map(receipt => [receipt.id, receipt.data.policyJustifications] as const),
+      ...mileageEntries.map(entry => [entry.id, entry.policyJustifications] as const),
+    ]);
+    return violations.map(violation => {
+      const justification = justifications.get(violation.subjectId)?.[violation.ruleId]?.trim();
+      return justification ? { ...violation, justification } : violation;
+    });
+  }
+
+  // Hard violations, and soft ones nobody has justified yet
+  static isBlocking(violation: PolicyViolation): boolean {
+    return violation.severity === 'hard' || !violation.justification;
+  }
+
+  static violationsFor(violations: PolicyViolation[], subjectId: string): PolicyViolation[] {
+    return violations.filter(violation => violation.subjectId === subjectId);
+  }
+
+  /**
+   * Checks a rule from a company configuration and returns it with only the known
+   * fields, or null after adding its problems to `errors`
+   */
+  static validateRuleSetting(entry: unknown, path: string, errors: string[]): PolicyRuleSetting | null {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      errors.push(`${path} must be an object`);
+      return null;
+    }
+    const raw = entry as Record<string, unknown>;
+
+    if (typeof raw.id !== 'string' || !RULE_ID_PATTERN.test(raw.id)) {
+      errors.push(`${path}.id must be lower-case letters, digits and dashes`);
+      return null;
+    }
+    const defaultRule = DEFAULT_POLICY_RULES.find(rule => rule.id === raw.id);
+    const before = errors.length;
+
+    if (defaultRule && raw.type !== undefined && raw.type !== defaultRule.type) {
+      errors.push(`${path}.type can't be changed for the default "${raw.id}" rule`);
+    }
+    if (!defaultRule && !POLICY_RULE_TYPES.includes(raw.type as PolicyRuleType)) {
+      errors.push(`${path}.type must be one of ${POLICY_RULE_TYPES.join(', ')}`);
+    }
+    if (raw.severity !== undefined && raw.severity !== 'hard' && raw.severity !== 'soft') {
+      errors.push(`${path}.severity must be "hard" or "soft"`);
+    }
+    if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') {
+      errors.push(`${path}.enabled must be true or false`);
+    }
+    if (errors.length > before) return null;
+
+    const type = defaultRule?.type || raw.type as PolicyRuleType;
+    // A new rule must set every field of its type; an override only the ones it changes
+    const check = (field: keyof PolicyRuleSetting, valid: (value: unknown) => boolean, description: string) => {
+      if (raw[field] === undefined ? !defaultRule : !valid(raw[field])) {
+        errors.push(`${path}.${field} must be ${description}`);
+      }
+    };
+    const isPositive = (value: unknown) => typeof value === 'number' && isFinite(value) && value > 0;
+    const isPhraseList = (value: unknown) => Array.isArray(value)
+      && value.length <= MAX_POLICY_PHRASES
+      && value.every(phrase => typeof phrase === 'string' && phrase.trim());
+
+    switch (type) {
+      case 'categoryCap':
+        check('category', value => typeof value === 'string' && !!value, 'a category id');
+        check('limit', isPositive, 'a positive amount');
+        check('per', value => value === 'day' || value === 'night', '"day" or "night"');
+        break;
+      case 'itemizedReceipt':
+        check('threshold', value => typeof value === 'number' && isFinite(value) && value >= 0, 'an amount of zero or more');
+        break;
+      case 'bannedMerchant':
+        check('merchants', isPhraseList, `a list of up to ${MAX_POLICY_PHRASES} non-empty strings`);
+        break;
+      case 'alcohol':
+        check('keywords', isPhraseList, `a list of up to ${MAX_POLICY_PHRASES} non-empty strings`);
+        break;
+      case 'weekend':
+        if (raw.categories !== undefined && !(Array.isArray(raw.categories) && raw.categories.every(id => typeof id === 'string'))) {
+          errors.push(`${path}.categories must be a list of category ids`);
+        }
+        if (raw.includeMileage !== undefined && typeof raw.includeMileage !== 'boolean') {
+          errors.push(`${path}.includeMileage must be true or false`);
+        }
+        break;
+      case 'mileageCap':
+        check('miles', isPositive, 'a positive number of miles');
+        break;
+    }
+    if (errors.length > before) return null;
+
+    const setting: PolicyRuleSetting = { id: raw.id };
+    const fields: Array<keyof PolicyRuleSetting> = [
+      'type', 'severity', 'enabled', 'category', 'limit', 'per', 'threshold', 'merchants', 'keywords', 'categories', 'includeMileage', 'miles',
+    ];
+    for (const field of fields) {
+      if (raw[field] !== undefined) {
+        (setting as unknown as Record<string, unknown>)[field] = raw[field];
+      }
+    }
+    return setting;
+  }
+
+  private static checkDailyCap(rule: CategoryCapRule, receipts: PolicyReceipt[], policy: ExpensePolicyConfig): PolicyViolation[] {
+    const byDate = new Map<string, PolicyReceipt[]>();
+    for (const receipt of receipts) {
+      if (this.categoryIdOf(receipt.data.category, policy) !== rule.category) continue;
+      // Undated receipts can't be grouped, so each one counts as its own day
+      const key = ReceiptNormalizer.isoDateOf(receipt.data) || `undated:${receipt.id}`;
+      byDate.set(key, [...(byDate.get(key) || []), receipt]);
+    }
+
+    const violations: PolicyViolation[] = [];
+    byDate.forEach((group, key) => {
+      const total = group.reduce((sum, receipt) => sum + ReceiptNormalizer.amountOf(receipt.data), 0);
+      if (total <= rule.limit) return;
+
+      const label = this.categoryLabelOf(rule.category, policy);
+      const day = key.startsWith('undated:') ? 'this receipt' : `${key} (${group.length} receipt${group.length === 1 ? '' : 's'})`;
+      const message = `${label} total ${this.money(total)} for ${day} is over the ${this.money(rule.limit)} daily limit`;
+      group.forEach(receipt => violations.push(this.violation(rule, 'receipt', receipt.id, message)));
+    });
+    return violations;
+  }
+
+  private static checkNightlyCap(rule: CategoryCapRule, receipts: PolicyReceipt[], policy: ExpensePolicyConfig): PolicyViolation[] {
+    return receipts
+      .filter(receipt => this.categoryIdOf(receipt.data.category, policy) === rule.category)
+      .flatMap(receipt => {
+        const nights = this.nightsOf(receipt.data);
+        const perNight = ReceiptNormalizer.amountOf(receipt.data) / nights;
+        if (perNight <= rule.limit) return [];
+        return [this.violation(rule, 'receipt', receipt.id,
+          `${this.money(perNight)} per night over ${nights} night${nights === 1 ? '' : 's'} is over the ${this.money(rule.limit)} nightly limit`)];
+      });
+  }
+
+  private static checkItemized(rule: ItemizedReceiptRule, receipts: PolicyReceipt[]): PolicyViolation[] {
+    return receipts
+      .filter(receipt => ReceiptNormalizer.amountOf(receipt.data) > rule.threshold)
+      .filter(receipt => !(receipt.data.items || []).some(item => item.description?.trim()))
+      .map(receipt => this.violation(rule, 'receipt', receipt.id,
+        `Receipts over ${this.money(rule.threshold)} must be itemized; no line items were found`));
+  }
+
+  private static checkBannedMerchants(rule: BannedMerchantRule, receipts: PolicyReceipt[]): PolicyViolation[] {
+    return receipts.flatMap(receipt => {
+      const merchant = receipt.data.merchant;
+      const matched = merchant && ReceiptCategorizer.findPhrase(rule.merchants, [merchant]);
+      return matched
+        ? [this.violation(rule, 'receipt', receipt.id, `"${merchant}" is on the company's list of merchants that can't be expensed`)]
+        : [];
+    });
+  }
+
+  private static checkAlcohol(rule: AlcoholRule, receipts: PolicyReceipt[]): PolicyViolation[] {
+    return receipts.flatMap(receipt => {
+      const item = (receipt.data.items || []).find(item =>
+        item.description && ReceiptCategorizer.findPhrase(rule.keywords, [item.description])
+      );
+      return item
+        ? [this.violation(rule, 'receipt', receipt.id, `Line item "${item.description}" looks like alcohol`)]
+        : [];
+    });
+  }
+
+  private static checkWeekend(
+    rule: WeekendRule,
+    receipts: PolicyReceipt[],
+    mileageEntries: PolicyMileageEntry[],
+    policy: ExpensePolicyConfig
+  ): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+    for (const receipt of receipts) {
+      if (rule.categories.length > 0 && !rule.categories.includes(this.categoryIdOf(receipt.data.category, policy) || '')) continue;
+      const day = this.weekendDayOf(ReceiptNormalizer.isoDateOf(receipt.data));
+      if (day) violations.push(this.violation(rule, 'receipt', receipt.id, `Expense dated on a ${day}`));
+    }
+    if (rule.includeMileage) {
+      for (const entry of mileageEntries) {
+        const day = this.weekendDayOf(ReceiptNormalizer.parseDate(entry.date));
+        if (day) violations.push(this.violation(rule, 'mileage', entry.id, `Trip driven on a ${day}`));
+      }
+    }
+    return violations;
+  }
+
+  private static checkMileageCap(rule: MileageCapRule, mileageEntries: PolicyMileageEntry[]): PolicyViolation[] {
+    const byDate = new Map<string, PolicyMileageEntry[]>();
+    for (const entry of mileageEntries) {
+      const key = ReceiptNormalizer.parseDate(entry.date) || `undated:${entry.id}`;
+      byDate.set(key, [...(byDate.get(key) || []), entry]);
+    }
+
+    const violations: PolicyViolation[] = [];
+    byDate.forEach((group, key) => {
+      const miles = group.reduce((sum, entry) => sum + (entry.reimbursableDistance || 0), 0);
+      if (miles <= rule.miles) return;
+      const day = key.startsWith('undated:') ? 'this trip' : key;
+      const message = `${miles.toFixed(1)} reimbursable miles for ${day} is over the ${rule.miles} mile daily limit`;
+      group.forEach(entry => violations.push(this.violation(rule, 'mileage', entry.id, message)));
+    });
+    return violations;
+  }
+
+  /**
+   * Hotel folios list one room-rate line per night, or one line with the nights as its
+   * quantity; taxes and services on the room don't count. Receipts without them count as one night.
+   */
+  private static nightsOf(data: ReceiptValues): number {
+    const nightlyLines = (data.items || []).filter(item =>
+      item.description && NIGHTLY_LINE_PATTERN.test(item.description) && !NOT_NIGHTLY_LINE_PATTERN.test(item.description)
+    );
+    const nights = nightlyLines.reduce((sum, item) => {
+      const quantity = parseInt(item.quantity || '', 10);
+      return sum + (quantity > 1 ? quantity : 1);
+    }, 0);
+    return Math.max(1, nights);
+  }
+
+  private static weekendDayOf(isoDate: string | null): string | null {
+    if (!isoDate) return null;
+    const [year, month, day] = isoDate.split('-').map(Number);
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+    return weekday === 0 ? 'Sunday' : weekday === 6 ? 'Saturday' : null;
+  }
+
+  // Company ids and labels first, then the built-in matching, like CompanyConfigService.resolveCategory
+  private static categoryIdOf(value: string | undefined, policy: ExpensePolicyConfig): string | null {
+    const normalized = value?.trim().toLowerCase();
+    if (!normalized) return null;
+    const exact = policy.categories.find(category =>
+      category.id === normalized || category.label.toLowerCase() === normalized
+    );
+    return exact?.id || ExpenseCategories.resolve(value)?.id || null;
+  }
+
+  private static categoryLabelOf(categoryId: string, policy: ExpensePolicyConfig): string {
+    return policy.categories.find(category => category.id === categoryId)?.label || categoryId;
+  }
+
+  private static money(amount: number): string {
+    return `$${amount.toFixed(2)}`;
+  }
+
+  private static violation(
+    rule: PolicyRule,
+    subjectKind: PolicyViolation['subjectKind'],
+    subjectId: string,
+    message: string
+  ): PolicyViolation {
+    return { ruleId: rule.id, type: rule.type, severity: rule.severity, message, subjectKind, subjectId };
+  }
+
+  private static withDefaults(setting: PolicyRuleSetting): PolicyRule {
+    const base = { id: setting.id, severity: setting.severity || 'soft', enabled: setting.enabled ?? true };
+    switch (setting.type) {
+      case 'categoryCap':
+        return { ...base, type: 'categoryCap', category: setting.category || '', limit: setting.limit ?? 0, per: setting.per || 'day' };
+      case 'itemizedReceipt':
+        return { ...base, type: 'itemizedReceipt', threshold: setting.threshold ?? 0 };
+      case 'bannedMerchant':
+        return { ...base, type: 'bannedMerchant', merchants: setting.merchants || [] };
+      case 'alcohol':
+        return { ...base, type: 'alcohol', keywords: setting.keywords || DEFAULT_ALCOHOL_KEYWORDS };
+      case 'weekend':
+        return { ...base, type: 'weekend', categories: setting.categories || [], includeMileage: setting.includeMileage ?? true };
+      case 'mileageCap':
+      default:
+        return { ...base, type: 'mileageCap', miles: setting.miles ?? 0 };
+    }
+  }
+}
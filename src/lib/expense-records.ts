@@ -0,0 +1,182 @@
+import { NextResponse } from 'next/server';
+import type { ReceiptValues } from './receipt-normalizer';
+import { CompanyConfigService } from './company-config';
+import { ReportLifecycleError } from './report-lifecycle-service';
+import type { MileageEntryInput, ReceiptImageMetadata, ReceiptInput, ReportInput } from './expense-repository';
+
+// Ids are chosen by the browser (e.g. "report-2026-10-18-x1y2z3") so edits can be saved offline-first
+const RECORD_ID_PATTERN = /^[A-Za-z0-9_.:-]{1,200}$/;
+const MAX_NAME_LENGTH = 200;
+const MAX_LINE_ITEMS = 500;
+const IMAGE_TEXT_FIELDS = ['storageKey', 'contentHash', 'perceptualHash', 'fileName', 'contentType', 'archivedAt', 'retainUntil'] as const;
+const RECEIPT_TEXT_FIELDS = [
+  'description', 'merchant', 'total', 'date', 'tax', 'subtotal', 'tip', 'gratuity', 'discount', 'serviceCharge',
+  'address', 'phone', 'paymentMethod', 'cardLastFour', 'receiptNumber', 'category',
+] as const;
+
+export class RecordRequestError extends Error {
+  readonly status = 400;
+  readonly details: string[];
+
+  constructor(message: string, details: string[] = []) {
+    super(message);
+    this.name = 'RecordRequestError';
+    this.details = details;
+  }
+}
+
+/**
+ * Checks report, receipt and mileage payloads sent to the /api/reports and
+ * /api/mileage routes before they reach the repository
+ */
+export class ExpenseRecords {
+  static isValidId(id: unknown): id is string {
+    return typeof id === 'string' && RECORD_ID_PATTERN.test(id);
+  }
+
+  static reportInput(body: unknown): ReportInput {
+    const raw = this.objectOf(body, 'Report');
+    const errors: string[] = [];
+
+    if (raw.companyId !== undefined && (typeof raw.companyId !== 'string' || !CompanyConfigService.isValidCompanyId(raw.companyId))) {
+      errors.push('companyId must be 1-64 letters, digits, dashes or underscores');
+    }
+    for (const field of ['employeeName', 'title'] as const) {
+      if (raw[field] !== undefined && (typeof raw[field] !== 'string' || (raw[field] as string).length > MAX_NAME_LENGTH)) {
+        errors.push(`${field} must be a string of at most ${MAX_NAME_LENGTH} characters`);
+      }
+    }
+    this.throwIfInvalid('Invalid report', errors);
+
+    return {
+      companyId: raw.companyId as string | undefined,
+      employeeName: (raw.employeeName as string | undefined)?.trim(),
+      title: (raw.title as string | undefined)?.trim() || undefined,
+    };
+  }
+
+  static receiptInput(body: unknown, receiptId?: string): ReceiptInput {
+    const raw = this.objectOf(body, 'Receipt');
+    const errors: string[] = [];
+    const id = receiptId ?? raw.id;
+
+    if (!this.isValidId(id)) errors.push('id must be 1-200 letters, digits, dots, colons, dashes or underscores');
+    if (receiptId && raw.id !== undefined && raw.id !== receiptId) errors.push('id in the body does not match the URL');
+
+    const data = raw.data as Record<string, unknown> | undefined;
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      errors.push('data must be an object with the receipt fields');
+    } else {
+      for (const field of RECEIPT_TEXT_FIELDS) {
+        if (data[field] !== undefined && data[field] !== null && typeof data[field] !== 'string') {
+          errors.push(`data.${field} must be a string`);
+        }
+      }
+      if (data.items !== undefined && (!Array.isArray(data.items) || data.items.length > MAX_LINE_ITEMS)) {
+        errors.push(`data.items must be a list of at most ${MAX_LINE_ITEMS} line items`);
+      }
+    }
+
+    const image = raw.image as Record<string, unknown> | undefined;
+    if (image !== undefined && (!image || typeof image !== 'object' || Array.isArray(image))) {
+      errors.push('image must be an object');
+    } else if (image) {
+      for (const field of IMAGE_TEXT_FIELDS) {
+        if (image[field] !== undefined && typeof image[field] !== 'string') errors.push(`image.${field} must be a string`);
+      }
+      if (image.sizeBytes !== undefined && (!Number.isInteger(image.sizeBytes) || (image.sizeBytes as number) < 0)) {
+        errors.push('image.sizeBytes must be a whole number of bytes');
+      }
+    }
+
+    if (raw.uploadId !== undefined && typeof raw.uploadId !== 'string') errors.push('uploadId must be a string');
+    if (raw.dismissedDuplicates !== undefined && !(Array.isArray(raw.dismissedDuplicates) && raw.dismissedDuplicates.every(other => this.isValidId(other)))) {
+      errors.push('dismissedDuplicates must be a list of receipt ids');
+    }
+    this.throwIfInvalid('Invalid receipt', errors);
+
+    return {
+      id: id as string,
+      data: data as unknown as ReceiptValues,
+      image: image as ReceiptImageMetadata | undefined,
+      uploadId: raw.uploadId as string | undefined,
+      dismissedDuplicates: raw.dismissedDuplicates as string[] | undefined,
+    };
+  }
+
+  static mileageInput(body: unknown, entryId?: string): MileageEntryInput {
+    const raw = this.objectOf(body, 'Mileage entry');
+    const errors: string[] = [];
+    const id = entryId ?? raw.id;
+
+    if (id !== undefined && !this.isValidId(id)) errors.push('id must be 1-200 letters, digits, dots, colons, dashes or underscores');
+    if (raw.reportId !== undefined && raw.reportId !== null && !this.isValidId(raw.reportId)) errors.push('reportId must be a report id');
+    if (raw.companyId !== undefined && (typeof raw.companyId !== 'string' || !CompanyConfigService.isValidCompanyId(raw.companyId))) {
+      errors.push('companyId must be 1-64 letters, digits, dashes or underscores');
+    }
+    for (const field of ['date', 'startAddress', 'endAddress', 'businessPurpose'] as const) {
+      if (typeof raw[field] !== 'string' || !(raw[field] as string).trim()) errors.push(`${field} is required`);
+    }
+    // Distances come from /api/mileage/calculate, so an entry can't be saved before it ran
+    for (const field of ['calculatedDistance', 'reimbursableDistance', 'reimbursableAmount'] as const) {
+      if (typeof raw[field] !== 'number' || !isFinite(raw[field] as number) || (raw[field] as number) < 0) {
+        errors.push(`${field} must be a number; calculate the distance before saving`);
+      }
+    }
+    if (raw.personalCommute !== undefined && (typeof raw.personalCommute !== 'number' || (raw.personalCommute as number) < 0)) {
+      errors.push('personalCommute must be a number of miles');
+    }
+    if (raw.roundTrip !== undefined && typeof raw.roundTrip !== 'boolean') errors.push('roundTrip must be true or false');
+    if (raw.policyJustifications !== undefined && !this.isStringRecord(raw.policyJustifications)) {
+      errors.push('policyJustifications must map rule ids to text');
+    }
+    this.throwIfInvalid('Invalid mileage entry', errors);
+
+    return {
+      id: (id as string | undefined) || `mileage_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+      reportId: (raw.reportId as string | null | undefined) || undefined,
+      companyId: CompanyConfigService.companyIdOf(raw.companyId as string | undefined),
+      date: raw.date as string,
+      startAddress: raw.startAddress as string,
+      endAddress: raw.endAddress as string,
+      businessPurpose: raw.businessPurpose as string,
+      roundTrip: (raw.roundTrip as boolean | undefined) ?? false,
+      personalCommute: (raw.personalCommute as number | undefined) ?? 0,
+      calculatedDistance: raw.calculatedDistance as number,
+      reimbursableDistance: raw.reimbursableDistance as number,
+      reimbursableAmount: raw.reimbursableAmount as number,
+      policyJustifications: raw.policyJustifications as Record<string, string> | undefined,
+    };
+  }
+
+  private static objectOf(body: unknown, what: string): Record<string, unknown> {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new RecordRequestError(`${what} must be a JSON object`);
+    }
+    return body as Record<string, unknown>;
+  }
+
+  private static isStringRecord(value: unknown): boolean {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+      && Object.values(value).every(text => typeof text === 'string');
+  }
+
+  private static throwIfInvalid(message: string, errors: string[]): void {
+    if (errors.length > 0) {
+      throw new RecordRequestError(message, errors);
+    }
+  }
+}
+
+// Shared catch block of the /api/reports and /api/mileage/entries routes
+export function recordErrorResponse(error: unknown, failure: string): NextResponse {
+  if (error instanceof RecordRequestError || error instanceof ReportLifecycleError) {
+    return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+  }
+
+  console.error(`[ExpenseRecords] ${failure}:`, error);
+  return NextResponse.json(
+    { error: failure, details: error instanceof Error ? error.message : 'Unknown error' },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,134 @@
+import type { ReceiptValues } from './receipt-normalizer';
+import type { ReportAction, ReportStatus, ReportTransition } from './report-lifecycle';
+import type { ReportReview, ReportReviewInput } from './report-reviews';
+import { SqliteExpenseRepository } from './sqlite-expense-repository';
+
+export interface ExpenseReportRecord {
+  id: string;
+  companyId: string;
+  employeeName: string;
+  title?: string;
+  status: ReportStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReportInput {
+  companyId?: string;
+  employeeName?: string;
+  title?: string;
+}
+
+// Where the original file of a receipt is kept, see ReceiptArchive
+export interface ReceiptImageMetadata {
+  storageKey?: string;
+  contentHash?: string; // SHA-256 of the file
+  perceptualHash?: string; // ImageHash.dHash, for duplicate detection
+  fileName?: string;
+  contentType?: string;
+  sizeBytes?: number;
+  archivedAt?: string;
+  retainUntil?: string;
+  url?: string; // Short-lived signed link to the archived original, on reads only
+}
+
+export interface ReceiptRecord {
+  id: string;
+  reportId: string;
+  data: ReceiptValues; // Line items included; Textract's raw response is not stored
+  image?: ReceiptImageMetadata;
+  uploadId?: string;
+  dismissedDuplicates?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReceiptInput {
+  id: string;
+  data: ReceiptValues;
+  image?: ReceiptImageMetadata;
+  uploadId?: string;
+  dismissedDuplicates?: string[];
+}
+
+export interface MileageEntryRecord {
+  id: string;
+  reportId?: string;
+  companyId: string;
+  date: string;
+  startAddress: string;
+  endAddress: string;
+  businessPurpose: string;
+  roundTrip: boolean;
+  personalCommute: number;
+  calculatedDistance: number;
+  reimbursableDistance: number;
+  reimbursableAmount: number;
+  policyJustifications?: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MileageEntryInput = Omit<MileageEntryRecord, 'createdAt' | 'updatedAt'>;
+
+export interface ReportFilter {
+  companyId?: string;
+  employeeName?: string;
+  status?: ReportStatus;
+}
+
+export interface ReportTransitionInput {
+  action: ReportAction;
+  from: ReportStatus;
+  to: ReportStatus;
+  actor: string;
+  note?: string;
+}
+
+export interface MileageFilter {
+  reportId?: string;
+  companyId?: string;
+}
+
+/**
+ * Durable storage for expense reports and everything on them. Saving a receipt or
+ * mileage entry with an existing id replaces it.
+ */
+export interface ExpenseRepository {
+  listReports(filter?: ReportFilter): Promise<ExpenseReportRecord[]>;
+  getReport(id: string): Promise<ExpenseReportRecord | null>;
+  createReport(id: string, input: ReportInput): Promise<ExpenseReportRecord>;
+  updateReport(id: string, changes: ReportInput): Promise<ExpenseReportRecord | null>;
+  // Also deletes the report's receipts, line items, image metadata and mileage entries
+  deleteReport(id: string): Promise<boolean>;
+  // Moves the report only if it is still in `transition.from`; null when it is not
+  transitionReport(id: string, transition: ReportTransitionInput): Promise<ExpenseReportRecord | null>;
+  listTransitions(reportId: string): Promise<ReportTransition[]>;
+  addReview(input: ReportReviewInput): Promise<ReportReview>;
+  listReviews(reportId: string): Promise<ReportReview[]>;
+
+  listReceipts(reportId: string): Promise<ReceiptRecord[]>;
+  getReceipt(id: string): Promise<ReceiptRecord | null>;
+  saveReceipt(reportId: string, input: ReceiptInput): Promise<ReceiptRecord>;
+  deleteReceipt(id: string): Promise<boolean>;
+
+  listMileageEntries(filter?: MileageFilter): Promise<MileageEntryRecord[]>;
+  getMileageEntry(id: string): Promise<MileageEntryRecord | null>;
+  saveMileageEntry(input: MileageEntryInput): Promise<MileageEntryRecord>;
+  deleteMileageEntry(id: string): Promise<boolean>;
+}
+
+export const REPOSITORY_CONFIG = {
+  // SQLite database file, created with its directory on first use; ":memory:" keeps nothing
+  databasePath: process.env.MYNEW_DATABASE_PATH || '.data/receipts.db',
+};
+
+let activeRepository: ExpenseRepository | null = null;
+
+export function getExpenseRepository(): ExpenseRepository {
+  if (!activeRepository) {
+    activeRepository = new SqliteExpenseRepository(REPOSITORY_CONFIG.databasePath);
+    console.log(`[ExpenseRepository] Using SQLite database ${REPOSITORY_CONFIG.databasePath}`);
+  }
+  return activeRepository;
+}
@@ -0,0 +1,18 @@
+import type { FieldDetection } from './textract-service';
+
+// Textract confidence below this (0-100) is flagged for manual review
+export const LOW_CONFIDENCE_THRESHOLD = 90;
+
+export function isLowConfidence(detection?: FieldDetection): boolean {
+  if (!detection || detection.reviewed || detection.confidence === undefined) {
+    return false;
+  }
+  return detection.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+export function describeConfidence(detection?: FieldDetection): string {
+  if (!detection || detection.confidence === undefined) {
+    return '';
+  }
+  return `${detection.confidence.toFixed(0)}% confidence (${detection.sourceType})`;
+}
@@ -0,0 +1,71 @@
+import type { ExtractedReceiptData, FieldDetection, FieldGeometry, LineItemFieldName, ReceiptFieldName } from './textract-service';
+
+export interface FieldOverlay {
+  key: string; // Summary field name (e.g. "total") or line item path (e.g. "items.2.price")
+  label: string;
+  value?: string;
+  geometry: FieldGeometry;
+  detection: FieldDetection;
+}
+
+const SUMMARY_FIELD_LABELS: Record<ReceiptFieldName, string> = {
+  merchant: 'Merchant',
+  total: 'Total',
+  date: 'Date',
+  tax: 'Tax',
+  subtotal: 'Subtotal',
+  tip: 'Tip',
+  gratuity: 'Gratuity',
+  discount: 'Discount',
+  serviceCharge: 'Service Charge',
+  paymentMethod: 'Payment Method',
+  cardLastFour: 'Card Last Four',
+  receiptNumber: 'Receipt #',
+  address: 'Address',
+  phone: 'Phone',
+};
+
+const LINE_ITEM_FIELD_LABELS: Record<LineItemFieldName, string> = {
+  description: 'description',
+  price: 'price',
+  quantity: 'quantity',
+};
+
+/**
+ * Collects every extracted field that carries Textract geometry on the given page
+ */
+export function collectFieldOverlays(data: ExtractedReceiptData, pageNumber = 1): FieldOverlay[] {
+  const overlays: FieldOverlay[] = [];
+  const onPage = (geometry?: FieldGeometry): geometry is FieldGeometry =>
+    !!geometry && (geometry.pageNumber ?? 1) === pageNumber;
+
+  (Object.keys(SUMMARY_FIELD_LABELS) as ReceiptFieldName[]).forEach(field => {
+    const detection = data.fieldDetections?.[field];
+    if (detection && onPage(detection.geometry)) {
+      overlays.push({
+        key: field,
+        label: SUMMARY_FIELD_LABELS[field],
+        value: data[field],
+        geometry: detection.geometry,
+        detection,
+      });
+    }
+  });
+
+  data.items?.forEach((item, index) => {
+    (Object.keys(LINE_ITEM_FIELD_LABELS) as LineItemFieldName[]).forEach(field => {
+      const detection = item.fieldDetections?.[field];
+      if (detection && onPage(detection.geometry)) {
+        overlays.push({
+          key: `items.${index}.${field}`,
+          label: `Item ${index + 1} ${LINE_ITEM_FIELD_LABELS[field]}`,
+          value: item[field],
+          geometry: detection.geometry,
+          detection,
+        });
+      }
+    });
+  });
+
+  return overlays;
+}
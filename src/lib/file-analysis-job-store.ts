@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { AnalysisJob, AnalysisJobStatus, AnalysisJobStore, compareByCreation, isFinished } from './analysis-job-store';
+
+/**
+ * Stores each job as `<dir>/<job id>.json` so queued and finished jobs survive
+ * restarts on a single server. Listing reads every file, which is fine for the
+ * few thousand jobs a day's retention holds.
+ */
+export class FileAnalysisJobStore implements AnalysisJobStore {
+  readonly name = 'file' as const;
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = resolve(process.cwd(), dir);
+  }
+
+  async get(id: string): Promise<AnalysisJob | null> {
+    // Job ids come from URLs
+    if (!/^[A-Za-z0-9-]+$/.test(id)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(this.jobPath(id), 'utf-8')) as AnalysisJob;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(job: AnalysisJob): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    // Write then rename so a concurrent reader never sees a half-written file
+    const tempPath = `${this.jobPath(job.id)}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(job));
+    await fs.rename(tempPath, this.jobPath(job.id));
+  }
+
+  async listByBatch(batchId: string): Promise<AnalysisJob[]> {
+    return (await this.readAll()).filter(job => job.batchId === batchId);
+  }
+
+  async listByStatus(status: AnalysisJobStatus): Promise<AnalysisJob[]> {
+    return (await this.readAll()).filter(job => job.status === status);
+  }
+
+  async prune(completedBefore: Date): Promise<AnalysisJob[]> {
+    const removed: AnalysisJob[] = [];
+    for (const job of await this.readAll()) {
+      if (isFinished(job) && job.completedAt && new Date(job.completedAt) < completedBefore) {
+        await fs.unlink(this.jobPath(job.id)).catch(() => undefined);
+        removed.push(job);
+      }
+    }
+    return removed;
+  }
+
+  private async readAll(): Promise<AnalysisJob[]> {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const jobs: AnalysisJob[] = [];
+    for (const fileName of fileNames) {
+      if (!fileName.endsWith('.json')) continue;
+      try {
+        jobs.push(JSON.parse(await fs.readFile(join(this.dir, fileName), 'utf-8')) as AnalysisJob);
+      } catch {
+        // Removed by prune() between readdir and readFile
+      }
+    }
+    return jobs.sort(compareByCreation);
+  }
+
+  private jobPath(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+}
@@ -0,0 +1,54 @@
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import type { StoredCompanyConfig } from './company-config';
+import { CompanyConfigStore } from './company-config-store';
+
+/**
+ * Keeps each company's configuration in `<dir>/<company id>.json`. Files are read on
+ * every lookup, so a file edited by hand takes effect without a restart.
+ */
+export class FileCompanyConfigStore implements CompanyConfigStore {
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = resolve(process.cwd(), dir);
+  }
+
+  async get(companyId: string): Promise<StoredCompanyConfig | null> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.configPath(companyId), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    // Hand-written files may leave out the id and timestamp
+    const parsed = JSON.parse(contents) as Partial<StoredCompanyConfig>;
+    return {
+      ...parsed,
+      companyId,
+      updatedAt: parsed.updatedAt || '',
+    };
+  }
+
+  async save(config: StoredCompanyConfig): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    // Write then rename so a concurrent reader never sees a half-written file
+    const configPath = this.configPath(config.companyId);
+    const tempPath = `${configPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(config, null, 2));
+    await fs.rename(tempPath, configPath);
+  }
+
+  async delete(companyId: string): Promise<void> {
+    await fs.unlink(this.configPath(companyId)).catch(() => undefined);
+  }
+
+  // Company ids are validated by CompanyConfigService before they reach the store
+  private configPath(companyId: string): string {
+    return join(this.dir, `${companyId}.json`);
+  }
+}
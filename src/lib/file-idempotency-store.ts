@@ -0,0 +1,85 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { IdempotencyRecord, IdempotencyStore, StoredResponse } from './idempotency-store';
+
+/**
+ * Stores each record as `<dir>/<sha256 of scope and key>.json` so replays survive
+ * restarts on a single server. Claims use exclusive file creation, so two requests
+ * with the same key can't both start.
+ */
+export class FileIdempotencyStore implements IdempotencyStore {
+  readonly name = 'file' as const;
+  private readonly dir: string;
+  private readonly ttlMs: number;
+
+  constructor(dir: string, ttlMs: number) {
+    this.dir = resolve(process.cwd(), dir);
+    this.ttlMs = ttlMs;
+  }
+
+  async get(scope: string, key: string): Promise<IdempotencyRecord | null> {
+    const recordPath = this.recordPath(scope, key);
+
+    let record: IdempotencyRecord;
+    try {
+      record = JSON.parse(await fs.readFile(recordPath, 'utf-8')) as IdempotencyRecord;
+    } catch {
+      return null;
+    }
+
+    if (record.expiresAt <= Date.now()) {
+      await fs.unlink(recordPath).catch(() => undefined);
+      return null;
+    }
+    return record;
+  }
+
+  async begin(scope: string, key: string, fingerprint?: string): Promise<boolean> {
+    // Clears an expired record so the exclusive create below can succeed
+    if (await this.get(scope, key)) {
+      return false;
+    }
+
+    const record: IdempotencyRecord = {
+      scope,
+      key,
+      fingerprint,
+      state: 'in_progress',
+      createdAt: new Date().toISOString(),
+      expiresAt: Date.now() + this.ttlMs,
+    };
+
+    await fs.mkdir(this.dir, { recursive: true });
+    try {
+      await fs.writeFile(this.recordPath(scope, key), JSON.stringify(record), { flag: 'wx' });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async complete(scope: string, key: string, response: StoredResponse): Promise<void> {
+    const record = await this.get(scope, key);
+    if (!record) return;
+
+    // Write then rename so a concurrent reader never sees a half-written file
+    const recordPath = this.recordPath(scope, key);
+    const tempPath = `${recordPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify({ ...record, state: 'completed', response }));
+    await fs.rename(tempPath, recordPath);
+  }
+
+  async release(scope: string, key: string): Promise<void> {
+    await fs.unlink(this.recordPath(scope, key)).catch(() => undefined);
+  }
+
+  // Keys are client-supplied, so hash them rather than use them in paths
+  private recordPath(scope: string, key: string): string {
+    const digest = createHash('sha256').update(`${scope}\n${key}`).digest('hex');
+    return join(this.dir, `${digest}.json`);
+  }
+}
@@ -0,0 +1,45 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { LearnedMapping, LearningScope, LearningStore } from './learning-store';
+
+/**
+ * Stores each user's mappings as `<dir>/<company id>/<sha256 of user>.json`, and the
+ * company's shared mappings as `shared.json` next to them
+ */
+export class FileLearningStore implements LearningStore {
+  readonly name = 'file' as const;
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = resolve(process.cwd(), dir);
+  }
+
+  async list(scope: LearningScope): Promise<LearnedMapping[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.scopePath(scope), 'utf-8')) as LearnedMapping[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async save(scope: LearningScope, mappings: LearnedMapping[]): Promise<void> {
+    const scopePath = this.scopePath(scope);
+    await fs.mkdir(join(this.dir, scope.companyId), { recursive: true });
+    // Write then rename so a concurrent reader never sees a half-written file
+    const tempPath = `${scopePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(mappings));
+    await fs.rename(tempPath, scopePath);
+  }
+
+  // Company ids are validated before they reach the store; user names are free text, so hash them
+  private scopePath(scope: LearningScope): string {
+    const fileName = scope.userId === undefined
+      ? 'shared'
+      : createHash('sha256').update(scope.userId).digest('hex');
+    return join(this.dir, scope.companyId, `${fileName}.json`);
+  }
+}
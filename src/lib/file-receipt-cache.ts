@@ -0,0 +1,54 @@
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import type { ExtractedReceiptData } from './textract-service';
+import { CachedAnalysis, ReceiptCache } from './receipt-cache';
+
+/**
+ * Stores each analysis as `<dir>/<sha256>.json` so results survive restarts
+ * on a single server. Expired files are removed when they are next read.
+ */
+export class FileReceiptCache implements ReceiptCache {
+  readonly name = 'file' as const;
+  private readonly dir: string;
+  private readonly ttlMs: number;
+
+  constructor(dir: string, ttlMs: number) {
+    this.dir = resolve(process.cwd(), dir);
+    this.ttlMs = ttlMs;
+  }
+
+  async get(contentHash: string): Promise<CachedAnalysis | null> {
+    const entryPath = this.entryPath(contentHash);
+
+    let entry: CachedAnalysis;
+    try {
+      entry = JSON.parse(await fs.readFile(entryPath, 'utf-8')) as CachedAnalysis;
+    } catch {
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      await fs.unlink(entryPath).catch(() => undefined);
+      return null;
+    }
+    return entry;
+  }
+
+  async set(contentHash: string, documents: ExtractedReceiptData[]): Promise<void> {
+    const entry: CachedAnalysis = {
+      documents,
+      cachedAt: new Date().toISOString(),
+      expiresAt: Date.now() + this.ttlMs,
+    };
+
+    await fs.mkdir(this.dir, { recursive: true });
+    // Write then rename so a concurrent reader never sees a half-written file
+    const tempPath = `${this.entryPath(contentHash)}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entry));
+    await fs.rename(tempPath, this.entryPath(contentHash));
+  }
+
+  private entryPath(contentHash: string): string {
+    return join(this.dir, `${contentHash}.json`);
+  }
+}
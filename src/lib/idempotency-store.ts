@@ -0,0 +1,59 @@
+import { MemoryIdempotencyStore } from './memory-idempotency-store';
+import { FileIdempotencyStore } from './file-idempotency-store';
+
+export type IdempotencyStoreName = 'memory' | 'file';
+
+export interface StoredResponse {
+  status: number;
+  body: unknown; // Parsed JSON body
+}
+
+export interface IdempotencyRecord {
+  scope: string; // Endpoint the key was used on, keys are only unique per endpoint
+  key: string;
+  // Hash of the request payload, to reject a key reused for a different request
+  fingerprint?: string;
+  state: 'in_progress' | 'completed';
+  response?: StoredResponse;
+  createdAt: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+export interface IdempotencyStore {
+  readonly name: IdempotencyStoreName;
+  get(scope: string, key: string): Promise<IdempotencyRecord | null>;
+  // Claims the key for a new request; false when a live record already exists
+  begin(scope: string, key: string, fingerprint?: string): Promise<boolean>;
+  complete(scope: string, key: string, response: StoredResponse): Promise<void>;
+  // Drops the claim so the request can be tried again (failed or crashed requests)
+  release(scope: string, key: string): Promise<void>;
+}
+
+export const IDEMPOTENCY_CONFIG = {
+  store: (process.env.MYNEW_IDEMPOTENCY_STORE || 'memory') as IdempotencyStoreName,
+  ttlSeconds: parseInt(process.env.MYNEW_IDEMPOTENCY_TTL_SECONDS || '86400', 10), // 1 day
+  dir: process.env.MYNEW_IDEMPOTENCY_DIR || '.cache/idempotency',
+};
+
+let activeStore: IdempotencyStore | null = null;
+
+export function getIdempotencyStore(): IdempotencyStore {
+  if (!activeStore) {
+    activeStore = createIdempotencyStore(IDEMPOTENCY_CONFIG.store);
+    console.log(`[IdempotencyStore] Using "${activeStore.name}" idempotency store (window ${IDEMPOTENCY_CONFIG.ttlSeconds}s)`);
+  }
+  return activeStore;
+}
+
+export function createIdempotencyStore(name: IdempotencyStoreName): IdempotencyStore {
+  const ttlMs = IDEMPOTENCY_CONFIG.ttlSeconds * 1000;
+
+  switch (name) {
+    case 'memory':
+      return new MemoryIdempotencyStore(ttlMs);
+    case 'file':
+      return new FileIdempotencyStore(IDEMPOTENCY_CONFIG.dir, ttlMs);
+    default:
+      throw new Error(`Unknown idempotency store: ${name}. Expected "memory" or "file".`);
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getIdempotencyStore, IdempotencyRecord, IdempotencyStore } from './idempotency-store';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+// Set on responses replayed from an earlier request with the same key
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+const MAX_KEY_LENGTH = 255;
+
+export interface IdempotencyOptions {
+  // Hash of the request payload; a key reused with a different payload is rejected
+  fingerprint?: string;
+  // Called when a stored response is returned instead of running the handler
+  onReplay?: (record: IdempotencyRecord) => Promise<void> | void;
+  store?: IdempotencyStore;
+}
+
+/**
+ * Runs a route handler at most once per Idempotency-Key header within the configured
+ * window. Repeats get the first response back; requests without the header run as usual.
+ * Server errors and 429s aren't kept, so a request that failed for a transient reason
+ * can be retried with the same key.
+ */
+export async function withIdempotency(
+  request: NextRequest,
+  scope: string,
+  handler: () => Promise<NextResponse>,
+  options: IdempotencyOptions = {}
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER)?.trim();
+  if (!key) {
+    return handler();
+  }
+  if (key.length > MAX_KEY_LENGTH) {
+    return NextResponse.json(
+      { error: `${IDEMPOTENCY_KEY_HEADER} must be at most ${MAX_KEY_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const store = options.store || getIdempotencyStore();
+
+  if (!await store.begin(scope, key, options.fingerprint)) {
+    const existing = await store.get(scope, key);
+    if (existing) {
+      return replay(existing, options);
+    }
+    // The earlier request released its claim in the meantime; treat this one as new
+    if (!await store.begin(scope, key, options.fingerprint)) {
+      return inProgressResponse();
+    }
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    await store.release(scope, key);
+    throw error;
+  }
+
+  if (response.status >= 500 || response.status === 429) {
+    await store.release(scope, key);
+    return response;
+  }
+
+  try {
+    const body = await response.clone().json();
+    await store.complete(scope, key, { status: response.status, body });
+  } catch (error) {
+    // Never fail a request that succeeded because its result couldn't be stored
+    console.warn(`[Idempotency] Could not store response for ${scope} key ${key}:`, error);
+    await store.release(scope, key).catch(() => undefined);
+  }
+  return response;
+}
+
+async function replay(record: IdempotencyRecord, options: IdempotencyOptions): Promise<NextResponse> {
+  if (record.fingerprint && options.fingerprint && record.fingerprint !== options.fingerprint) {
+    return NextResponse.json(
+      { error: `${IDEMPOTENCY_KEY_HEADER} was already used for a different request` },
+      { status: 422 }
+    );
+  }
+
+  if (record.state !== 'completed' || !record.response) {
+    return inProgressResponse();
+  }
+
+  console.log(`[Idempotency] Replaying ${record.scope} response for key ${record.key}`);
+  await options.onReplay?.(record);
+  return NextResponse.json(record.response.body, {
+    status: record.response.status,
+    headers: { [IDEMPOTENT_REPLAY_HEADER]: 'true' },
+  });
+}
+
+function inProgressResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'A request with this Idempotency-Key is still being processed' },
+    { status: 409, headers: { 'Retry-After': '2' } }
+  );
+}
@@ -0,0 +1,53 @@
+// Width and height the image is scaled to; each row gives HASH_SIZE bits
+const HASH_SIZE = 8;
+
+/**
+ * Perceptual hashes of receipt images, computed in the browser with a canvas. Similar
+ * images get hashes that differ in few bits, see ReceiptDuplicates.hammingDistance.
+ */
+export class ImageHash {
+  /**
+   * Difference hash: the image is scaled to 9x8 grayscale pixels and each bit says
+   * whether a pixel is brighter than its right-hand neighbour. Returns 16 hex digits,
+   * or null for anything the browser can't draw (PDFs, broken images).
+   */
+  static async dHash(imageUrl: string): Promise<string | null> {
+    try {
+      const image = await this.load(imageUrl);
+      const canvas = document.createElement('canvas');
+      canvas.width = HASH_SIZE + 1;
+      canvas.height = HASH_SIZE;
+      const context = canvas.getContext('2d');
+      if (!context) return null;
+
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+      const brightness = (x: number, y: number) => {
+        const offset = (y * canvas.width + x) * 4;
+        return 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+      };
+
+      let hash = '';
+      for (let y = 0; y < HASH_SIZE; y++) {
+        let row = 0;
+        for (let x = 0; x < HASH_SIZE; x++) {
+          row = (row << 1) | (brightness(x, y) > brightness(x + 1, y) ? 1 : 0);
+        }
+        hash += row.toString(16).padStart(2, '0');
+      }
+      return hash;
+    } catch (error) {
+      console.warn('[ImageHash] Could not hash image:', error);
+      return null;
+    }
+  }
+
+  private static load(imageUrl: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error('Image failed to load'));
+      image.src = imageUrl;
+    });
+  }
+}
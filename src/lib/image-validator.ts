@@ -10,6 +10,7 @@ export interface ValidationResult {
     height?: number;
     size?: number;
     aspectRatio?: number;
+    pageCount?: number;
   };
 }
 
@@ -264,6 +265,7 @@ export class ImageValidator {
       height?: number;
       size?: number;
       aspectRatio?: number;
+      pageCount?: number;
     } = {
       size: buffer.length,
     };
@@ -338,6 +340,12 @@ export class ImageValidator {
       }
     }
 
+    // 4. Count PDF pages so multi-page documents can use Textract's asynchronous API
+    if (actualFormat === 'pdf') {
+      metadata.pageCount = this.countPdfPages(buffer);
+      console.log(`[Server] PDF page count: ${metadata.pageCount}`);
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -345,4 +353,13 @@ export class ImageValidator {
       metadata
     };
   }
+
+  /**
+   * Approximate PDF page count from "/Type /Page" objects (excludes "/Type /Pages")
+   */
+  static countPdfPages(buffer: Uint8Array): number {
+    const content = new TextDecoder('latin1').decode(buffer);
+    const matches = content.match(/\/Type\s*\/Page(?![a-zA-Z])/g);
+    return Math.max(matches?.length || 0, 1);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,49 @@
+// Browser side of the category learning store; must not import server-only modules
+
+export interface LearningCorrectionFields {
+  companyId?: string;
+  employeeName?: string;
+  merchant: string;
+  category?: string;
+  description?: string;
+}
+
+// Purpose text is learned once typing has paused, not on every keystroke
+const TYPING_DELAY_MS = 2000;
+
+/**
+ * Reports the categories and purposes users pick, so the next receipt from the same
+ * merchant is pre-filled. Failures are only logged; learning never blocks editing.
+ */
+export class LearningClient {
+  private static readonly pending = new Map<string, ReturnType<typeof setTimeout>>();
+
+  // Without an employee name there is no user to learn for
+  static async record(fields: LearningCorrectionFields): Promise<void> {
+    if (!fields.merchant.trim() || !fields.employeeName?.trim()) return;
+
+    try {
+      const response = await fetch('/api/learning/corrections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fields),
+      });
+      if (!response.ok) {
+        console.warn('[LearningClient] Correction not recorded:', response.status);
+      }
+    } catch (error) {
+      console.warn('[LearningClient] Correction not recorded:', error);
+    }
+  }
+
+  // Records after TYPING_DELAY_MS, replacing a pending correction with the same key
+  static recordLater(key: string, fields: LearningCorrectionFields) {
+    const timer = this.pending.get(key);
+    if (timer) clearTimeout(timer);
+
+    this.pending.set(key, setTimeout(() => {
+      this.pending.delete(key);
+      void this.record(fields);
+    }, TYPING_DELAY_MS));
+  }
+}
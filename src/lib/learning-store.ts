@@ -0,0 +1,58 @@
+import { MemoryLearningStore } from './memory-learning-store';
+import { FileLearningStore } from './file-learning-store';
+
+export type LearningStoreName = 'memory' | 'file';
+
+// Receipt fields the app learns per merchant from what users pick or type
+export type LearnedField = 'category' | 'description';
+
+export interface LearnedMapping {
+  merchantKey: string; // Normalized merchant name, see CategoryLearningService.merchantKeyOf
+  merchant: string; // Merchant as last written on a receipt
+  field: LearnedField;
+  value: string;
+  count: number; // Times a user chose this value for the merchant
+  lastUsedAt: string;
+}
+
+export interface LearningScope {
+  companyId: string;
+  userId?: string; // Absent for mappings shared by the whole company
+}
+
+export interface LearningStore {
+  readonly name: LearningStoreName;
+  list(scope: LearningScope): Promise<LearnedMapping[]>;
+  // Replaces every mapping of the scope
+  save(scope: LearningScope, mappings: LearnedMapping[]): Promise<void>;
+}
+
+export const LEARNING_CONFIG = {
+  store: (process.env.MYNEW_LEARNING_STORE || 'file') as LearningStoreName,
+  dir: process.env.MYNEW_LEARNING_DIR || '.learning',
+  // A mapping's weight halves every this many days without use (default: 30)
+  halfLifeDays: parseFloat(process.env.MYNEW_LEARNING_HALF_LIFE_DAYS || '30'),
+  // Least useful mappings are dropped beyond this many per user (default: 2000)
+  maxMappingsPerScope: parseInt(process.env.MYNEW_LEARNING_MAX_MAPPINGS || '2000', 10),
+};
+
+let activeStore: LearningStore | null = null;
+
+export function getLearningStore(): LearningStore {
+  if (!activeStore) {
+    activeStore = createLearningStore(LEARNING_CONFIG.store);
+    console.log(`[LearningStore] Using "${activeStore.name}" learning store`);
+  }
+  return activeStore;
+}
+
+export function createLearningStore(name: LearningStoreName): LearningStore {
+  switch (name) {
+    case 'memory':
+      return new MemoryLearningStore();
+    case 'file':
+      return new FileLearningStore(LEARNING_CONFIG.dir);
+    default:
+      throw new Error(`Unknown learning store: ${name}. Expected "memory" or "file".`);
+  }
+}
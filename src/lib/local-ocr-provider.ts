@@ -0,0 +1,52 @@
+import { ExpenseDocument } from '@aws-sdk/client-textract';
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { OcrDocument, OcrProvider } from './ocr-provider';
+import { ContentHash } from './content-hash';
+
+/**
+ * Replays recorded Textract ExpenseDocument JSON keyed by the SHA-256 of the image.
+ * Fixtures live at `<fixturesDir>/<sha256>.json` and may hold either the bare
+ * ExpenseDocuments array or a full AnalyzeExpense response.
+ */
+export class LocalOcrProvider implements OcrProvider {
+  readonly name = 'local' as const;
+  readonly requiresStorage = false;
+  private readonly fixturesDir: string;
+
+  constructor(fixturesDir: string) {
+    this.fixturesDir = resolve(process.cwd(), fixturesDir);
+  }
+
+  async analyzeExpense(document: OcrDocument): Promise<ExpenseDocument[]> {
+    if (!document.bytes) {
+      throw new Error('Local OCR provider requires the document bytes');
+    }
+
+    const hash = ContentHash.sha256(document.bytes);
+    const fixturePath = this.fixturePath(hash);
+    console.log('[LocalOcrProvider] Looking up fixture:', fixturePath);
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(fixturePath, 'utf-8');
+    } catch {
+      throw new Error(`No OCR fixture recorded for image hash ${hash} (expected ${fixturePath})`);
+    }
+
+    const parsed = JSON.parse(contents) as ExpenseDocument[] | { ExpenseDocuments?: ExpenseDocument[] };
+    return Array.isArray(parsed) ? parsed : parsed.ExpenseDocuments || [];
+  }
+
+  async saveFixture(bytes: Uint8Array, expenseDocuments: ExpenseDocument[]): Promise<string> {
+    const fixturePath = this.fixturePath(ContentHash.sha256(bytes));
+    await fs.mkdir(this.fixturesDir, { recursive: true });
+    await fs.writeFile(fixturePath, JSON.stringify(expenseDocuments, null, 2));
+    console.log('[LocalOcrProvider] Recorded fixture:', fixturePath);
+    return fixturePath;
+  }
+
+  private fixturePath(hash: string): string {
+    return join(this.fixturesDir, `${hash}.json`);
+  }
+}
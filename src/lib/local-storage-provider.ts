@@ -0,0 +1,197 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import { dirname, join, relative, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import {
+  PutObjectInput,
+  SignedUrlOptions,
+  STORAGE_CONFIG,
+  StorageObjectNotFoundError,
+  StorageProvider,
+  StoredObject,
+  StoredObjectStream,
+  StoredObjectSummary,
+  UploadResult,
+} from './storage-provider';
+
+// Upload constraints a signed PUT URL was issued for
+export interface SignedUploadConstraints {
+  contentType?: string;
+  contentLength?: number;
+}
+
+interface ObjectMetadataFile {
+  contentType?: string;
+  metadata: Record<string, string>;
+}
+
+// Sidecar metadata lives outside the object tree so list() only sees real objects
+const METADATA_DIR = '.metadata';
+
+// Without a configured secret, signed URLs only stay valid for the life of the process
+const signingSecret = STORAGE_CONFIG.signingSecret || randomBytes(32).toString('hex');
+
+/**
+ * Stores objects as plain files under a directory, for self-hosting and running
+ * without AWS. Signed URLs point at /api/storage/<key> and carry an HMAC signature.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local' as const;
+  readonly bucket = 'local';
+  readonly textractReadable = false;
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = resolve(process.cwd(), rootDir);
+  }
+
+  async put(input: PutObjectInput): Promise<UploadResult> {
+    const objectPath = this.objectPath(input.key);
+    const metadataPath = this.metadataPath(input.key);
+
+    await fs.mkdir(dirname(objectPath), { recursive: true });
+    await fs.mkdir(dirname(metadataPath), { recursive: true });
+    await fs.writeFile(objectPath, input.body);
+
+    const metadataFile: ObjectMetadataFile = { contentType: input.contentType, metadata: input.metadata || {} };
+    await fs.writeFile(metadataPath, JSON.stringify(metadataFile));
+
+    return { key: input.key, bucket: this.bucket };
+  }
+
+  async get(key: string): Promise<StoredObject> {
+    let body: Buffer;
+    try {
+      body = await fs.readFile(this.objectPath(key));
+    } catch {
+      throw new StorageObjectNotFoundError(key);
+    }
+
+    const metadataFile = await this.readMetadata(key);
+    return { body: new Uint8Array(body), contentType: metadataFile.contentType, metadata: metadataFile.metadata };
+  }
+
+  async getStream(key: string): Promise<StoredObjectStream> {
+    const objectPath = this.objectPath(key);
+
+    let size: number;
+    try {
+      size = (await fs.stat(objectPath)).size;
+    } catch {
+      throw new StorageObjectNotFoundError(key);
+    }
+
+    const metadataFile = await this.readMetadata(key);
+    return {
+      stream: Readable.toWeb(createReadStream(objectPath)) as ReadableStream<Uint8Array>,
+      contentType: metadataFile.contentType,
+      contentLength: size,
+      metadata: metadataFile.metadata,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.objectPath(key), { force: true });
+    await fs.rm(this.metadataPath(key), { force: true });
+  }
+
+  async list(prefix: string): Promise<StoredObjectSummary[]> {
+    const objects: StoredObjectSummary[] = [];
+
+    const walk = async (dir: string) => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+
+      for (const entry of entries) {
+        const entryPath = join(dir, entry.name);
+        if (entry.isDirectory()) {
+          if (dir === this.rootDir && entry.name === METADATA_DIR) continue;
+          await walk(entryPath);
+          continue;
+        }
+
+        const key = relative(this.rootDir, entryPath).split(sep).join('/');
+        if (key.startsWith(prefix)) {
+          const stats = await fs.stat(entryPath);
+          objects.push({ key, size: stats.size, lastModified: stats.mtime });
+        }
+      }
+    };
+
+    await walk(this.rootDir);
+    return objects.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const method = options.method || 'GET';
+    const expires = Math.floor(Date.now() / 1000) + (options.expiresInSeconds ?? STORAGE_CONFIG.signedUrlTtlSeconds);
+    const constraints: SignedUploadConstraints = method === 'PUT'
+      ? { contentType: options.contentType, contentLength: options.contentLength }
+      : {};
+    const params = LocalStorageProvider.signedQuery(method, key, expires, constraints);
+
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return `${STORAGE_CONFIG.publicBaseUrl}/api/storage/${encodedKey}?${params.toString()}`;
+  }
+
+  // Query string of a signed URL for `key`; also signs the archive download links
+  static signedQuery(method: string, key: string, expires: number, constraints: SignedUploadConstraints = {}): URLSearchParams {
+    const params = new URLSearchParams({
+      method,
+      expires: expires.toString(),
+    });
+    if (constraints.contentType) params.set('contentType', constraints.contentType);
+    if (constraints.contentLength !== undefined) params.set('contentLength', constraints.contentLength.toString());
+    params.set('signature', this.sign(method, key, expires, constraints));
+    return params;
+  }
+
+  /**
+   * Checks a signature produced by getSignedUrl, used by the /api/storage route. The
+   * route still has to check the uploaded body against the signed constraints.
+   */
+  static verifySignature(method: string, key: string, expires: number, signature: string, constraints: SignedUploadConstraints = {}): boolean {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(method, key, expires, constraints), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private static sign(method: string, key: string, expires: number, constraints: SignedUploadConstraints = {}): string {
+    const payload = [method, key, expires, constraints.contentType || '', constraints.contentLength ?? ''].join('\n');
+    return createHmac('sha256', signingSecret).update(payload).digest('hex');
+  }
+
+  private async readMetadata(key: string): Promise<ObjectMetadataFile> {
+    try {
+      return JSON.parse(await fs.readFile(this.metadataPath(key), 'utf-8')) as ObjectMetadataFile;
+    } catch {
+      // Objects copied into the directory by hand have no sidecar
+      return { metadata: {} };
+    }
+  }
+
+  private objectPath(key: string): string {
+    return this.resolveInside(this.rootDir, key);
+  }
+
+  private metadataPath(key: string): string {
+    return this.resolveInside(join(this.rootDir, METADATA_DIR), `${key}.json`);
+  }
+
+  // Keys come from URLs, so never let "../" escape the storage directory
+  private resolveInside(baseDir: string, key: string): string {
+    const resolved = resolve(baseDir, key);
+    if (!key || key.startsWith('/') || !resolved.startsWith(baseDir + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+}
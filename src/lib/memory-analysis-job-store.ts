@@ -0,0 +1,46 @@
+import { AnalysisJob, AnalysisJobStatus, AnalysisJobStore, compareByCreation, isFinished } from './analysis-job-store';
+
+/**
+ * Keeps jobs in process memory. Jobs are lost on restart, so this is meant for
+ * development and tests; use the file store when jobs have to survive restarts.
+ */
+export class MemoryAnalysisJobStore implements AnalysisJobStore {
+  readonly name = 'memory' as const;
+  private readonly jobs = new Map<string, AnalysisJob>();
+
+  async get(id: string): Promise<AnalysisJob | null> {
+    const job = this.jobs.get(id);
+    return job ? structuredClone(job) : null;
+  }
+
+  async save(job: AnalysisJob): Promise<void> {
+    // Copy so callers mutating their job object don't change the stored one
+    this.jobs.set(job.id, structuredClone(job));
+  }
+
+  async listByBatch(batchId: string): Promise<AnalysisJob[]> {
+    return this.filter(job => job.batchId === batchId);
+  }
+
+  async listByStatus(status: AnalysisJobStatus): Promise<AnalysisJob[]> {
+    return this.filter(job => job.status === status);
+  }
+
+  async prune(completedBefore: Date): Promise<AnalysisJob[]> {
+    const removed: AnalysisJob[] = [];
+    for (const job of this.jobs.values()) {
+      if (isFinished(job) && job.completedAt && new Date(job.completedAt) < completedBefore) {
+        this.jobs.delete(job.id);
+        removed.push(job);
+      }
+    }
+    return removed;
+  }
+
+  private filter(predicate: (job: AnalysisJob) => boolean): AnalysisJob[] {
+    return Array.from(this.jobs.values())
+      .filter(predicate)
+      .sort(compareByCreation)
+      .map(job => structuredClone(job));
+  }
+}
@@ -0,0 +1,67 @@
+import { IdempotencyRecord, IdempotencyStore, StoredResponse } from './idempotency-store';
+
+/**
+ * Per-process store. Records are lost on restart and aren't shared between
+ * serverless instances; use the file store on a single long-running server.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  readonly name = 'memory' as const;
+  private readonly records = new Map<string, IdempotencyRecord>();
+  private readonly ttlMs: number;
+
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs;
+  }
+
+  async get(scope: string, key: string): Promise<IdempotencyRecord | null> {
+    const record = this.records.get(this.recordKey(scope, key));
+    if (!record) return null;
+
+    if (record.expiresAt <= Date.now()) {
+      this.records.delete(this.recordKey(scope, key));
+      return null;
+    }
+    return record;
+  }
+
+  async begin(scope: string, key: string, fingerprint?: string): Promise<boolean> {
+    this.evictExpired();
+    if (await this.get(scope, key)) {
+      return false;
+    }
+
+    this.records.set(this.recordKey(scope, key), {
+      scope,
+      key,
+      fingerprint,
+      state: 'in_progress',
+      createdAt: new Date().toISOString(),
+      expiresAt: Date.now() + this.ttlMs,
+    });
+    return true;
+  }
+
+  async complete(scope: string, key: string, response: StoredResponse): Promise<void> {
+    const record = this.records.get(this.recordKey(scope, key));
+    if (record) {
+      this.records.set(this.recordKey(scope, key), { ...record, state: 'completed', response });
+    }
+  }
+
+  async release(scope: string, key: string): Promise<void> {
+    this.records.delete(this.recordKey(scope, key));
+  }
+
+  // Map keeps insertion order, so stop at the first record that is still live
+  private evictExpired() {
+    const now = Date.now();
+    for (const [recordKey, record] of this.records) {
+      if (record.expiresAt > now) break;
+      this.records.delete(recordKey);
+    }
+  }
+
+  private recordKey(scope: string, key: string): string {
+    return `${scope}:${key}`;
+  }
+}
@@ -0,0 +1,22 @@
+import { LearnedMapping, LearningScope, LearningStore } from './learning-store';
+
+/**
+ * Per-process store. Learned mappings are lost on restart; use the file store to
+ * keep them.
+ */
+export class MemoryLearningStore implements LearningStore {
+  readonly name = 'memory' as const;
+  private readonly scopes = new Map<string, LearnedMapping[]>();
+
+  async list(scope: LearningScope): Promise<LearnedMapping[]> {
+    return structuredClone(this.scopes.get(this.scopeKey(scope)) || []);
+  }
+
+  async save(scope: LearningScope, mappings: LearnedMapping[]): Promise<void> {
+    this.scopes.set(this.scopeKey(scope), structuredClone(mappings));
+  }
+
+  private scopeKey(scope: LearningScope): string {
+    return `${scope.companyId}\n${scope.userId ?? ''}`;
+  }
+}
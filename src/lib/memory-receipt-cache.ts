@@ -0,0 +1,43 @@
+import type { ExtractedReceiptData } from './textract-service';
+import { CachedAnalysis, ReceiptCache } from './receipt-cache';
+
+/**
+ * Per-process cache. Entries are lost on restart and aren't shared between
+ * serverless instances, which is fine for catching quick re-uploads.
+ */
+export class MemoryReceiptCache implements ReceiptCache {
+  readonly name = 'memory' as const;
+  private readonly entries = new Map<string, CachedAnalysis>();
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+
+  constructor(ttlMs: number, maxEntries: number) {
+    this.ttlMs = ttlMs;
+    this.maxEntries = maxEntries;
+  }
+
+  async get(contentHash: string): Promise<CachedAnalysis | null> {
+    const entry = this.entries.get(contentHash);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(contentHash);
+      return null;
+    }
+    return entry;
+  }
+
+  async set(contentHash: string, documents: ExtractedReceiptData[]): Promise<void> {
+    // Map keeps insertion order, so the first key is the oldest entry
+    if (!this.entries.has(contentHash) && this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+
+    this.entries.set(contentHash, {
+      documents,
+      cachedAt: new Date().toISOString(),
+      expiresAt: Date.now() + this.ttlMs,
+    });
+  }
+}
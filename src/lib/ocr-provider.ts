@@ -0,0 +1,48 @@
+import { ExpenseDocument } from '@aws-sdk/client-textract';
+import type { UploadResult } from './storage-provider';
+import { TextractOcrProvider } from './textract-ocr-provider';
+import { LocalOcrProvider } from './local-ocr-provider';
+
+export type OcrProviderName = 'textract' | 'local';
+
+export interface OcrDocument {
+  bytes?: Uint8Array;
+  s3Object?: UploadResult;
+  pageCount?: number; // Multi-page PDFs need Textract's asynchronous API
+}
+
+export interface OcrProvider {
+  readonly name: OcrProviderName;
+  // Whether the provider reads the document from S3 (true) or only needs the raw bytes (false)
+  readonly requiresStorage: boolean;
+  analyzeExpense(document: OcrDocument): Promise<ExpenseDocument[]>;
+}
+
+export const OCR_CONFIG = {
+  provider: (process.env.MYNEW_OCR_PROVIDER || 'textract') as OcrProviderName,
+  fixturesDir: process.env.MYNEW_OCR_FIXTURES_DIR || 'fixtures/ocr',
+  recordFixtures: process.env.MYNEW_OCR_RECORD_FIXTURES === 'true',
+  asyncPollIntervalMs: parseInt(process.env.MYNEW_TEXTRACT_ASYNC_POLL_MS || '2000', 10),
+  asyncTimeoutMs: parseInt(process.env.MYNEW_TEXTRACT_ASYNC_TIMEOUT_MS || '55000', 10),
+};
+
+let activeProvider: OcrProvider | null = null;
+
+export function getOcrProvider(): OcrProvider {
+  if (!activeProvider) {
+    activeProvider = createOcrProvider(OCR_CONFIG.provider);
+    console.log(`[OcrProvider] Using "${activeProvider.name}" OCR provider`);
+  }
+  return activeProvider;
+}
+
+export function createOcrProvider(name: OcrProviderName): OcrProvider {
+  switch (name) {
+    case 'textract':
+      return new TextractOcrProvider();
+    case 'local':
+      return new LocalOcrProvider(OCR_CONFIG.fixturesDir);
+    default:
+      throw new Error(`Unknown OCR provider: ${name}. Expected "textract" or "local".`);
+  }
+}
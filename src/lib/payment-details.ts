@@ -0,0 +1,49 @@
+export interface PaymentDetails {
+  paymentMethod?: string;
+  cardLastFour?: string;
+}
+
+const PAYMENT_METHODS: Array<[RegExp, string]> = [
+  [/\b(amex|american\s*express)\b/i, 'Amex'],
+  [/\bvisa\b/i, 'Visa'],
+  [/\b(master\s*card|mc)\b/i, 'Mastercard'],
+  [/\bdiscover\b/i, 'Discover'],
+  [/\bapple\s*pay\b/i, 'Apple Pay'],
+  [/\bgoogle\s*pay\b/i, 'Google Pay'],
+  [/\bdebit\b/i, 'Debit'],
+  [/\bcash\b/i, 'Cash'],
+];
+
+const LAST_FOUR_PATTERNS: RegExp[] = [
+  /(?:[x*•#]{2,}[\s-]*)+(\d{4})\b/i, // XXXX1234, **** **** 1234, ##1234
+  /\bending\s+(?:in\s+)?(\d{4})\b/i,
+  /\b(?:card|acct|account)\s*(?:#|no\.?|number)?\s*:?\s*\.{0,3}(\d{4})\b/i,
+];
+
+// Labels Textract reports as OTHER that describe how the receipt was paid
+export const PAYMENT_LABEL_PATTERN = /card|visa|amex|master\s*card|discover|payment|tender|paid\s*by|acct/i;
+
+/**
+ * Reads the payment method and card last-four from receipt text such as
+ * "VISA XXXXXXXXXXXX1234" or "Card ending in 1234"
+ */
+export class PaymentDetailsParser {
+  static parse(text: string): PaymentDetails {
+    return {
+      paymentMethod: this.detectMethod(text),
+      cardLastFour: this.detectLastFour(text),
+    };
+  }
+
+  static detectMethod(text: string): string | undefined {
+    return PAYMENT_METHODS.find(([pattern]) => pattern.test(text))?.[1];
+  }
+
+  static detectLastFour(text: string): string | undefined {
+    for (const pattern of LAST_FOUR_PATTERNS) {
+      const match = text.match(pattern);
+      if (match) return match[1];
+    }
+    return undefined;
+  }
+}
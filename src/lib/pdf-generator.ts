@@ -2,6 +2,7 @@
 
 import { jsPDF } from 'jspdf';
 import { ExtractedReceiptData } from './textract-service';
+import { ReceiptNormalizer } from './receipt-normalizer';
 
 interface ReceiptEntry {
   id: string;
@@ -49,14 +50,7 @@ export class PDFGenerator {
     console.log(`[PDFGenerator] Current page count before receipts: ${pdf.getNumberOfPages()}`);
 
     // Sort receipts by date (exact same logic as Excel generator)
-    const sortedReceipts = [...options.receipts].sort((a, b) => {
-      if (!a.data.date && !b.data.date) return 0;
-      if (!a.data.date) return 1; // receipts without dates go to end
-      if (!b.data.date) return -1;
-      const dateA = new Date(a.data.date);
-      const dateB = new Date(b.data.date);
-      return dateA.getTime() - dateB.getTime();
-    });
+    const sortedReceipts = [...options.receipts].sort((a, b) => ReceiptNormalizer.compareByDate(a.data, b.data));
     
     console.log('[PDFGenerator] Receipts sorted by date');
 
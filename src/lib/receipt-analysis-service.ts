@@ -0,0 +1,326 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisPath, ExtractedReceiptData, TEXTRACT_MAX_BYTES, TextractService } from './textract-service';
+import { ImageValidator, ValidationResult } from './image-validator';
+import { ContentHash } from './content-hash';
+import { getReceiptCache, ReceiptCache } from './receipt-cache';
+import { getStorageProvider, StorageObjectNotFoundError, StorageProvider, UploadResult } from './storage-provider';
+import { DirectUploadService } from './direct-upload';
+import { ArchiveContext, ArchivedReceipt, ReceiptArchive } from './receipt-archive';
+import { CompanyConfigService } from './company-config';
+import { CategoryLearningService } from './category-learning';
+import { ReceiptCategorizer } from './receipt-categorizer';
+
+export interface ReceiptUpload {
+  bytes: Uint8Array;
+  fileName: string;
+  contentType: string;
+  // Set when the file is already in storage (browser-direct uploads), so it isn't uploaded again
+  storedKey?: string;
+}
+
+export interface ReceiptAnalysisResult {
+  documents: ExtractedReceiptData[];
+  contentHash: string;
+  analysisPath: AnalysisPath;
+  cached: boolean;
+  cachedAt?: string;
+  archive?: ArchivedReceipt;
+  validation: ValidationResult;
+}
+
+// Progress milestones reported while an analysis runs, used for live batch status
+export type AnalysisProgressStage = 'validated' | 'analyzing';
+
+export type AnalysisProgressListener = (stage: AnalysisProgressStage) => void;
+
+export interface StoredAnalysisOptions {
+  archiveContext?: ArchiveContext;
+  onProgress?: AnalysisProgressListener;
+  // Leave the upload in storage when the analysis fails, so it can be retried
+  keepUploadOnFailure?: boolean;
+}
+
+export interface ReceiptAnalysisDependencies {
+  storage: StorageProvider;
+  cache: ReceiptCache;
+  archive: ReceiptArchive | null;
+  companyConfig: CompanyConfigService;
+  learning: CategoryLearningService;
+}
+
+export class ReceiptValidationError extends Error {
+  readonly status = 400;
+  readonly validation: ValidationResult;
+
+  constructor(validation: ValidationResult) {
+    super(`Image validation failed: ${validation.errors.join('; ')}`);
+    this.name = 'ReceiptValidationError';
+    this.validation = validation;
+  }
+}
+
+/**
+ * The document has to be read by Textract from S3 (multi-page or over the byte limit),
+ * but the configured storage is one Textract can't reach
+ */
+export class StorageNotReadableError extends Error {
+  readonly status = 422;
+
+  constructor(storageName: string) {
+    super(`This document needs S3 storage that Textract can read, but the "${storageName}" storage provider is configured`);
+    this.name = 'StorageNotReadableError';
+  }
+}
+
+export class StoredUploadNotFoundError extends Error {
+  readonly status = 404;
+
+  constructor(key: string) {
+    super(`No uploaded receipt found for key ${key}`);
+    this.name = 'StoredUploadNotFoundError';
+  }
+}
+
+/**
+ * Validate -> archive (when retention is on) -> cache lookup -> OCR (inline bytes or
+ * via storage) -> cache store -> category suggestions. Storage and cache are
+ * injectable so the pipeline can run without AWS.
+ */
+export class ReceiptAnalysisService {
+  private readonly storage: StorageProvider;
+  private readonly cache: ReceiptCache;
+  private readonly archive: ReceiptArchive | null;
+  private readonly companyConfig: CompanyConfigService;
+  private readonly learning: CategoryLearningService;
+
+  constructor(dependencies: Partial<ReceiptAnalysisDependencies> = {}) {
+    this.storage = dependencies.storage || getStorageProvider();
+    this.cache = dependencies.cache || getReceiptCache();
+    this.archive = dependencies.archive !== undefined
+      ? dependencies.archive
+      : ReceiptArchive.enabled ? new ReceiptArchive(this.storage) : null;
+    this.companyConfig = dependencies.companyConfig || new CompanyConfigService();
+    this.learning = dependencies.learning || new CategoryLearningService();
+  }
+
+  async validate(bytes: Uint8Array): Promise<ValidationResult> {
+    const validation = await ImageValidator.validateImageBuffer(bytes);
+
+    console.log('Validation result:', {
+      isValid: validation.isValid,
+      errors: validation.errors,
+      warnings: validation.warnings,
+      metadata: validation.metadata
+    });
+
+    // Log warnings but continue processing
+    if (validation.warnings.length > 0) {
+      console.warn('Validation warnings:', validation.warnings);
+    }
+    return validation;
+  }
+
+  /**
+   * Analyzes an upload, validating it first unless the caller already has. With
+   * retention enabled the original is archived under the given company/report.
+   */
+  async analyze(
+    upload: ReceiptUpload,
+    validation?: ValidationResult,
+    archiveContext: ArchiveContext = {},
+    onProgress?: AnalysisProgressListener
+  ): Promise<ReceiptAnalysisResult> {
+    const validationResult = validation || await this.validate(upload.bytes);
+    if (!validationResult.isValid) {
+      throw new ReceiptValidationError(validationResult);
+    }
+    onProgress?.('validated');
+
+    // Identical bytes give identical results, so skip storage and OCR for files we've already analyzed
+    const contentHash = ContentHash.sha256(upload.bytes);
+
+    const cached = await this.readCache(contentHash);
+
+    // Archive before OCR can fail, so an original is never lost to an OCR error
+    const archive = this.archive ? await this.archive.store(upload, contentHash, archiveContext) : undefined;
+
+    if (cached) {
+      console.log(`Cache hit for ${contentHash} (analyzed ${cached.cachedAt})`);
+      return {
+        documents: await this.suggestCategories(cached.documents, archiveContext),
+        contentHash,
+        analysisPath: 'cache',
+        cached: true,
+        cachedAt: cached.cachedAt,
+        archive,
+        validation: validationResult,
+      };
+    }
+
+    const analysisPath = this.selectAnalysisPath(upload.bytes.length, validationResult);
+    console.log(`Analysis path: ${analysisPath}`);
+    onProgress?.('analyzing');
+
+    const documents = analysisPath === 'bytes'
+      ? await TextractService.analyzeExpenseFromBuffer(upload.bytes)
+      : await this.analyzeFromStorage(upload, validationResult, archive);
+    console.log(`OCR analysis successful (${documents.length} document(s))`);
+
+    await this.writeCache(contentHash, documents);
+
+    return {
+      documents: await this.suggestCategories(documents, archiveContext),
+      contentHash,
+      analysisPath,
+      cached: false,
+      archive,
+      validation: validationResult,
+    };
+  }
+
+  /**
+   * Analyzes a file the browser uploaded straight to storage with a presigned URL.
+   * The bytes are read back and validated here, since the client could have sent anything.
+   */
+  async analyzeStored(key: string, fileName: string, options: StoredAnalysisOptions = {}): Promise<ReceiptAnalysisResult> {
+    if (!DirectUploadService.isUploadKey(key)) {
+      throw new StoredUploadNotFoundError(key);
+    }
+
+    let stored;
+    try {
+      stored = await this.storage.get(key);
+    } catch (error) {
+      if (error instanceof StorageObjectNotFoundError) {
+        throw new StoredUploadNotFoundError(key);
+      }
+      throw error;
+    }
+
+    let succeeded = false;
+    try {
+      const result = await this.analyze({
+        bytes: stored.body,
+        fileName: fileName || key.split('/').pop() || key,
+        contentType: stored.contentType || 'application/octet-stream',
+        storedKey: key,
+      }, undefined, options.archiveContext, options.onProgress);
+      succeeded = true;
+      return result;
+    } finally {
+      if (succeeded || !options.keepUploadOnFailure) {
+        await this.deleteUpload(key);
+      }
+    }
+  }
+
+  /**
+   * Removes a file from the uploads area; failures are only logged
+   */
+  async deleteUpload(key: string): Promise<void> {
+    try {
+      await this.storage.delete(key);
+    } catch (cleanupError) {
+      console.error(`Error cleaning up uploaded file ${key}:`, cleanupError);
+    }
+  }
+
+  private selectAnalysisPath(byteLength: number, validation: ValidationResult): Exclude<AnalysisPath, 'cache'> {
+    const preferred = TextractService.selectAnalysisPath(byteLength, validation.metadata?.format);
+    if (preferred === 'bytes' || this.storage.textractReadable) {
+      return preferred;
+    }
+
+    // Single-page documents within the byte limit can still be sent inline
+    if (byteLength <= TEXTRACT_MAX_BYTES && (validation.metadata?.pageCount || 1) <= 1) {
+      return 'bytes';
+    }
+    throw new StorageNotReadableError(this.storage.name);
+  }
+
+  private async analyzeFromStorage(upload: ReceiptUpload, validation: ValidationResult, archive?: ArchivedReceipt): Promise<ExtractedReceiptData[]> {
+    // Textract can read the archived original directly, and it must outlive the analysis
+    if (archive) {
+      const archivedObject: UploadResult = { key: archive.key, bucket: this.storage.bucket };
+      return TextractService.analyzeExpense(archivedObject, upload.bytes, validation.metadata?.pageCount);
+    }
+
+    // Browser-direct uploads are already in storage and cleaned up by analyzeStored
+    if (upload.storedKey) {
+      const uploadedObject: UploadResult = { key: upload.storedKey, bucket: this.storage.bucket };
+      return TextractService.analyzeExpense(uploadedObject, upload.bytes, validation.metadata?.pageCount);
+    }
+
+    const fileExtension = upload.fileName.split('.').pop() || 'bin';
+
+    console.log('Starting storage upload...');
+    const storedObject = await this.storage.put({
+      key: `receipts/${uuidv4()}.${fileExtension}`,
+      body: upload.bytes,
+      contentType: upload.contentType,
+      metadata: {
+        originalName: upload.fileName,
+        uploadedAt: new Date().toISOString(),
+      },
+    });
+    console.log('Storage upload successful:', storedObject);
+
+    try {
+      return await TextractService.analyzeExpense(storedObject, upload.bytes, validation.metadata?.pageCount);
+    } finally {
+      try {
+        await this.storage.delete(storedObject.key);
+        console.log('Storage cleanup successful');
+      } catch (cleanupError) {
+        // Never fail (or mask the real error of) an analysis over a leftover object
+        console.error(`Error cleaning up stored file ${storedObject.key}:`, cleanupError);
+      }
+    }
+  }
+
+  /**
+   * Suggestions depend on the company's current rules and the user's earlier choices,
+   * so they are applied after the cache and never stored in it. What the user picked
+   * before for the merchant wins over the rules.
+   */
+  private async suggestCategories(documents: ExtractedReceiptData[], context: ArchiveContext): Promise<ExtractedReceiptData[]> {
+    try {
+      const config = await this.companyConfig.get(context.companyId);
+      const labels = CompanyConfigService.enabledCategories(config).map(category => category.label);
+      const scope = CategoryLearningService.scopeFor(config.companyId, context.employeeName);
+      const learned = await this.learning.apply(documents, scope, labels);
+      return ReceiptCategorizer.apply(learned, config);
+    } catch (error) {
+      // Suggestions are a convenience; the user can still pick categories by hand
+      console.warn('Category suggestions unavailable:', error);
+      return documents;
+    }
+  }
+
+  // Cache failures should never fail the upload, so they are only logged
+  private async readCache(contentHash: string) {
+    try {
+      return await this.cache.get(contentHash);
+    } catch (error) {
+      console.warn('[ReceiptCache] Lookup failed:', error);
+      return null;
+    }
+  }
+
+  private async writeCache(contentHash: string, documents: ExtractedReceiptData[]) {
+    try {
+      await this.cache.set(contentHash, documents);
+    } catch (error) {
+      console.warn('[ReceiptCache] Could not store analysis:', error);
+    }
+  }
+}
+
+let defaultService: ReceiptAnalysisService | null = null;
+
+export function getReceiptAnalysisService(): ReceiptAnalysisService {
+  if (!defaultService) {
+    defaultService = new ReceiptAnalysisService();
+  }
+  return defaultService;
+}
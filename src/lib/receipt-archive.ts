@@ -0,0 +1,141 @@
+import type { ReceiptUpload } from './receipt-analysis-service';
+import type { ReceiptRecord } from './expense-repository';
+import { LocalStorageProvider } from './local-storage-provider';
+import { getStorageProvider, STORAGE_CONFIG, StorageProvider, StoredObjectStream } from './storage-provider';
+
+export interface ArchiveContext {
+  companyId?: string;
+  reportId?: string;
+  employeeName?: string;
+}
+
+export interface ArchivedReceipt {
+  key: string;
+  contentHash: string;
+  archivedAt: string;
+  retainUntil: string;
+  url?: string; // Short-lived signed /api/archive link to the original; never stored
+}
+
+// Archived originals only; temporary analysis uploads live under receipts/
+export const ARCHIVE_PREFIX = 'archive/';
+
+export const ARCHIVE_CONFIG = {
+  enabled: process.env.MYNEW_RECEIPT_RETENTION === 'true',
+  retentionYears: parseInt(process.env.MYNEW_RECEIPT_RETENTION_YEARS || '7', 10),
+  defaultCompanyId: process.env.MYNEW_DEFAULT_COMPANY_ID || 'default',
+};
+
+/**
+ * Keeps the original receipt files for auditors, under
+ * archive/{company}/{report}/{sha256}.{ext} in the configured storage
+ */
+export class ReceiptArchive {
+  private readonly storage: StorageProvider;
+
+  constructor(storage: StorageProvider = getStorageProvider()) {
+    this.storage = storage;
+  }
+
+  static get enabled(): boolean {
+    return ARCHIVE_CONFIG.enabled;
+  }
+
+  /**
+   * Keys are derived from the content hash, so the same file archived twice for a
+   * report is one object
+   */
+  static keyFor(context: ArchiveContext, contentHash: string, fileName: string): string {
+    const companyId = this.segment(context.companyId) || this.segment(ARCHIVE_CONFIG.defaultCompanyId) || 'default';
+    const reportId = this.segment(context.reportId) || 'unassigned';
+    const extension = this.segment(fileName.split('.').pop()?.toLowerCase()) || 'bin';
+    return `${ARCHIVE_PREFIX}${companyId}/${reportId}/${contentHash}.${extension}`;
+  }
+
+  static isArchiveKey(key: string): boolean {
+    return key.startsWith(ARCHIVE_PREFIX) && !key.split('/').includes('..');
+  }
+
+  // Writes the original unless it is already archived for this report
+  async store(upload: ReceiptUpload, contentHash: string, context: ArchiveContext): Promise<ArchivedReceipt> {
+    const key = ReceiptArchive.keyFor(context, contentHash, upload.fileName);
+    const existing = (await this.storage.list(key)).find(object => object.key === key);
+    if (existing) {
+      console.log(`[ReceiptArchive] ${upload.fileName} is already archived as ${key}`);
+      return ReceiptArchive.describe(key, contentHash, existing.lastModified || new Date());
+    }
+
+    const archivedAt = new Date();
+    const retainUntil = ReceiptArchive.retainUntilOf(archivedAt);
+
+    // S3 metadata must be ASCII, so free-text values are URI-encoded
+    await this.storage.put({
+      key,
+      body: upload.bytes,
+      contentType: upload.contentType,
+      metadata: {
+        originalName: encodeURIComponent(upload.fileName),
+        employee: encodeURIComponent(context.employeeName || ''),
+        reportId: context.reportId || '',
+        companyId: context.companyId || ARCHIVE_CONFIG.defaultCompanyId,
+        contentHash,
+        archivedAt: archivedAt.toISOString(),
+        retainUntil: retainUntil.toISOString(),
+      },
+    });
+    console.log(`[ReceiptArchive] Archived ${upload.fileName} as ${key}`);
+
+    return ReceiptArchive.describe(key, contentHash, archivedAt);
+  }
+
+  async open(key: string): Promise<StoredObjectStream> {
+    if (!ReceiptArchive.isArchiveKey(key)) {
+      throw new Error(`Not an archive key: ${key}`);
+    }
+    return this.storage.getStream(key);
+  }
+
+  /**
+   * Originals show card digits and names, so /api/archive only streams them for a
+   * signed link that expires, never for a bare key
+   */
+  static downloadUrlOf(key: string): string {
+    const expires = Math.floor(Date.now() / 1000) + STORAGE_CONFIG.signedUrlTtlSeconds;
+    const params = LocalStorageProvider.signedQuery('GET', key, expires);
+    return `/api/archive/${key.split('/').map(encodeURIComponent).join('/')}?${params.toString()}`;
+  }
+
+  static verifyDownload(key: string, expires: number, signature: string): boolean {
+    return this.isArchiveKey(key) && LocalStorageProvider.verifySignature('GET', key, expires, signature);
+  }
+
+  // Adds a fresh download link to each receipt with an archived image
+  static withImageUrls(receipts: ReceiptRecord[]): ReceiptRecord[] {
+    return receipts.map(receipt => {
+      const key = receipt.image?.storageKey;
+      if (!receipt.image || !key || !this.isArchiveKey(key)) return receipt;
+      return { ...receipt, image: { ...receipt.image, url: this.downloadUrlOf(key) } };
+    });
+  }
+
+  private static describe(key: string, contentHash: string, archivedAt: Date): ArchivedReceipt {
+    return {
+      key,
+      contentHash,
+      archivedAt: archivedAt.toISOString(),
+      retainUntil: this.retainUntilOf(archivedAt).toISOString(),
+      url: this.downloadUrlOf(key),
+    };
+  }
+
+  private static retainUntilOf(archivedAt: Date): Date {
+    const retainUntil = new Date(archivedAt);
+    retainUntil.setFullYear(retainUntil.getFullYear() + ARCHIVE_CONFIG.retentionYears);
+    return retainUntil;
+  }
+
+  // Company and report ids come from the client, so keep them to safe path segments
+  private static segment(value: string | undefined): string {
+    return (value || '').trim().replace(/[^A-Za-z0-9._-]/g, '-').replace(/^\.+/, '').slice(0, 100);
+  }
+}
@@ -0,0 +1,62 @@
+import type { ExtractedReceiptData } from './textract-service';
+import { MemoryReceiptCache } from './memory-receipt-cache';
+import { FileReceiptCache } from './file-receipt-cache';
+
+export type ReceiptCacheBackendName = 'memory' | 'file' | 'none';
+
+export interface CachedAnalysis {
+  documents: ExtractedReceiptData[];
+  cachedAt: string; // ISO timestamp of the original analysis
+  expiresAt: number; // Epoch milliseconds
+}
+
+export interface ReceiptCache {
+  readonly name: ReceiptCacheBackendName;
+  get(contentHash: string): Promise<CachedAnalysis | null>;
+  set(contentHash: string, documents: ExtractedReceiptData[]): Promise<void>;
+}
+
+export const RECEIPT_CACHE_CONFIG = {
+  backend: (process.env.MYNEW_RECEIPT_CACHE || 'memory') as ReceiptCacheBackendName,
+  ttlSeconds: parseInt(process.env.MYNEW_RECEIPT_CACHE_TTL_SECONDS || '604800', 10), // 7 days
+  dir: process.env.MYNEW_RECEIPT_CACHE_DIR || '.cache/receipts',
+  maxEntries: parseInt(process.env.MYNEW_RECEIPT_CACHE_MAX_ENTRIES || '500', 10),
+};
+
+/**
+ * Cache that never stores anything, for turning caching off without touching callers
+ */
+class DisabledReceiptCache implements ReceiptCache {
+  readonly name = 'none' as const;
+
+  async get(): Promise<CachedAnalysis | null> {
+    return null;
+  }
+
+  async set(): Promise<void> {}
+}
+
+let activeCache: ReceiptCache | null = null;
+
+export function getReceiptCache(): ReceiptCache {
+  if (!activeCache) {
+    activeCache = createReceiptCache(RECEIPT_CACHE_CONFIG.backend);
+    console.log(`[ReceiptCache] Using "${activeCache.name}" receipt cache (TTL ${RECEIPT_CACHE_CONFIG.ttlSeconds}s)`);
+  }
+  return activeCache;
+}
+
+export function createReceiptCache(name: ReceiptCacheBackendName): ReceiptCache {
+  const ttlMs = RECEIPT_CACHE_CONFIG.ttlSeconds * 1000;
+
+  switch (name) {
+    case 'memory':
+      return new MemoryReceiptCache(ttlMs, RECEIPT_CACHE_CONFIG.maxEntries);
+    case 'file':
+      return new FileReceiptCache(RECEIPT_CACHE_CONFIG.dir, ttlMs);
+    case 'none':
+      return new DisabledReceiptCache();
+    default:
+      throw new Error(`Unknown receipt cache backend: ${name}. Expected "memory", "file" or "none".`);
+  }
+}
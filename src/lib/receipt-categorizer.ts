@@ -0,0 +1,277 @@
+import type { CategorySuggestion, CategorySuggestionSource, ExtractedReceiptData } from './textract-service';
+import type { CompanyConfig } from './company-config';
+
+export interface CategorizationRule {
+  id: string;
+  category: string; // Company category id the rule suggests
+  merchantPatterns: string[]; // Words or phrases in the merchant name
+  lineItemKeywords: string[]; // Words or phrases in line item descriptions
+  // Textract hints: labels printed next to summary fields ("Room", "Gallons") and
+  // amount fields the receipt has ("tip", "gratuity", "service charge")
+  fieldHints: string[];
+  enabled: boolean;
+}
+
+// A rule as written in a company configuration; a default rule's id only needs the fields it changes
+export type CategorizationRuleSetting = Partial<CategorizationRule> & { id: string };
+
+// A merchant match beats a line item match, which beats a field hint
+const SOURCE_WEIGHTS: Record<Exclude<CategorySuggestionSource, 'learned'>, number> = {
+  merchant: 3,
+  lineItem: 2,
+  fieldHint: 1,
+};
+
+export const DEFAULT_CATEGORIZATION_RULES: readonly CategorizationRule[] = [
+  {
+    id: 'airlines',
+    category: 'transport',
+    merchantPatterns: [
+      'airlines', 'airways', 'american airlines', 'delta', 'united airlines', 'southwest', 'jetblue',
+      'alaska airlines', 'spirit airlines', 'frontier airlines', 'air canada', 'lufthansa',
+    ],
+    lineItemKeywords: ['airfare', 'flight', 'baggage', 'checked bag', 'seat selection'],
+    fieldHints: ['flight', 'passenger', 'boarding', 'departure airport'],
+    enabled: true,
+  },
+  {
+    id: 'ground-transport',
+    category: 'transport',
+    merchantPatterns: [
+      'uber', 'lyft', 'amtrak', 'taxi', 'cab', 'hertz', 'avis', 'enterprise rent', 'national car',
+      'budget rent', 'greyhound',
+    ],
+    lineItemKeywords: ['ride', 'trip fare', 'train ticket', 'car rental'],
+    fieldHints: ['pickup', 'drop-off', 'rental agreement'],
+    enabled: true,
+  },
+  {
+    id: 'fuel',
+    category: 'gas',
+    merchantPatterns: [
+      'shell', 'exxon', 'exxonmobil', 'mobil', 'chevron', 'bp', 'sunoco', 'speedway', 'marathon', 'valero',
+      'citgo', 'circle k', 'wawa', 'sheetz', 'phillips 66', 'texaco', 'arco', 'quiktrip', 'racetrac',
+    ],
+    lineItemKeywords: ['unleaded', 'diesel', 'gasoline', 'fuel', 'gallons'],
+    fieldHints: ['gallons', 'pump', 'price/gal', 'fuel'],
+    enabled: true,
+  },
+  {
+    id: 'lodging',
+    category: 'hotel',
+    merchantPatterns: [
+      'hotel', 'motel', 'marriott', 'hilton', 'hyatt', 'holiday inn', 'hampton inn', 'courtyard', 'sheraton',
+      'westin', 'best western', 'embassy suites', 'doubletree', 'residence inn', 'fairfield inn', 'la quinta',
+      'comfort inn', 'airbnb',
+    ],
+    lineItemKeywords: ['room charge', 'room rate', 'lodging', 'occupancy tax', 'resort fee'],
+    fieldHints: ['room', 'nights', 'check-in', 'check in', 'arrival', 'departure', 'folio'],
+    enabled: true,
+  },
+  {
+    id: 'dining',
+    category: 'meals',
+    merchantPatterns: [
+      'restaurant', 'cafe', 'coffee', 'starbucks', 'mcdonald', 'chipotle', 'panera', 'subway', 'grill', 'bistro',
+      'diner', 'pizza', 'pizzeria', 'steakhouse', 'kitchen', 'bakery', 'dunkin', 'tavern',
+    ],
+    lineItemKeywords: ['entree', 'appetizer', 'burger', 'sandwich', 'salad', 'latte', 'espresso', 'dessert', 'beverage'],
+    fieldHints: ['tip', 'gratuity', 'server', 'table', 'guests'],
+    enabled: true,
+  },
+  {
+    id: 'shipping',
+    category: 'postage',
+    merchantPatterns: ['usps', 'united states postal', 'post office', 'fedex', 'ups', 'the ups store', 'dhl'],
+    lineItemKeywords: ['postage', 'shipping', 'stamps', 'priority mail', 'first-class', 'certified mail'],
+    fieldHints: ['tracking'],
+    enabled: true,
+  },
+  {
+    id: 'printing',
+    category: 'copies',
+    merchantPatterns: ['fedex office', 'kinkos', 'vistaprint', 'minuteman press'],
+    lineItemKeywords: ['copies', 'prints', 'printing', 'color copy', 'b&w copy'],
+    fieldHints: [],
+    enabled: true,
+  },
+  {
+    id: 'office-stores',
+    category: 'office-supplies',
+    merchantPatterns: ['staples', 'office depot', 'officemax'],
+    lineItemKeywords: ['paper', 'pens', 'toner', 'stapler', 'folders', 'envelopes', 'notebook', 'binder'],
+    fieldHints: [],
+    enabled: true,
+  },
+  {
+    id: 'electronics',
+    category: 'computer-supplies',
+    merchantPatterns: ['best buy', 'apple store', 'micro center', 'newegg', 'cdw'],
+    lineItemKeywords: ['usb', 'cable', 'keyboard', 'mouse', 'monitor', 'adapter', 'hard drive', 'laptop', 'charger'],
+    fieldHints: [],
+    enabled: true,
+  },
+  {
+    id: 'telecom',
+    category: 'cell-phone',
+    merchantPatterns: ['verizon', 'at&t', 't-mobile', 'sprint', 'cricket wireless', 'mint mobile', 'us cellular'],
+    lineItemKeywords: ['wireless', 'monthly plan', 'data plan'],
+    fieldHints: [],
+    enabled: true,
+  },
+  {
+    id: 'memberships',
+    category: 'dues',
+    merchantPatterns: ['chamber of commerce', 'association'],
+    lineItemKeywords: ['membership', 'annual dues', 'subscription', 'renewal'],
+    fieldHints: [],
+    enabled: true,
+  },
+];
+
+interface RuleMatch {
+  rule: CategorizationRule;
+  source: keyof typeof SOURCE_WEIGHTS;
+  matched: string;
+}
+
+/**
+ * Suggests an expense category for a receipt from its merchant name, line items and
+ * Textract field hints. Suggestions are filled into `category` with a
+ * `categorySuggestion` marker that stays until the user confirms or changes it.
+ */
+export class ReceiptCategorizer {
+  /**
+   * Company rules override the default rule with the same id and come first, so
+   * they win ties with the defaults
+   */
+  static resolveRules(settings: CategorizationRuleSetting[] = []): CategorizationRule[] {
+    const overrides = new Map(settings.map(setting => [setting.id, setting]));
+    const defaultIds = new Set(DEFAULT_CATEGORIZATION_RULES.map(rule => rule.id));
+
+    const custom = settings
+      .filter(setting => !defaultIds.has(setting.id))
+      .map(setting => this.withDefaults(setting));
+    const defaults = DEFAULT_CATEGORIZATION_RULES.map(rule => {
+      const override = overrides.get(rule.id);
+      return override ? this.withDefaults({ ...rule, ...override }) : rule;
+    });
+
+    return [...custom, ...defaults];
+  }
+
+  static suggest(receipt: ExtractedReceiptData, config: CompanyConfig): CategorySuggestion | null {
+    const enabledCategories = new Map(
+      config.categories.filter(category => category.enabled).map(category => [category.id, category])
+    );
+    const rules = config.rules.filter(rule => rule.enabled && enabledCategories.has(rule.category));
+    const hints = this.hintsOf(receipt);
+    const itemDescriptions = (receipt.items || []).map(item => item.description || '').filter(Boolean);
+
+    let best: RuleMatch | null = null;
+    for (const rule of rules) {
+      const match = this.matchRule(rule, receipt.merchant, itemDescriptions, hints);
+      if (match && (!best || this.isBetter(match, best))) {
+        best = match;
+      }
+    }
+    if (!best) return null;
+
+    return {
+      category: enabledCategories.get(best.rule.category)!.label,
+      ruleId: best.rule.id,
+      source: best.source,
+      matched: best.matched,
+    };
+  }
+
+  // Fills in a suggestion for receipts that don't have a category yet
+  static apply(receipts: ExtractedReceiptData[], config: CompanyConfig): ExtractedReceiptData[] {
+    return receipts.map(receipt => {
+      if (receipt.category?.trim()) return receipt;
+
+      const suggestion = this.suggest(receipt, config);
+      if (!suggestion) return receipt;
+
+      console.log(`[ReceiptCategorizer] Suggested ${suggestion.category} for ${receipt.merchant || 'unknown merchant'} (rule ${suggestion.ruleId}, ${suggestion.source} "${suggestion.matched}")`);
+      return { ...receipt, category: suggestion.category, categorySuggestion: suggestion };
+    });
+  }
+
+  /**
+   * Lower-case hint texts for a receipt: the amount fields it has and the labels
+   * Textract read next to its summary fields
+   */
+  static hintsOf(receipt: ExtractedReceiptData): string[] {
+    const hints: string[] = [];
+    if (receipt.tip) hints.push('tip');
+    if (receipt.gratuity) hints.push('gratuity');
+    if (receipt.serviceCharge) hints.push('service charge');
+
+    const document = receipt.rawData as { SummaryFields?: { LabelDetection?: { Text?: string } }[] } | undefined;
+    if (document && Array.isArray(document.SummaryFields)) {
+      document.SummaryFields.forEach(field => {
+        const label = field.LabelDetection?.Text?.trim().toLowerCase();
+        if (label) hints.push(label);
+      });
+    }
+    return hints;
+  }
+
+  private static matchRule(
+    rule: CategorizationRule,
+    merchant: string | undefined,
+    itemDescriptions: string[],
+    hints: string[]
+  ): RuleMatch | null {
+    const candidates: RuleMatch[] = [];
+
+    const merchantPattern = merchant && this.findPhrase(rule.merchantPatterns, [merchant]);
+    if (merchantPattern) candidates.push({ rule, source: 'merchant', matched: merchantPattern });
+
+    const keyword = this.findPhrase(rule.lineItemKeywords, itemDescriptions);
+    if (keyword) candidates.push({ rule, source: 'lineItem', matched: keyword });
+
+    const hint = this.findPhrase(rule.fieldHints, hints);
+    if (hint) candidates.push({ rule, source: 'fieldHint', matched: hint });
+
+    return candidates.reduce<RuleMatch | null>((best, candidate) =>
+      !best || this.isBetter(candidate, best) ? candidate : best, null);
+  }
+
+  // Stronger source first, then the longer (more specific) phrase; earlier rules win full ties
+  private static isBetter(candidate: RuleMatch, current: RuleMatch): boolean {
+    const weightDifference = SOURCE_WEIGHTS[candidate.source] - SOURCE_WEIGHTS[current.source];
+    if (weightDifference !== 0) return weightDifference > 0;
+    return candidate.matched.length > current.matched.length;
+  }
+
+  // Longest phrase found as whole words in any of the texts, so "Shell" doesn't match "Shellfish"
+  static findPhrase(phrases: string[], texts: string[]): string | null {
+    const haystacks = texts.map(text => text.toLowerCase());
+    let found: string | null = null;
+
+    for (const phrase of phrases) {
+      const normalized = phrase.trim().toLowerCase();
+      if (!normalized || (found && found.length >= normalized.length)) continue;
+
+      const escaped = normalized.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const pattern = new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`);
+      if (haystacks.some(text => pattern.test(text))) {
+        found = normalized;
+      }
+    }
+    return found;
+  }
+
+  private static withDefaults(setting: CategorizationRuleSetting): CategorizationRule {
+    return {
+      id: setting.id,
+      category: setting.category || '',
+      merchantPatterns: setting.merchantPatterns || [],
+      lineItemKeywords: setting.lineItemKeywords || [],
+      fieldHints: setting.fieldHints || [],
+      enabled: setting.enabled ?? true,
+    };
+  }
+}
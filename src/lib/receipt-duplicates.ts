@@ -0,0 +1,155 @@
+import type { ExtractedReceiptData } from './textract-service';
+import { ReceiptNormalizer, ReceiptValues } from './receipt-normalizer';
+
+export interface DuplicateCandidate {
+  id: string;
+  data: ReceiptValues;
+  uploadId?: string; // Receipts split out of the same file never count as duplicates of each other
+  imageHash?: string; // ImageHash.dHash of the original image
+  dismissedDuplicates?: string[]; // Receipts the user said this one is not a duplicate of
+}
+
+export interface DuplicateMatch {
+  receiptId: string;
+  otherId: string;
+  reasons: string[]; // Why the pair looks alike, for the compare view
+  imageDistance?: number; // Differing bits of the two image hashes
+}
+
+// Out of 64 bits: re-encoded copies of one photo stay under the first, the same
+// receipt shot from another angle usually under the second
+const SAME_IMAGE_DISTANCE = 4;
+const SIMILAR_IMAGE_DISTANCE = 12;
+const SIMILAR_MERCHANT_RATIO = 0.8;
+
+/**
+ * Finds receipts in a report that are probably the same expense: the same photo
+ * uploaded twice, or one receipt photographed twice with matching merchant, date
+ * and total. Pure and client-safe; it runs over the page state on every render.
+ */
+export class ReceiptDuplicates {
+  static find(receipts: DuplicateCandidate[]): DuplicateMatch[] {
+    const matches: DuplicateMatch[] = [];
+    receipts.forEach((receipt, index) => {
+      for (const other of receipts.slice(index + 1)) {
+        if (receipt.uploadId && receipt.uploadId === other.uploadId) continue;
+        if (receipt.dismissedDuplicates?.includes(other.id) || other.dismissedDuplicates?.includes(receipt.id)) continue;
+
+        const match = this.compare(receipt, other);
+        if (match) matches.push(match);
+      }
+    });
+    return matches;
+  }
+
+  // Matches involving one receipt, seen from that receipt's side
+  static matchesFor(matches: DuplicateMatch[], receiptId: string): DuplicateMatch[] {
+    return matches
+      .filter(match => match.receiptId === receiptId || match.otherId === receiptId)
+      .map(match => match.receiptId === receiptId ? match : { ...match, receiptId, otherId: match.receiptId });
+  }
+
+  /**
+   * Keeps one receipt of a duplicate pair, filling in anything the user entered only
+   * on the other one
+   */
+  static merge(kept: ExtractedReceiptData, removed: ExtractedReceiptData): ExtractedReceiptData {
+    const merged: ExtractedReceiptData = { ...kept };
+    const fields = ['description', 'category', 'merchant', 'date', 'total', 'paymentMethod', 'cardLastFour', 'receiptNumber'] as const;
+    for (const field of fields) {
+      if (!merged[field]?.trim() && removed[field]?.trim()) {
+        merged[field] = removed[field];
+      }
+    }
+    if (!merged.items?.length && removed.items?.length) {
+      merged.items = removed.items;
+    }
+    if (removed.policyJustifications) {
+      merged.policyJustifications = { ...removed.policyJustifications, ...kept.policyJustifications };
+    }
+    return ReceiptNormalizer.normalize(merged);
+  }
+
+  static hammingDistance(a: string, b: string): number {
+    if (a.length !== b.length) return Infinity;
+    let distance = 0;
+    for (let index = 0; index < a.length; index++) {
+      let bits = parseInt(a[index], 16) ^ parseInt(b[index], 16);
+      while (bits) {
+        distance += bits & 1;
+        bits >>= 1;
+      }
+    }
+    return distance;
+  }
+
+  private static compare(a: DuplicateCandidate, b: DuplicateCandidate): DuplicateMatch | null {
+    const imageDistance = a.imageHash && b.imageHash ? this.hammingDistance(a.imageHash, b.imageHash) : undefined;
+    const reasons: string[] = [];
+
+    const totalA = a.data.total ? ReceiptNormalizer.amountOf(a.data) : null;
+    const totalB = b.data.total ? ReceiptNormalizer.amountOf(b.data) : null;
+    const sameTotal = totalA !== null && totalB !== null && Math.abs(totalA - totalB) < 0.005;
+    const differentTotal = totalA !== null && totalB !== null && !sameTotal;
+
+    const dateA = ReceiptNormalizer.isoDateOf(a.data);
+    const sameDate = !!dateA && dateA === ReceiptNormalizer.isoDateOf(b.data);
+
+    const merchantA = this.merchantWordsOf(a.data.merchant);
+    const merchantB = this.merchantWordsOf(b.data.merchant);
+    const similarMerchant = merchantA.length > 0 && merchantB.length > 0 && this.similarMerchants(merchantA, merchantB);
+    const missingMerchant = merchantA.length === 0 || merchantB.length === 0;
+
+    if (imageDistance !== undefined && imageDistance <= SAME_IMAGE_DISTANCE) reasons.push('Same image');
+    else if (imageDistance !== undefined && imageDistance <= SIMILAR_IMAGE_DISTANCE) reasons.push('Similar image');
+    if (similarMerchant) reasons.push(`Similar merchant: ${a.data.merchant} / ${b.data.merchant}`);
+    if (sameDate) reasons.push(`Same date: ${dateA}`);
+    if (sameTotal) reasons.push(`Same total: ${totalA!.toFixed(2)}`);
+
+    const detailMatches = [similarMerchant, sameDate, sameTotal].filter(Boolean).length;
+    const isDuplicate =
+      // A second upload of the same photo, unless the two receipts have different totals
+      (imageDistance !== undefined && imageDistance <= SAME_IMAGE_DISTANCE && !differentTotal)
+      // Blank receipts look alike when scaled down, so a similar image needs matching details too
+      || (imageDistance !== undefined && imageDistance <= SIMILAR_IMAGE_DISTANCE && detailMatches >= 2)
+      || (sameTotal && sameDate && (similarMerchant || missingMerchant));
+
+    return isDuplicate ? { receiptId: a.id, otherId: b.id, reasons, imageDistance } : null;
+  }
+
+  // "STARBUCKS #1234" and "Starbucks Coffee" both become ["starbucks", ...]
+  private static merchantWordsOf(merchant?: string): string[] {
+    return (merchant || '')
+      .toLowerCase()
+      .replace(/#?\d+/g, ' ')
+      .replace(/[^a-z&' ]+/g, ' ')
+      .split(' ')
+      .filter(Boolean);
+  }
+
+  // One name contains the other's words, or the names differ only by a few OCR misreads
+  private static similarMerchants(a: string[], b: string[]): boolean {
+    const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+    if (shorter.every(word => longer.includes(word))) return true;
+
+    const textA = a.join(' ');
+    const textB = b.join(' ');
+    return 1 - this.editDistance(textA, textB) / Math.max(textA.length, textB.length) >= SIMILAR_MERCHANT_RATIO;
+  }
+
+  private static editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+}
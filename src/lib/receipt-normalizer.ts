@@ -0,0 +1,258 @@
+import type { ExtractedReceiptData } from './textract-service';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export type NormalizedAmountField = 'total' | 'tax' | 'subtotal' | 'tip' | 'gratuity' | 'discount' | 'serviceCharge';
+
+export interface NormalizedReceiptValues {
+  currency: string; // ISO 4217 code
+  total?: number; // Amounts are integers in the currency's minor units (cents for USD)
+  tax?: number;
+  subtotal?: number;
+  tip?: number;
+  gratuity?: number;
+  discount?: number; // Always positive: the amount taken off the bill
+  serviceCharge?: number;
+  date?: string; // ISO 8601 calendar date (YYYY-MM-DD)
+}
+
+// Anything shaped like receipt data, including report payloads posted without rawData
+export type ReceiptValues = Omit<ExtractedReceiptData, 'rawData'>;
+
+const CURRENCY_SYMBOLS: Array<[RegExp, string]> = [
+  [/€/, 'EUR'],
+  [/£/, 'GBP'],
+  [/¥|円/, 'JPY'],
+  [/₹/, 'INR'],
+  [/CA\$|C\$/, 'CAD'],
+  [/A\$|AU\$/, 'AUD'],
+  [/MX\$/, 'MXN'],
+  [/\$/, 'USD'],
+];
+
+// Currencies whose receipts usually group thousands with "." (1.234,56); the rest use ","
+const DOT_GROUPING_CURRENCIES = ['EUR'];
+
+const ISO_CURRENCY_CODES = /\b(USD|EUR|GBP|JPY|CAD|AUD|MXN|CHF|INR|CNY|SEK|NOK|DKK|NZD)\b/;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+/**
+ * Single place that turns receipt text ("1.234,56", "(12.00)", "2024-03-05") into
+ * typed values, so every report generator agrees on amounts and dates
+ */
+export class ReceiptNormalizer {
+  /**
+   * Recomputes the normalized values from the receipt's raw text fields. A currency
+   * found earlier is kept: after an edit, a "$" in the text can't tell CAD from USD.
+   */
+  static normalize(data: ExtractedReceiptData, currencyHint?: string): ExtractedReceiptData {
+    const currency = currencyHint
+      || data.normalized?.currency
+      || this.detectCurrency([data.total, data.subtotal, data.tax, data.tip, data.gratuity, data.serviceCharge])
+      || DEFAULT_CURRENCY;
+
+    return {
+      ...data,
+      normalized: {
+        currency,
+        total: this.parseAmount(data.total, currency) ?? undefined,
+        tax: this.parseAmount(data.tax, currency) ?? undefined,
+        subtotal: this.parseAmount(data.subtotal, currency) ?? undefined,
+        tip: this.parseAmount(data.tip, currency) ?? undefined,
+        gratuity: this.parseAmount(data.gratuity, currency) ?? undefined,
+        discount: this.absolute(this.parseAmount(data.discount, currency)),
+        serviceCharge: this.parseAmount(data.serviceCharge, currency) ?? undefined,
+        date: this.parseDate(data.date) ?? undefined,
+      },
+      items: data.items?.map(item => ({
+        ...item,
+        normalizedPrice: this.parseAmount(item.price, currency) ?? undefined,
+      })),
+    };
+  }
+
+  /**
+   * Parses an amount into integer minor units. Handles thousands separators in either
+   * convention ("1,234.56" / "1.234,56"), currency symbols and negatives as "-12" or "(12.00)".
+   */
+  static parseAmount(raw?: string, currency: string = DEFAULT_CURRENCY): number | null {
+    if (!raw) return null;
+
+    const cleaned = raw.replace(/[^\d.,()\-]/g, '');
+    if (!/\d/.test(cleaned)) return null;
+
+    const negative = (cleaned.includes('(') && cleaned.includes(')')) || cleaned.startsWith('-') || cleaned.endsWith('-');
+    const numeric = cleaned.replace(/[()\-]/g, '');
+
+    const lastDot = numeric.lastIndexOf('.');
+    const lastComma = numeric.lastIndexOf(',');
+    let decimalIndex = -1;
+
+    if (lastDot >= 0 && lastComma >= 0) {
+      // Both present: whichever comes last is the decimal separator
+      decimalIndex = Math.max(lastDot, lastComma);
+    } else if (lastDot >= 0 || lastComma >= 0) {
+      const separator = lastDot >= 0 ? '.' : ',';
+      const occurrences = numeric.split(separator).length - 1;
+      const digitsAfter = numeric.length - numeric.lastIndexOf(separator) - 1;
+      const integerDigits = numeric.slice(0, numeric.indexOf(separator));
+      // A lone separator is only read as grouping in "1,234" shapes written the currency's
+      // usual way; "0.500" or a fuel price like "3.459" keeps its decimal point
+      const isGrouping = digitsAfter === 3
+        && /^[1-9]\d{0,2}$/.test(integerDigits)
+        && separator === this.groupingSeparatorOf(currency);
+      if (occurrences === 1 && !isGrouping) {
+        decimalIndex = numeric.lastIndexOf(separator);
+      }
+    }
+
+    const integerPart = (decimalIndex >= 0 ? numeric.slice(0, decimalIndex) : numeric).replace(/\D/g, '') || '0';
+    const fractionPart = decimalIndex >= 0 ? numeric.slice(decimalIndex + 1).replace(/\D/g, '') : '';
+
+    const value = parseFloat(`${integerPart}.${fractionPart || '0'}`);
+    if (isNaN(value)) return null;
+
+    const minorUnits = Math.round(value * Math.pow(10, this.minorUnitDigits(currency)));
+    return negative ? -minorUnits : minorUnits;
+  }
+
+  /**
+   * Parses a receipt date into ISO YYYY-MM-DD. Slash dates are read as US month/day
+   * unless the first part can only be a day; dotted dates are read as day.month.year.
+   */
+  static parseDate(raw?: string): string | null {
+    if (!raw) return null;
+    const text = raw.trim();
+
+    const iso = text.match(/^(\d{4})[-\/.](\d{1,2})[-\/.](\d{1,2})/);
+    if (iso) {
+      return this.toIsoDate(parseInt(iso[1], 10), parseInt(iso[2], 10), parseInt(iso[3], 10));
+    }
+
+    const numeric = text.match(/^(\d{1,2})([\/\-.])(\d{1,2})\2(\d{2,4})/);
+    if (numeric) {
+      const first = parseInt(numeric[1], 10);
+      const second = parseInt(numeric[3], 10);
+      const year = this.expandYear(parseInt(numeric[4], 10));
+      const dayFirst = numeric[2] === '.' || first > 12;
+      return dayFirst
+        ? this.toIsoDate(year, second, first)
+        : this.toIsoDate(year, first, second);
+    }
+
+    const dayMonthName = text.match(/^(\d{1,2})\s*([A-Za-z]{3,})\.?,?\s*(\d{2,4})/);
+    if (dayMonthName) {
+      const month = MONTHS[dayMonthName[2].slice(0, 3).toLowerCase()];
+      if (month) {
+        return this.toIsoDate(this.expandYear(parseInt(dayMonthName[3], 10)), month, parseInt(dayMonthName[1], 10));
+      }
+    }
+
+    const monthNameDay = text.match(/^([A-Za-z]{3,})\.?\s*(\d{1,2})(?:st|nd|rd|th)?,?\s*(\d{2,4})/);
+    if (monthNameDay) {
+      const month = MONTHS[monthNameDay[1].slice(0, 3).toLowerCase()];
+      if (month) {
+        return this.toIsoDate(this.expandYear(parseInt(monthNameDay[3], 10)), month, parseInt(monthNameDay[2], 10));
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Detects an ISO currency code from codes or symbols in the given texts
+   */
+  static detectCurrency(texts: Array<string | undefined>): string | null {
+    for (const text of texts) {
+      if (!text) continue;
+      const code = text.toUpperCase().match(ISO_CURRENCY_CODES);
+      if (code) return code[1];
+      for (const [pattern, currency] of CURRENCY_SYMBOLS) {
+        if (pattern.test(text)) return currency;
+      }
+    }
+    return null;
+  }
+
+  static minorUnitDigits(currency: string): number {
+    try {
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+      return 2;
+    }
+  }
+
+  static toMajorUnits(minorUnits: number, currency: string = DEFAULT_CURRENCY): number {
+    return minorUnits / Math.pow(10, this.minorUnitDigits(currency));
+  }
+
+  /**
+   * Amount in major units (e.g. dollars), preferring the normalized value and
+   * falling back to parsing the raw text for receipts that predate normalization
+   */
+  static amountOf(data: ReceiptValues, field: NormalizedAmountField = 'total'): number {
+    const currency = data.normalized?.currency || DEFAULT_CURRENCY;
+    const minorUnits = data.normalized?.[field]
+      ?? (field === 'discount' ? this.absolute(this.parseAmount(data[field], currency)) : this.parseAmount(data[field], currency));
+    return minorUnits === null || minorUnits === undefined ? 0 : this.toMajorUnits(minorUnits, currency);
+  }
+
+  static isoDateOf(data: ReceiptValues): string | null {
+    return data.normalized?.date || this.parseDate(data.date);
+  }
+
+  /**
+   * Formats an ISO date as MM/DD/YYYY for the expense report templates
+   */
+  static formatReportDate(isoDate: string | null): string {
+    if (!isoDate) return '';
+    const [year, month, day] = isoDate.split('-');
+    return `${month}/${day}/${year}`;
+  }
+
+  static formatAmount(minorUnits: number, currency: string = DEFAULT_CURRENCY): string {
+    try {
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(this.toMajorUnits(minorUnits, currency));
+    } catch {
+      return this.toMajorUnits(minorUnits, currency).toFixed(2);
+    }
+  }
+
+  /**
+   * Sort comparator: oldest first, receipts without a parseable date last
+   */
+  static compareByDate(a: ReceiptValues, b: ReceiptValues): number {
+    const dateA = this.isoDateOf(a);
+    const dateB = this.isoDateOf(b);
+    if (!dateA && !dateB) return 0;
+    if (!dateA) return 1;
+    if (!dateB) return -1;
+    return dateA.localeCompare(dateB);
+  }
+
+  // The thousands separator receipts in this currency usually print
+  private static groupingSeparatorOf(currency: string): '.' | ',' {
+    return DOT_GROUPING_CURRENCIES.includes(currency.toUpperCase()) ? '.' : ',';
+  }
+
+  // Receipts print discounts either as "-5.00" or "5.00"
+  private static absolute(minorUnits: number | null): number | undefined {
+    return minorUnits === null ? undefined : Math.abs(minorUnits);
+  }
+
+  private static expandYear(year: number): number {
+    return year < 100 ? 2000 + year : year;
+  }
+
+  private static toIsoDate(year: number, month: number, day: number): string | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return null;
+    }
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+}
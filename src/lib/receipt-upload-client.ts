@@ -0,0 +1,187 @@
+// Browser side of receipt uploads; must not import server-only modules
+import type { AnalysisJob } from './analysis-job-store';
+
+export interface ReceiptUploadFields {
+  companyId?: string;
+  reportId?: string;
+  employeeName?: string;
+}
+
+export interface SubmittedBatch {
+  batchId?: string;
+  // Jobs the server accepted, with the file so the page can keep a preview
+  jobs: Array<{ id: string; fileName: string; file: File }>;
+  errors: string[];
+}
+
+// Mirrors DIRECT_UPLOAD_CONTENT_TYPES on the server; anything else goes through multipart
+const DIRECT_UPLOAD_TYPES = ['image/jpeg', 'image/png', 'application/pdf'];
+
+/**
+ * Sends receipts for analysis. When the server has direct uploads enabled files are
+ * PUT straight to storage with a presigned URL and analyzed by key; otherwise (or for
+ * types direct uploads don't accept) they are posted as multipart.
+ */
+export class ReceiptUploadClient {
+  /**
+   * Analyzes one receipt and waits for the result. The returned Response has the
+   * /api/analyze-receipt body shape either way. Pass the key from idempotencyKeyFor
+   * so a retried upload of the same file returns the first result.
+   */
+  static async analyze(file: File, fields: ReceiptUploadFields = {}, idempotencyKey?: string): Promise<Response> {
+    const idempotencyHeaders: Record<string, string> = idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {};
+
+    const upload = await this.uploadDirect(file);
+    if (upload instanceof Response) return upload;
+
+    if (upload) {
+      return fetch('/api/analyze-receipt/by-key', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...idempotencyHeaders },
+        body: JSON.stringify({ key: upload.key, fileName: file.name, ...fields }),
+      });
+    }
+
+    return fetch('/api/analyze-receipt', {
+      method: 'POST',
+      headers: idempotencyHeaders,
+      body: this.formDataFor(file, fields),
+    });
+  }
+
+  /**
+   * Idempotency key for analyzing this file in this report: the same file retried
+   * within the report gets the same key
+   */
+  static async idempotencyKeyFor(file: File, fields: ReceiptUploadFields = {}): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    return `receipt-${fields.reportId || 'none'}-${hex}`;
+  }
+
+  /**
+   * Queues receipts for background analysis, one request per file so a large batch
+   * never hits the request body limit. Files that fail to upload are reported in errors.
+   */
+  static async submitBatch(
+    files: File[],
+    fields: ReceiptUploadFields = {},
+    onProgress?: (submitted: number, fileName: string) => void
+  ): Promise<SubmittedBatch> {
+    const batch: SubmittedBatch = { jobs: [], errors: [] };
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      onProgress?.(i + 1, file.name);
+
+      try {
+        const response = await this.submitFile(file, fields, batch.batchId);
+        const result = await response.json();
+        if (!response.ok) {
+          batch.errors.push(`${file.name}: ${result.error || 'Upload failed'}`);
+          continue;
+        }
+
+        batch.batchId = result.batchId;
+        batch.jobs.push({ id: result.jobs[0].id, fileName: file.name, file });
+      } catch (err) {
+        batch.errors.push(`${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    }
+
+    return batch;
+  }
+
+  /**
+   * Streams job updates for a batch over Server-Sent Events. onJob gets every job on
+   * connect and again on each stage change; onDone fires once all jobs have finished
+   * or the server no longer knows the batch. Returns a function that stops watching.
+   */
+  static watchBatch(batchId: string, handlers: { onJob: (job: AnalysisJob) => void; onDone: () => void }): () => void {
+    const source = new EventSource(`/api/jobs/stream?batchId=${encodeURIComponent(batchId)}`);
+
+    source.addEventListener('job', (event) => {
+      handlers.onJob(JSON.parse((event as MessageEvent).data));
+    });
+    source.addEventListener('done', () => {
+      source.close();
+      handlers.onDone();
+    });
+    source.onerror = () => {
+      // EventSource reconnects by itself unless the server refused the stream (e.g. a pruned batch)
+      if (source.readyState === EventSource.CLOSED) {
+        console.warn(`[ReceiptUploadClient] Stopped watching batch ${batchId}`);
+        handlers.onDone();
+      }
+    };
+
+    return () => source.close();
+  }
+
+  static retryJob(jobId: string): Promise<Response> {
+    return fetch(`/api/jobs/${encodeURIComponent(jobId)}/retry`, { method: 'POST' });
+  }
+
+  private static async submitFile(file: File, fields: ReceiptUploadFields, batchId?: string): Promise<Response> {
+    const upload = await this.uploadDirect(file);
+    if (upload instanceof Response) return upload;
+
+    if (upload) {
+      return fetch('/api/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ uploads: [{ key: upload.key, fileName: file.name }], batchId, ...fields }),
+      });
+    }
+
+    const formData = this.formDataFor(file, fields);
+    if (batchId) formData.append('batchId', batchId);
+    return fetch('/api/jobs', {
+      method: 'POST',
+      body: formData,
+    });
+  }
+
+  /**
+   * Uploads the file with a presigned URL. Resolves to null when direct uploads are off
+   * or don't accept this file type, and to an error Response when the upload failed.
+   */
+  private static async uploadDirect(file: File): Promise<{ key: string } | Response | null> {
+    if (!DIRECT_UPLOAD_TYPES.includes(file.type)) return null;
+
+    const presignResponse = await fetch('/api/uploads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fileName: file.name, contentType: file.type, size: file.size }),
+    });
+
+    // 404 means direct uploads are switched off on this deployment
+    if (presignResponse.status === 404) return null;
+    if (!presignResponse.ok) return presignResponse;
+
+    const upload: { key: string; uploadUrl: string; method: string; headers: Record<string, string> } = (await presignResponse.json()).upload;
+    console.log(`[ReceiptUploadClient] Uploading ${file.name} directly to storage as ${upload.key}`);
+    const uploadResponse = await fetch(upload.uploadUrl, {
+      method: upload.method,
+      headers: upload.headers,
+      body: file,
+    });
+
+    if (!uploadResponse.ok) {
+      return new Response(
+        JSON.stringify({ error: 'Upload to storage failed', details: `Storage responded with HTTP ${uploadResponse.status}` }),
+        { status: 502, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    return { key: upload.key };
+  }
+
+  private static formDataFor(file: File, fields: ReceiptUploadFields): FormData {
+    const formData = new FormData();
+    formData.append('file', file);
+    Object.entries(fields).forEach(([name, value]) => {
+      if (value) formData.append(name, value);
+    });
+    return formData;
+  }
+}
@@ -0,0 +1,313 @@
+// Browser side of the expense database; must not import server-only modules
+import type { ExtractedReceiptData } from './textract-service';
+import type { ArchivedReceipt } from './receipt-archive';
+import type { ReportAction, ReportStatus, ReportTransition } from './report-lifecycle';
+import type { ReportReview, ReportReviewInput } from './report-reviews';
+import type {
+  ExpenseReportRecord,
+  MileageEntryInput,
+  MileageEntryRecord,
+  ReceiptImageMetadata,
+  ReceiptInput,
+  ReceiptRecord,
+} from './expense-repository';
+
+// The fields of the page's receipt entries that are worth keeping
+export interface ReportReceiptDraft {
+  id: string;
+  data: ExtractedReceiptData;
+  originalImage?: { file: File };
+  archive?: ArchivedReceipt;
+  storedImage?: ReceiptImageMetadata; // Set on receipts reopened from the database
+  uploadId?: string;
+  imageHash?: string;
+  dismissedDuplicates?: string[];
+}
+
+export type ReportMileageDraft = Omit<MileageEntryInput, 'reportId' | 'companyId'>;
+
+export interface ReportDraft {
+  employeeName: string;
+  receipts: ReportReceiptDraft[];
+  mileageEntries: ReportMileageDraft[];
+}
+
+export interface LoadedReport {
+  report: ExpenseReportRecord;
+  receipts: ReceiptRecord[];
+  mileageEntries: MileageEntryRecord[];
+  transitions: ReportTransition[];
+  reviews: ReportReview[];
+}
+
+// A refused status change, with the server's reasons (e.g. what blocks submitting)
+export class ReportActionError extends Error {
+  readonly details: string[];
+
+  constructor(message: string, details: string[] = []) {
+    super(message);
+    this.name = 'ReportActionError';
+    this.details = details;
+  }
+}
+
+// Edits are saved once they pause for this long
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * Keeps the report on the page in the expense database: reopens the last report
+ * after a reload and saves what changed since the last save. Failures are only
+ * logged and retried with the next change; the page keeps working offline.
+ */
+export class ReportClient {
+  private static readonly storageKey = 'currentExpenseReport';
+  private static readonly savedReceipts = new Map<string, string>();
+  private static readonly savedMileage = new Map<string, string>();
+  private static savedEmployeeName = '';
+  private static timer: ReturnType<typeof setTimeout> | null = null;
+  private static pending: (() => Promise<void>) | null = null;
+  private static saving: Promise<void> = Promise.resolve();
+
+  static currentReportId(): string | null {
+    return localStorage.getItem(this.storageKey);
+  }
+
+  /**
+   * Loads the report the browser was last working on, or creates `newReportId` when
+   * there is none. Returns null when the database can't be reached.
+   */
+  static async open(newReportId: string, employeeName: string): Promise<LoadedReport | null> {
+    try {
+      const storedId = this.currentReportId();
+      if (storedId) {
+        const response = await fetch(`/api/reports/${encodeURIComponent(storedId)}`);
+        if (response.ok) {
+          const loaded: LoadedReport = await response.json();
+          this.markSaved(loaded);
+          console.log(`[ReportClient] Reopened report ${storedId} with ${loaded.receipts.length} receipts`);
+          return loaded;
+        }
+        if (response.status !== 404) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+      }
+
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: newReportId, employeeName }),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const { report }: { report: ExpenseReportRecord } = await response.json();
+      localStorage.setItem(this.storageKey, report.id);
+      const created = { report, receipts: [], mileageEntries: [], transitions: [], reviews: [] };
+      this.markSaved(created);
+      return created;
+    } catch (error) {
+      console.warn('[ReportClient] Report not loaded, changes will not be saved:', error);
+      return null;
+    }
+  }
+
+  // Saves after SAVE_DELAY_MS, replacing a pending save
+  static saveLater(reportId: string, draft: ReportDraft) {
+    if (this.timer) clearTimeout(this.timer);
+
+    this.pending = () => this.save(reportId, draft);
+    this.timer = setTimeout(() => void this.flush(), SAVE_DELAY_MS);
+  }
+
+  // Runs a pending save now and waits until every save has finished
+  static flush(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    const pending = this.pending;
+    this.pending = null;
+    if (pending) {
+      this.saving = this.saving.then(pending);
+    }
+    return this.saving;
+  }
+
+  /**
+   * Saves outstanding edits, then moves the report (see ReportLifecycle). Approver
+   * actions need `approverToken`. Throws a ReportActionError when the server refuses.
+   */
+  static async transition(
+    reportId: string,
+    action: ReportAction,
+    actor: string,
+    note?: string,
+    approverToken?: string
+  ): Promise<{ report: ExpenseReportRecord; transition: ReportTransition }> {
+    await this.flush();
+
+    const { report, transition } = await this.request<{ report: ExpenseReportRecord; transition: ReportTransition }>(
+      `/api/reports/${encodeURIComponent(reportId)}/transitions`, 'POST', { action, actor, note }, approverToken
+    );
+    return { report, transition };
+  }
+
+  // For approvers: every report in `status`, newest first
+  static async listReports(status: ReportStatus): Promise<ExpenseReportRecord[]> {
+    const { reports } = await this.request<{ reports: ExpenseReportRecord[] }>(`/api/reports?status=${encodeURIComponent(status)}`, 'GET');
+    return reports;
+  }
+
+  // For approvers: a report with its items, history and reviews, without making it the browser's current report
+  static async load(reportId: string): Promise<LoadedReport> {
+    const { report, receipts, mileageEntries, transitions, reviews } = await this.request<LoadedReport>(
+      `/api/reports/${encodeURIComponent(reportId)}`, 'GET'
+    );
+    return { report, receipts, mileageEntries, transitions, reviews };
+  }
+
+  // Records an approver's decision or comment on one receipt or trip (see ReportReviews)
+  static async review(reportId: string, input: Omit<ReportReviewInput, 'reportId'>, approverToken: string): Promise<ReportReview> {
+    const { review } = await this.request<{ review: ReportReview }>(
+      `/api/reports/${encodeURIComponent(reportId)}/reviews`, 'POST', input, approverToken
+    );
+    return review;
+  }
+
+  // Leaves the current report as it is; the next open() starts a new one
+  static forget() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.pending = null;
+    localStorage.removeItem(this.storageKey);
+  }
+
+  static receiptInputOf(receipt: ReportReceiptDraft): ReceiptInput {
+    // Raw Textract responses are large and only needed during analysis
+    const data = { ...receipt.data, rawData: undefined };
+    const file = receipt.originalImage?.file;
+    const stored = receipt.storedImage;
+    const hasImage = receipt.archive || receipt.imageHash || file || stored;
+
+    return {
+      id: receipt.id,
+      data,
+      image: hasImage ? {
+        storageKey: receipt.archive?.key ?? stored?.storageKey,
+        contentHash: receipt.archive?.contentHash ?? stored?.contentHash,
+        perceptualHash: receipt.imageHash ?? stored?.perceptualHash,
+        fileName: file?.name ?? stored?.fileName,
+        contentType: file?.type ?? stored?.contentType,
+        sizeBytes: file?.size ?? stored?.sizeBytes,
+        archivedAt: receipt.archive?.archivedAt ?? stored?.archivedAt,
+        retainUntil: receipt.archive?.retainUntil ?? stored?.retainUntil,
+      } : undefined,
+      uploadId: receipt.uploadId,
+      dismissedDuplicates: receipt.dismissedDuplicates,
+    };
+  }
+
+  // Back from the database, the archived original is all that is left of the image
+  static archiveOf(receipt: ReceiptRecord): ArchivedReceipt | undefined {
+    const image = receipt.image;
+    if (!image?.storageKey || !image.contentHash || !image.archivedAt || !image.retainUntil) return undefined;
+    return {
+      key: image.storageKey,
+      contentHash: image.contentHash,
+      archivedAt: image.archivedAt,
+      retainUntil: image.retainUntil,
+      url: image.url,
+    };
+  }
+
+  private static async save(reportId: string, draft: ReportDraft): Promise<void> {
+    const base = `/api/reports/${encodeURIComponent(reportId)}`;
+
+    if (draft.employeeName !== this.savedEmployeeName) {
+      if (await this.send(base, 'PATCH', { employeeName: draft.employeeName })) {
+        this.savedEmployeeName = draft.employeeName;
+      }
+    }
+
+    await this.saveChanges(
+      this.savedReceipts,
+      draft.receipts.map(receipt => this.receiptInputOf(receipt)),
+      receipt => `${base}/receipts/${encodeURIComponent(receipt.id)}`,
+      id => `${base}/receipts/${encodeURIComponent(id)}`
+    );
+    await this.saveChanges(
+      this.savedMileage,
+      draft.mileageEntries.map(entry => ({ ...entry, reportId })),
+      entry => `/api/mileage/entries/${encodeURIComponent(entry.id)}`,
+      id => `/api/mileage/entries/${encodeURIComponent(id)}`
+    );
+  }
+
+  // PUTs records that differ from what was saved last, DELETEs the ones that are gone
+  private static async saveChanges<T extends { id: string }>(
+    saved: Map<string, string>,
+    records: T[],
+    urlOf: (record: T) => string,
+    urlOfId: (id: string) => string
+  ): Promise<void> {
+    for (const record of records) {
+      const body = JSON.stringify(record);
+      if (saved.get(record.id) === body) continue;
+      if (await this.send(urlOf(record), 'PUT', record)) {
+        saved.set(record.id, body);
+      }
+    }
+
+    const currentIds = new Set(records.map(record => record.id));
+    for (const id of [...saved.keys()].filter(id => !currentIds.has(id))) {
+      if (await this.send(urlOfId(id), 'DELETE')) {
+        saved.delete(id);
+      }
+    }
+  }
+
+  // Unlike send(), throws a ReportActionError with the server's reasons on failure
+  private static async request<T>(url: string, method: string, body?: unknown, bearerToken?: string): Promise<T> {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (bearerToken) headers['Authorization'] = `Bearer ${bearerToken}`;
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new ReportActionError(result.error || `HTTP ${response.status}`, result.details || []);
+    }
+    return result;
+  }
+
+  private static async send(url: string, method: string, body?: unknown): Promise<boolean> {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      // Deleting something already gone counts as done
+      if (response.ok || (method === 'DELETE' && response.status === 404)) return true;
+      console.warn(`[ReportClient] ${method} ${url} failed:`, response.status);
+    } catch (error) {
+      console.warn(`[ReportClient] ${method} ${url} failed:`, error);
+    }
+    return false;
+  }
+
+  private static markSaved(loaded: LoadedReport) {
+    this.savedReceipts.clear();
+    this.savedMileage.clear();
+    this.savedEmployeeName = loaded.report.employeeName;
+    // Only the ids are known here, so each reopened record is written back once
+    for (const receipt of loaded.receipts) {
+      this.savedReceipts.set(receipt.id, '');
+    }
+    for (const entry of loaded.mileageEntries) {
+      this.savedMileage.set(entry.id, '');
+    }
+  }
+}
@@ -0,0 +1,214 @@
+import { CompanyConfigService } from './company-config';
+import { ExpensePolicy } from './expense-policy';
+import { ExpenseReportRecord, ExpenseRepository, getExpenseRepository } from './expense-repository';
+import { REPORT_ACTIONS, ReportAction, ReportLifecycle, ReportTransition } from './report-lifecycle';
+import { REVIEW_DECISIONS, ReportReview, ReportReviews } from './report-reviews';
+
+const MAX_ACTOR_LENGTH = 200;
+const MAX_NOTE_LENGTH = 2000;
+
+export class ReportLifecycleError extends Error {
+  readonly status: number;
+  readonly details: string[];
+
+  constructor(message: string, status: number, details: string[] = []) {
+    super(message);
+    this.name = 'ReportLifecycleError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export interface TransitionResult {
+  report: ExpenseReportRecord;
+  transition: ReportTransition;
+}
+
+/**
+ * Moves reports through ReportLifecycle and guards everything that changes a
+ * report's contents, so nothing on a submitted report can be edited. Approvers
+ * review the items of a submitted report here too.
+ */
+export class ReportLifecycleService {
+  private readonly repository: ExpenseRepository;
+  private readonly companies: CompanyConfigService;
+
+  constructor(repository: ExpenseRepository = getExpenseRepository(), companies: CompanyConfigService = new CompanyConfigService()) {
+    this.repository = repository;
+    this.companies = companies;
+  }
+
+  async transition(reportId: string, action: unknown, actor: unknown, note?: unknown): Promise<TransitionResult> {
+    const errors: string[] = [];
+    if (!ReportLifecycle.isAction(action)) errors.push(`action must be one of: ${REPORT_ACTIONS.join(', ')}`);
+    if (typeof actor !== 'string' || !actor.trim() || actor.length > MAX_ACTOR_LENGTH) {
+      errors.push('actor must be the name of whoever makes the change');
+    }
+    if (note !== undefined && (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)) {
+      errors.push(`note must be a string of at most ${MAX_NOTE_LENGTH} characters`);
+    }
+    if (ReportLifecycle.isAction(action) && ReportLifecycle.needsNote(action) && !(typeof note === 'string' && note.trim())) {
+      errors.push(`a note is required to ${action} a report`);
+    }
+    if (errors.length > 0) {
+      throw new ReportLifecycleError('Invalid transition', 400, errors);
+    }
+
+    const report = await this.existingReport(reportId);
+    const validAction = action as ReportAction;
+    if (ReportLifecycle.isApproverAction(validAction)) {
+      this.refuseOwnReport(report, actor as string);
+    }
+    const to = ReportLifecycle.nextStatus(report.status, validAction);
+    if (!to) {
+      throw new ReportLifecycleError(
+        `A ${ReportLifecycle.statusLabel(report.status).toLowerCase()} report can't be changed with "${validAction}"`,
+        409,
+        [`allowed: ${ReportLifecycle.availableActions(report.status).join(', ') || 'none'}`]
+      );
+    }
+    if (validAction === 'submit') {
+      const problems = await this.submitProblems(report);
+      if (problems.length > 0) {
+        throw new ReportLifecycleError('Report is not ready to submit', 409, problems);
+      }
+    }
+    if (validAction === 'approve') {
+      const pending = await this.itemsAwaitingChanges(report.id);
+      if (pending.length > 0) {
+        throw new ReportLifecycleError('Some items still have changes requested; request changes instead', 409, pending);
+      }
+    }
+
+    const moved = await this.repository.transitionReport(reportId, {
+      action: validAction,
+      from: report.status,
+      to,
+      actor: (actor as string).trim(),
+      note: (note as string | undefined)?.trim() || undefined,
+    });
+    if (!moved) {
+      throw new ReportLifecycleError('Report was changed by someone else, reload and try again', 409);
+    }
+
+    const transitions = await this.repository.listTransitions(reportId);
+    console.log(`[ReportLifecycle] ${reportId}: ${report.status} -> ${to} by ${(actor as string).trim()}`);
+    return { report: moved, transition: transitions[transitions.length - 1] };
+  }
+
+  /**
+   * Records an approver's decision on a receipt or trip, a comment on it, or both.
+   * Only submitted reports are reviewed.
+   */
+  async addReview(reportId: string, body: unknown): Promise<ReportReview> {
+    const raw = (body && typeof body === 'object' && !Array.isArray(body) ? body : {}) as Record<string, unknown>;
+    const errors: string[] = [];
+    if (raw.subjectKind !== 'receipt' && raw.subjectKind !== 'mileage') errors.push('subjectKind must be "receipt" or "mileage"');
+    if (typeof raw.subjectId !== 'string' || !raw.subjectId) errors.push('subjectId is required');
+    if (raw.decision !== undefined && !ReportReviews.isDecision(raw.decision)) {
+      errors.push(`decision must be one of: ${REVIEW_DECISIONS.join(', ')}`);
+    }
+    if (raw.comment !== undefined && (typeof raw.comment !== 'string' || raw.comment.length > MAX_NOTE_LENGTH)) {
+      errors.push(`comment must be a string of at most ${MAX_NOTE_LENGTH} characters`);
+    }
+    if (raw.decision === undefined && !(typeof raw.comment === 'string' && raw.comment.trim())) {
+      errors.push('a decision or a comment is required');
+    }
+    if (typeof raw.reviewer !== 'string' || !raw.reviewer.trim() || raw.reviewer.length > MAX_ACTOR_LENGTH) {
+      errors.push('reviewer must be the name of the approver');
+    }
+    if (errors.length > 0) {
+      throw new ReportLifecycleError('Invalid review', 400, errors);
+    }
+
+    const report = await this.existingReport(reportId);
+    this.refuseOwnReport(report, raw.reviewer as string);
+    if (report.status !== 'submitted') {
+      throw new ReportLifecycleError(`Only submitted reports can be reviewed; this one is ${report.status}`, 409);
+    }
+    const subject = raw.subjectKind === 'receipt'
+      ? await this.repository.getReceipt(raw.subjectId as string)
+      : await this.repository.getMileageEntry(raw.subjectId as string);
+    if (!subject || subject.reportId !== reportId) {
+      throw new ReportLifecycleError(`No ${raw.subjectKind} ${raw.subjectId} on this report`, 404);
+    }
+
+    const review = await this.repository.addReview({
+      reportId,
+      subjectKind: raw.subjectKind as ReportReview['subjectKind'],
+      subjectId: raw.subjectId as string,
+      decision: raw.decision as ReportReview['decision'],
+      comment: (raw.comment as string | undefined)?.trim() || undefined,
+      reviewer: (raw.reviewer as string).trim(),
+    });
+    console.log(`[ReportLifecycle] ${reportId}: ${review.subjectKind} ${review.subjectId} reviewed by ${review.reviewer}`);
+    return review;
+  }
+
+  // The report, if its receipts, mileage entries and details may still change
+  async editableReport(reportId: string): Promise<ExpenseReportRecord> {
+    const report = await this.existingReport(reportId);
+    if (!ReportLifecycle.isEditable(report.status)) {
+      throw new ReportLifecycleError(
+        `Report is ${ReportLifecycle.statusLabel(report.status).toLowerCase()} and can't be edited`,
+        409
+      );
+    }
+    return report;
+  }
+
+  private async existingReport(reportId: string): Promise<ExpenseReportRecord> {
+    const report = await this.repository.getReport(reportId);
+    if (!report) {
+      throw new ReportLifecycleError('Report not found', 404);
+    }
+    return report;
+  }
+
+  // Approvers check the route's credential; this stops them signing off their own expenses
+  private refuseOwnReport(report: ExpenseReportRecord, approver: string) {
+    if (approver.trim().toLowerCase() === report.employeeName.trim().toLowerCase()) {
+      throw new ReportLifecycleError('Reports can only be approved and reviewed by someone other than their employee', 403);
+    }
+  }
+
+  // Items whose latest decision in this round of review is "change requested"
+  private async itemsAwaitingChanges(reportId: string): Promise<string[]> {
+    const [reviews, transitions] = await Promise.all([
+      this.repository.listReviews(reportId),
+      this.repository.listTransitions(reportId),
+    ]);
+    const round = ReportReviews.currentRound(reviews, transitions);
+    const subjects = new Map(round.map(review => [`${review.subjectKind}:${review.subjectId}`, review]));
+    return [...subjects.values()]
+      .filter(review => ReportReviews.latestDecision(round, review.subjectKind, review.subjectId) === 'changesRequested')
+      .map(review => `${review.subjectKind} ${review.subjectId}`);
+  }
+
+  // Same checks the page runs before it lets a report be generated
+  private async submitProblems(report: ExpenseReportRecord): Promise<string[]> {
+    const [receipts, mileageEntries, config] = await Promise.all([
+      this.repository.listReceipts(report.id),
+      this.repository.listMileageEntries({ reportId: report.id }),
+      this.companies.get(report.companyId),
+    ]);
+    const problems: string[] = [];
+
+    if (!report.employeeName.trim()) problems.push('employee name is missing');
+    if (receipts.length === 0 && mileageEntries.length === 0) problems.push('report has no receipts or mileage entries');
+    for (const receipt of receipts) {
+      if (!receipt.data.description?.trim() || !receipt.data.category?.trim()) {
+        problems.push(`receipt ${receipt.data.merchant || receipt.id} needs a purpose and a category`);
+      }
+    }
+
+    const violations = ExpensePolicy.evaluate(receipts, mileageEntries, {
+      rules: config.policyRules.filter(rule => rule.enabled),
+      categories: config.categories.map(category => ({ id: category.id, label: category.label })),
+    });
+    for (const violation of violations.filter(violation => ExpensePolicy.isBlocking(violation))) {
+      problems.push(violation.severity === 'hard' ? violation.message : `${violation.message} (needs a justification)`);
+    }
+    return problems;
+  }
+}
@@ -0,0 +1,111 @@
+// Report states and the moves between them; shared by the API and the browser
+
+export type ReportStatus = 'draft' | 'submitted' | 'approved' | 'rejected' | 'paid';
+
+export type ReportAction = 'submit' | 'approve' | 'reject' | 'requestChanges' | 'pay' | 'reopen';
+
+export interface ReportTransition {
+  id: number;
+  reportId: string;
+  action: ReportAction;
+  from: ReportStatus;
+  to: ReportStatus;
+  actor: string; // Name of whoever made the move
+  note?: string;
+  createdAt: string;
+}
+
+interface TransitionRule {
+  from: ReportStatus[];
+  to: ReportStatus;
+  label: string;
+  doneLabel: string; // For the history, e.g. "Approved by Jane Doe"
+  needsNote?: boolean;
+  byApprover?: boolean; // Needs the approver credential, and not the report's own employee
+}
+
+const TRANSITIONS: Record<ReportAction, TransitionRule> = {
+  submit: { from: ['draft'], to: 'submitted', label: 'Submit for approval', doneLabel: 'Submitted' },
+  approve: { from: ['submitted'], to: 'approved', label: 'Approve', doneLabel: 'Approved', byApprover: true },
+  reject: { from: ['submitted'], to: 'rejected', label: 'Reject', doneLabel: 'Rejected', needsNote: true, byApprover: true },
+  // Back to the employee as a draft, with the approver's comments on the receipts to fix
+  requestChanges: {
+    from: ['submitted'],
+    to: 'draft',
+    label: 'Request changes',
+    doneLabel: 'Changes requested',
+    needsNote: true,
+    byApprover: true,
+  },
+  pay: { from: ['approved'], to: 'paid', label: 'Mark as paid', doneLabel: 'Paid', byApprover: true },
+  // A rejected report goes back to its employee to fix and submit again
+  reopen: { from: ['rejected'], to: 'draft', label: 'Reopen for editing', doneLabel: 'Reopened' },
+};
+
+const STATUS_LABELS: Record<ReportStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Submitted',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  paid: 'Paid',
+};
+
+export const REPORT_STATUSES = Object.keys(STATUS_LABELS) as ReportStatus[];
+export const REPORT_ACTIONS = Object.keys(TRANSITIONS) as ReportAction[];
+
+/**
+ * The expense report state machine: draft → submitted → approved or rejected →
+ * paid. A submitted report can also be sent back as a draft for changes, and a
+ * rejected one reopened. Only drafts can be edited.
+ */
+export class ReportLifecycle {
+  // Reports are created with an id picked by the browser, or by the API when it sends none
+  static newReportId(): string {
+    return `report-${new Date().toISOString().slice(0, 10)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  static isStatus(value: unknown): value is ReportStatus {
+    return typeof value === 'string' && REPORT_STATUSES.includes(value as ReportStatus);
+  }
+
+  static isAction(value: unknown): value is ReportAction {
+    return typeof value === 'string' && REPORT_ACTIONS.includes(value as ReportAction);
+  }
+
+  static canTransition(status: ReportStatus, action: ReportAction): boolean {
+    return TRANSITIONS[action].from.includes(status);
+  }
+
+  // Status the action leads to, or null when it isn't allowed from `status`
+  static nextStatus(status: ReportStatus, action: ReportAction): ReportStatus | null {
+    return this.canTransition(status, action) ? TRANSITIONS[action].to : null;
+  }
+
+  static availableActions(status: ReportStatus): ReportAction[] {
+    return REPORT_ACTIONS.filter(action => this.canTransition(status, action));
+  }
+
+  static needsNote(action: ReportAction): boolean {
+    return !!TRANSITIONS[action].needsNote;
+  }
+
+  static isApproverAction(action: ReportAction): boolean {
+    return !!TRANSITIONS[action].byApprover;
+  }
+
+  static isEditable(status: ReportStatus): boolean {
+    return status === 'draft';
+  }
+
+  static statusLabel(status: ReportStatus): string {
+    return STATUS_LABELS[status];
+  }
+
+  static actionLabel(action: ReportAction): string {
+    return TRANSITIONS[action].label;
+  }
+
+  static doneLabel(action: ReportAction): string {
+    return TRANSITIONS[action].doneLabel;
+  }
+}
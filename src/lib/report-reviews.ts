@@ -0,0 +1,67 @@
+// Approver decisions and comments on the items of a report; shared by the API and the browser
+import type { ReportTransition } from './report-lifecycle';
+
+export type ReviewSubjectKind = 'receipt' | 'mileage';
+
+// What the approver decided about one receipt or trip
+export type ReviewDecision = 'approved' | 'rejected' | 'changesRequested';
+
+export interface ReportReview {
+  id: number;
+  reportId: string;
+  subjectKind: ReviewSubjectKind;
+  subjectId: string;
+  decision?: ReviewDecision;
+  comment?: string;
+  reviewer: string;
+  createdAt: string;
+}
+
+export type ReportReviewInput = Omit<ReportReview, 'id' | 'createdAt'>;
+
+const DECISION_LABELS: Record<ReviewDecision, string> = {
+  approved: 'Approved',
+  rejected: 'Rejected',
+  changesRequested: 'Change requested',
+};
+
+export const REVIEW_DECISIONS = Object.keys(DECISION_LABELS) as ReviewDecision[];
+
+/**
+ * Reads the review log of a report. Reviews are only ever added; an item's latest
+ * decision is the one that counts, and feedback belongs to the submission it was
+ * given on, so a resubmitted report starts with a clean slate.
+ */
+export class ReportReviews {
+  static isDecision(value: unknown): value is ReviewDecision {
+    return typeof value === 'string' && REVIEW_DECISIONS.includes(value as ReviewDecision);
+  }
+
+  static decisionLabel(decision: ReviewDecision): string {
+    return DECISION_LABELS[decision];
+  }
+
+  // Reviews given since the report was last submitted
+  static currentRound(reviews: ReportReview[], transitions: ReportTransition[]): ReportReview[] {
+    const lastSubmit = [...transitions].reverse().find(transition => transition.action === 'submit');
+    return lastSubmit ? reviews.filter(review => review.createdAt >= lastSubmit.createdAt) : [];
+  }
+
+  /**
+   * Feedback the employee still has to act on: the last round of reviews, once the
+   * report came back to them with changes requested
+   */
+  static openFeedback(reviews: ReportReview[], transitions: ReportTransition[]): ReportReview[] {
+    const last = transitions[transitions.length - 1];
+    if (last?.action !== 'requestChanges') return [];
+    return this.currentRound(reviews, transitions).filter(review => review.comment || review.decision !== 'approved');
+  }
+
+  static reviewsFor(reviews: ReportReview[], subjectKind: ReviewSubjectKind, subjectId: string): ReportReview[] {
+    return reviews.filter(review => review.subjectKind === subjectKind && review.subjectId === subjectId);
+  }
+
+  static latestDecision(reviews: ReportReview[], subjectKind: ReviewSubjectKind, subjectId: string): ReviewDecision | undefined {
+    return [...this.reviewsFor(reviews, subjectKind, subjectId)].reverse().find(review => review.decision)?.decision;
+  }
+}
@@ -0,0 +1,43 @@
+import { AwsServiceError } from './aws-errors';
+
+export interface RetryOptions {
+  label: string; // Used in log lines, e.g. "textract AnalyzeExpense"
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+export const RETRY_CONFIG = {
+  maxAttempts: parseInt(process.env.MYNEW_AWS_MAX_ATTEMPTS || '4', 10),
+  baseDelayMs: parseInt(process.env.MYNEW_AWS_RETRY_BASE_MS || '250', 10),
+  maxDelayMs: parseInt(process.env.MYNEW_AWS_RETRY_MAX_MS || '5000', 10),
+};
+
+const isRetryableAwsError = (error: unknown) => error instanceof AwsServiceError && error.retryable;
+
+/**
+ * Runs `operation`, retrying retryable failures with exponential backoff and full jitter
+ * (a random delay between 0 and base * 2^attempt, capped at maxDelayMs)
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? RETRY_CONFIG.maxAttempts);
+  const baseDelayMs = options.baseDelayMs ?? RETRY_CONFIG.baseDelayMs;
+  const maxDelayMs = options.maxDelayMs ?? RETRY_CONFIG.maxDelayMs;
+  const shouldRetry = options.shouldRetry ?? isRetryableAwsError;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxAttempts || !shouldRetry(error)) {
+        throw error;
+      }
+
+      const delayMs = Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt - 1)));
+      const reason = error instanceof AwsServiceError ? error.awsErrorName : error instanceof Error ? error.message : String(error);
+      console.warn(`[Retry] ${options.label} attempt ${attempt}/${maxAttempts} failed (${reason}), retrying in ${delayMs}ms`);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
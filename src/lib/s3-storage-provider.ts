@@ -0,0 +1,134 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { AWS_CONFIG, s3Client } from './aws-config';
+import { AwsServiceError, toAwsServiceError } from './aws-errors';
+import { withRetry } from './retry';
+import {
+  PutObjectInput,
+  SignedUrlOptions,
+  STORAGE_CONFIG,
+  StorageObjectNotFoundError,
+  StorageProvider,
+  StoredObject,
+  StoredObjectStream,
+  StoredObjectSummary,
+  UploadResult,
+} from './storage-provider';
+
+/**
+ * Stores objects in an S3 bucket, or any S3-compatible server (MinIO, LocalStack)
+ * when MYNEW_S3_ENDPOINT is set
+ */
+export class S3StorageProvider implements StorageProvider {
+  readonly name = 's3' as const;
+  readonly bucket: string;
+  readonly textractReadable: boolean;
+  private readonly client: S3Client;
+
+  constructor(client: S3Client = s3Client, bucket: string = AWS_CONFIG.s3BucketName, endpoint: string | undefined = AWS_CONFIG.s3Endpoint) {
+    this.client = client;
+    this.bucket = bucket;
+    // Textract can only read from real S3, not from a stand-in at a custom endpoint
+    this.textractReadable = !endpoint;
+  }
+
+  async put(input: PutObjectInput): Promise<UploadResult> {
+    await this.send('PutObject', () => this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: input.key,
+      Body: input.body,
+      ContentType: input.contentType,
+      Metadata: input.metadata,
+    })));
+
+    return { key: input.key, bucket: this.bucket };
+  }
+
+  async get(key: string): Promise<StoredObject> {
+    const response = await this.getObject(key);
+
+    return {
+      body: response.Body ? await response.Body.transformToByteArray() : new Uint8Array(),
+      contentType: response.ContentType,
+      metadata: response.Metadata || {},
+    };
+  }
+
+  async getStream(key: string): Promise<StoredObjectStream> {
+    const response = await this.getObject(key);
+
+    return {
+      stream: response.Body ? response.Body.transformToWebStream() : new ReadableStream<Uint8Array>({ start: controller => controller.close() }),
+      contentType: response.ContentType,
+      contentLength: response.ContentLength,
+      metadata: response.Metadata || {},
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.send('DeleteObject', () => this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    })));
+  }
+
+  async list(prefix: string): Promise<StoredObjectSummary[]> {
+    const objects: StoredObjectSummary[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.send('ListObjectsV2', () => this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      })));
+
+      page.Contents?.forEach(object => {
+        if (object.Key) {
+          objects.push({ key: object.Key, size: object.Size || 0, lastModified: object.LastModified });
+        }
+      });
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const command = options.method === 'PUT'
+      ? new PutObjectCommand({ Bucket: this.bucket, Key: key, ContentType: options.contentType, ContentLength: options.contentLength })
+      : new GetObjectCommand({ Bucket: this.bucket, Key: key });
+
+    return getSignedUrl(this.client, command, {
+      expiresIn: options.expiresInSeconds ?? STORAGE_CONFIG.signedUrlTtlSeconds,
+    });
+  }
+
+  private getObject(key: string) {
+    return this.send('GetObject', () => this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+    }))).catch(error => {
+      if (error instanceof AwsServiceError && (error.awsErrorName === 'NoSuchKey' || error.awsErrorName === 'NotFound')) {
+        throw new StorageObjectNotFoundError(key);
+      }
+      throw error;
+    });
+  }
+
+  private send<T>(operation: string, call: () => Promise<T>): Promise<T> {
+    return withRetry(async () => {
+      try {
+        return await call();
+      } catch (error) {
+        throw toAwsServiceError(error, 's3', operation);
+      }
+    }, { label: `s3 ${operation}` });
+  }
+}
@@ -0,0 +1,432 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type { ExtractedLineItem } from './textract-service';
+import { ReceiptNormalizer } from './receipt-normalizer';
+import { SqliteMigrations } from './sqlite-migrations';
+import type { ReportAction, ReportStatus, ReportTransition } from './report-lifecycle';
+import type { ReportReview, ReportReviewInput, ReviewDecision, ReviewSubjectKind } from './report-reviews';
+import type {
+  ExpenseReportRecord,
+  ExpenseRepository,
+  MileageEntryInput,
+  MileageEntryRecord,
+  MileageFilter,
+  ReceiptImageMetadata,
+  ReceiptInput,
+  ReceiptRecord,
+  ReportFilter,
+  ReportInput,
+  ReportTransitionInput,
+} from './expense-repository';
+
+interface ReportRow {
+  id: string;
+  company_id: string;
+  employee_name: string;
+  title: string | null;
+  status: ReportStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+interface TransitionRow {
+  id: number;
+  report_id: string;
+  action: ReportAction;
+  from_status: ReportStatus;
+  to_status: ReportStatus;
+  actor: string;
+  note: string | null;
+  created_at: string;
+}
+
+interface ReviewRow {
+  id: number;
+  report_id: string;
+  subject_kind: ReviewSubjectKind;
+  subject_id: string;
+  decision: ReviewDecision | null;
+  comment: string | null;
+  reviewer: string;
+  created_at: string;
+}
+
+interface ReceiptRow {
+  id: string;
+  report_id: string;
+  data: string;
+  upload_id: string | null;
+  dismissed_duplicates: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface LineItemRow {
+  receipt_id: string;
+  data: string;
+}
+
+interface ImageRow {
+  receipt_id: string;
+  storage_key: string | null;
+  content_hash: string | null;
+  perceptual_hash: string | null;
+  file_name: string | null;
+  content_type: string | null;
+  size_bytes: number | null;
+  archived_at: string | null;
+  retain_until: string | null;
+}
+
+interface MileageRow {
+  id: string;
+  report_id: string | null;
+  company_id: string;
+  trip_date: string;
+  start_address: string;
+  end_address: string;
+  business_purpose: string;
+  round_trip: number;
+  personal_commute: number;
+  calculated_distance: number;
+  reimbursable_distance: number;
+  reimbursable_amount: number;
+  policy_justifications: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * ExpenseRepository on a local SQLite file. better-sqlite3 is synchronous, which is
+ * fine for a single server process; the methods stay async to match the interface.
+ */
+export class SqliteExpenseRepository implements ExpenseRepository {
+  private readonly db: Database.Database;
+
+  constructor(databasePath: string) {
+    const inMemory = databasePath === ':memory:';
+    const path = inMemory ? databasePath : resolve(process.cwd(), databasePath);
+    if (!inMemory) {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    SqliteMigrations.apply(this.db);
+  }
+
+  async listReports(filter: ReportFilter = {}): Promise<ExpenseReportRecord[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM reports
+      WHERE (@companyId IS NULL OR company_id = @companyId)
+        AND (@employeeName IS NULL OR lower(employee_name) = lower(@employeeName))
+        AND (@status IS NULL OR status = @status)
+      ORDER BY updated_at DESC
+    `).all({
+      companyId: filter.companyId ?? null,
+      employeeName: filter.employeeName ?? null,
+      status: filter.status ?? null,
+    }) as ReportRow[];
+    return rows.map(row => this.toReport(row));
+  }
+
+  async getReport(id: string): Promise<ExpenseReportRecord | null> {
+    const row = this.db.prepare('SELECT * FROM reports WHERE id = ?').get(id) as ReportRow | undefined;
+    return row ? this.toReport(row) : null;
+  }
+
+  async createReport(id: string, input: ReportInput): Promise<ExpenseReportRecord> {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO reports (id, company_id, employee_name, title, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(id, input.companyId || '', input.employeeName || '', input.title ?? null, now, now);
+    return (await this.getReport(id))!;
+  }
+
+  async updateReport(id: string, changes: ReportInput): Promise<ExpenseReportRecord | null> {
+    const existing = await this.getReport(id);
+    if (!existing) return null;
+
+    this.db.prepare(`
+      UPDATE reports SET company_id = ?, employee_name = ?, title = ?, updated_at = ? WHERE id = ?
+    `).run(
+      changes.companyId ?? existing.companyId,
+      changes.employeeName ?? existing.employeeName,
+      changes.title ?? existing.title ?? null,
+      new Date().toISOString(),
+      id
+    );
+    return this.getReport(id);
+  }
+
+  async deleteReport(id: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM reports WHERE id = ?').run(id).changes > 0;
+  }
+
+  async transitionReport(id: string, transition: ReportTransitionInput): Promise<ExpenseReportRecord | null> {
+    const now = new Date().toISOString();
+    const moved = this.db.transaction(() => {
+      const { changes } = this.db.prepare('UPDATE reports SET status = ?, updated_at = ? WHERE id = ? AND status = ?')
+        .run(transition.to, now, id, transition.from);
+      if (changes === 0) return false;
+
+      this.db.prepare(`
+        INSERT INTO report_transitions (report_id, action, from_status, to_status, actor, note, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(id, transition.action, transition.from, transition.to, transition.actor, transition.note ?? null, now);
+      return true;
+    })();
+    return moved ? this.getReport(id) : null;
+  }
+
+  async listTransitions(reportId: string): Promise<ReportTransition[]> {
+    const rows = this.db.prepare('SELECT * FROM report_transitions WHERE report_id = ? ORDER BY id')
+      .all(reportId) as TransitionRow[];
+    return rows.map(row => ({
+      id: row.id,
+      reportId: row.report_id,
+      action: row.action,
+      from: row.from_status,
+      to: row.to_status,
+      actor: row.actor,
+      note: row.note ?? undefined,
+      createdAt: row.created_at,
+    }));
+  }
+
+  async addReview(input: ReportReviewInput): Promise<ReportReview> {
+    const { lastInsertRowid } = this.db.prepare(`
+      INSERT INTO report_reviews (report_id, subject_kind, subject_id, decision, comment, reviewer, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      input.reportId,
+      input.subjectKind,
+      input.subjectId,
+      input.decision ?? null,
+      input.comment ?? null,
+      input.reviewer,
+      new Date().toISOString()
+    );
+    const row = this.db.prepare('SELECT * FROM report_reviews WHERE id = ?').get(lastInsertRowid) as ReviewRow;
+    return this.toReview(row);
+  }
+
+  async listReviews(reportId: string): Promise<ReportReview[]> {
+    const rows = this.db.prepare('SELECT * FROM report_reviews WHERE report_id = ? ORDER BY id')
+      .all(reportId) as ReviewRow[];
+    return rows.map(row => this.toReview(row));
+  }
+
+  async listReceipts(reportId: string): Promise<ReceiptRecord[]> {
+    const rows = this.db.prepare('SELECT * FROM receipts WHERE report_id = ? ORDER BY created_at DESC, id')
+      .all(reportId) as ReceiptRow[];
+    return rows.map(row => this.toReceipt(row));
+  }
+
+  async getReceipt(id: string): Promise<ReceiptRecord | null> {
+    const row = this.db.prepare('SELECT * FROM receipts WHERE id = ?').get(id) as ReceiptRow | undefined;
+    return row ? this.toReceipt(row) : null;
+  }
+
+  async saveReceipt(reportId: string, input: ReceiptInput): Promise<ReceiptRecord> {
+    const { items, ...fields } = input.data;
+    // Raw Textract responses are large and only needed during analysis
+    const data = { ...fields, rawData: undefined };
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO receipts (id, report_id, merchant, receipt_date, total_minor, currency, category, data, upload_id, dismissed_duplicates, created_at, updated_at)
+        VALUES (@id, @reportId, @merchant, @date, @total, @currency, @category, @data, @uploadId, @dismissed, @now, @now)
+        ON CONFLICT (id) DO UPDATE SET
+          report_id = excluded.report_id,
+          merchant = excluded.merchant,
+          receipt_date = excluded.receipt_date,
+          total_minor = excluded.total_minor,
+          currency = excluded.currency,
+          category = excluded.category,
+          data = excluded.data,
+          upload_id = excluded.upload_id,
+          dismissed_duplicates = excluded.dismissed_duplicates,
+          updated_at = excluded.updated_at
+      `).run({
+        id: input.id,
+        reportId,
+        merchant: fields.merchant ?? null,
+        date: ReceiptNormalizer.isoDateOf(fields),
+        total: fields.normalized?.total ?? null,
+        currency: fields.normalized?.currency ?? null,
+        category: fields.category ?? null,
+        data: JSON.stringify(data),
+        uploadId: input.uploadId ?? null,
+        dismissed: input.dismissedDuplicates?.length ? JSON.stringify(input.dismissedDuplicates) : null,
+        now,
+      });
+
+      this.db.prepare('DELETE FROM line_items WHERE receipt_id = ?').run(input.id);
+      const insertItem = this.db.prepare(`
+        INSERT INTO line_items (receipt_id, position, description, price_minor, data) VALUES (?, ?, ?, ?, ?)
+      `);
+      (items || []).forEach((item, position) => {
+        insertItem.run(input.id, position, item.description ?? null, item.normalizedPrice ?? null, JSON.stringify(item));
+      });
+
+      this.db.prepare('DELETE FROM receipt_images WHERE receipt_id = ?').run(input.id);
+      if (input.image) {
+        this.db.prepare(`
+          INSERT INTO receipt_images (receipt_id, storage_key, content_hash, perceptual_hash, file_name, content_type, size_bytes, archived_at, retain_until)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          input.id,
+          input.image.storageKey ?? null,
+          input.image.contentHash ?? null,
+          input.image.perceptualHash ?? null,
+          input.image.fileName ?? null,
+          input.image.contentType ?? null,
+          input.image.sizeBytes ?? null,
+          input.image.archivedAt ?? null,
+          input.image.retainUntil ?? null
+        );
+      }
+    })();
+
+    return (await this.getReceipt(input.id))!;
+  }
+
+  async deleteReceipt(id: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM receipts WHERE id = ?').run(id).changes > 0;
+  }
+
+  async listMileageEntries(filter: MileageFilter = {}): Promise<MileageEntryRecord[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM mileage_entries
+      WHERE (@reportId IS NULL OR report_id = @reportId)
+        AND (@companyId IS NULL OR company_id = @companyId)
+      ORDER BY trip_date DESC, created_at DESC
+    `).all({ reportId: filter.reportId ?? null, companyId: filter.companyId ?? null }) as MileageRow[];
+    return rows.map(row => this.toMileageEntry(row));
+  }
+
+  async getMileageEntry(id: string): Promise<MileageEntryRecord | null> {
+    const row = this.db.prepare('SELECT * FROM mileage_entries WHERE id = ?').get(id) as MileageRow | undefined;
+    return row ? this.toMileageEntry(row) : null;
+  }
+
+  async saveMileageEntry(input: MileageEntryInput): Promise<MileageEntryRecord> {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO mileage_entries (
+        id, report_id, company_id, trip_date, start_address, end_address, business_purpose, round_trip,
+        personal_commute, calculated_distance, reimbursable_distance, reimbursable_amount, policy_justifications,
+        created_at, updated_at
+      ) VALUES (
+        @id, @reportId, @companyId, @date, @startAddress, @endAddress, @businessPurpose, @roundTrip,
+        @personalCommute, @calculatedDistance, @reimbursableDistance, @reimbursableAmount, @policyJustifications,
+        @now, @now
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        report_id = excluded.report_id,
+        company_id = excluded.company_id,
+        trip_date = excluded.trip_date,
+        start_address = excluded.start_address,
+        end_address = excluded.end_address,
+        business_purpose = excluded.business_purpose,
+        round_trip = excluded.round_trip,
+        personal_commute = excluded.personal_commute,
+        calculated_distance = excluded.calculated_distance,
+        reimbursable_distance = excluded.reimbursable_distance,
+        reimbursable_amount = excluded.reimbursable_amount,
+        policy_justifications = excluded.policy_justifications,
+        updated_at = excluded.updated_at
+    `).run({
+      ...input,
+      reportId: input.reportId ?? null,
+      roundTrip: input.roundTrip ? 1 : 0,
+      policyJustifications: input.policyJustifications ? JSON.stringify(input.policyJustifications) : null,
+      now,
+    });
+    return (await this.getMileageEntry(input.id))!;
+  }
+
+  async deleteMileageEntry(id: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM mileage_entries WHERE id = ?').run(id).changes > 0;
+  }
+
+  private toReport(row: ReportRow): ExpenseReportRecord {
+    return {
+      id: row.id,
+      companyId: row.company_id,
+      employeeName: row.employee_name,
+      title: row.title ?? undefined,
+      status: row.status,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private toReview(row: ReviewRow): ReportReview {
+    return {
+      id: row.id,
+      reportId: row.report_id,
+      subjectKind: row.subject_kind,
+      subjectId: row.subject_id,
+      decision: row.decision ?? undefined,
+      comment: row.comment ?? undefined,
+      reviewer: row.reviewer,
+      createdAt: row.created_at,
+    };
+  }
+
+  private toReceipt(row: ReceiptRow): ReceiptRecord {
+    const items = (this.db.prepare('SELECT receipt_id, data FROM line_items WHERE receipt_id = ? ORDER BY position')
+      .all(row.id) as LineItemRow[]).map(item => JSON.parse(item.data) as ExtractedLineItem);
+    const image = this.db.prepare('SELECT * FROM receipt_images WHERE receipt_id = ?').get(row.id) as ImageRow | undefined;
+
+    return {
+      id: row.id,
+      reportId: row.report_id,
+      data: { ...JSON.parse(row.data), items },
+      image: image ? this.toImage(image) : undefined,
+      uploadId: row.upload_id ?? undefined,
+      dismissedDuplicates: row.dismissed_duplicates ? JSON.parse(row.dismissed_duplicates) : undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private toImage(row: ImageRow): ReceiptImageMetadata {
+    return {
+      storageKey: row.storage_key ?? undefined,
+      contentHash: row.content_hash ?? undefined,
+      perceptualHash: row.perceptual_hash ?? undefined,
+      fileName: row.file_name ?? undefined,
+      contentType: row.content_type ?? undefined,
+      sizeBytes: row.size_bytes ?? undefined,
+      archivedAt: row.archived_at ?? undefined,
+      retainUntil: row.retain_until ?? undefined,
+    };
+  }
+
+  private toMileageEntry(row: MileageRow): MileageEntryRecord {
+    return {
+      id: row.id,
+      reportId: row.report_id ?? undefined,
+      companyId: row.company_id,
+      date: row.trip_date,
+      startAddress: row.start_address,
+      endAddress: row.end_address,
+      businessPurpose: row.business_purpose,
+      roundTrip: row.round_trip === 1,
+      personalCommute: row.personal_commute,
+      calculatedDistance: row.calculated_distance,
+      reimbursableDistance: row.reimbursable_distance,
+      reimbursableAmount: row.reimbursable_amount,
+      policyJustifications: row.policy_justifications ? JSON.parse(row.policy_justifications) : undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,150 @@
+import type Database from 'better-sqlite3';
+
+export interface SqliteMigration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Append only: a released migration is never edited, later changes get a new version
+export const SQLITE_MIGRATIONS: readonly SqliteMigration[] = [
+  {
+    version: 1,
+    name: 'create reports, receipts, line items, images and mileage entries',
+    sql: `
+      CREATE TABLE reports (
+        id TEXT PRIMARY KEY,
+        company_id TEXT NOT NULL,
+        employee_name TEXT NOT NULL DEFAULT '',
+        title TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX reports_by_company ON reports (company_id, employee_name);
+
+      CREATE TABLE receipts (
+        id TEXT PRIMARY KEY,
+        report_id TEXT NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+        merchant TEXT,
+        receipt_date TEXT,
+        total_minor INTEGER,
+        currency TEXT,
+        category TEXT,
+        data TEXT NOT NULL,
+        upload_id TEXT,
+        dismissed_duplicates TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX receipts_by_report ON receipts (report_id, created_at);
+
+      CREATE TABLE line_items (
+        receipt_id TEXT NOT NULL REFERENCES receipts (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        description TEXT,
+        price_minor INTEGER,
+        data TEXT NOT NULL,
+        PRIMARY KEY (receipt_id, position)
+      );
+
+      CREATE TABLE receipt_images (
+        receipt_id TEXT PRIMARY KEY REFERENCES receipts (id) ON DELETE CASCADE,
+        storage_key TEXT,
+        content_hash TEXT,
+        perceptual_hash TEXT,
+        file_name TEXT,
+        content_type TEXT,
+        size_bytes INTEGER,
+        archived_at TEXT,
+        retain_until TEXT
+      );
+      CREATE INDEX receipt_images_by_hash ON receipt_images (content_hash);
+
+      CREATE TABLE mileage_entries (
+        id TEXT PRIMARY KEY,
+        report_id TEXT REFERENCES reports (id) ON DELETE CASCADE,
+        company_id TEXT NOT NULL,
+        trip_date TEXT NOT NULL,
+        start_address TEXT NOT NULL,
+        end_address TEXT NOT NULL,
+        business_purpose TEXT NOT NULL,
+        round_trip INTEGER NOT NULL,
+        personal_commute REAL NOT NULL,
+        calculated_distance REAL NOT NULL,
+        reimbursable_distance REAL NOT NULL,
+        reimbursable_amount REAL NOT NULL,
+        policy_justifications TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX mileage_entries_by_report ON mileage_entries (report_id, trip_date);
+    `,
+  },
+  {
+    version: 2,
+    name: 'add report status and transition history',
+    sql: `
+      ALTER TABLE reports ADD COLUMN status TEXT NOT NULL DEFAULT 'draft';
+      CREATE INDEX reports_by_status ON reports (status, updated_at);
+
+      CREATE TABLE report_transitions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        report_id TEXT NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+        action TEXT NOT NULL,
+        from_status TEXT NOT NULL,
+        to_status TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        note TEXT,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX report_transitions_by_report ON report_transitions (report_id, id);
+    `,
+  },
+  {
+    version: 3,
+    name: 'add approver reviews of receipts and mileage entries',
+    sql: `
+      CREATE TABLE report_reviews (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        report_id TEXT NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+        subject_kind TEXT NOT NULL,
+        subject_id TEXT NOT NULL,
+        decision TEXT,
+        comment TEXT,
+        reviewer TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX report_reviews_by_report ON report_reviews (report_id, id);
+    `,
+  },
+];
+
+/**
+ * Brings a database up to the latest schema. Each migration runs in its own
+ * transaction and is recorded in schema_migrations, so a failed one can be retried.
+ */
+export class SqliteMigrations {
+  static apply(db: Database.Database, migrations: readonly SqliteMigration[] = SQLITE_MIGRATIONS): number {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+    const applied = new Set(
+      (db.prepare('SELECT version FROM schema_migrations').all() as Array<{ version: number }>).map(row => row.version)
+    );
+
+    const pending = migrations.filter(migration => !applied.has(migration.version));
+    for (const migration of pending) {
+      db.transaction(() => {
+        db.exec(migration.sql);
+        db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, new Date().toISOString());
+      })();
+      console.log(`[SqliteMigrations] Applied migration ${migration.version}: ${migration.name}`);
+    }
+    return pending.length;
+  }
+}
@@ -0,0 +1,96 @@
+import { S3StorageProvider } from './s3-storage-provider';
+import { LocalStorageProvider } from './local-storage-provider';
+
+export type StorageProviderName = 's3' | 'local';
+
+export interface UploadResult {
+  key: string;
+  bucket: string;
+}
+
+export interface PutObjectInput {
+  key: string;
+  body: Uint8Array;
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface StoredObject {
+  body: Uint8Array;
+  contentType?: string;
+  metadata: Record<string, string>;
+}
+
+export interface StoredObjectStream {
+  stream: ReadableStream<Uint8Array>;
+  contentType?: string;
+  contentLength?: number;
+  metadata: Record<string, string>;
+}
+
+export interface StoredObjectSummary {
+  key: string;
+  size: number;
+  lastModified?: Date;
+}
+
+export interface SignedUrlOptions {
+  method?: 'GET' | 'PUT';
+  expiresInSeconds?: number;
+  contentType?: string; // Required content type for PUT uploads
+  contentLength?: number; // Exact body size required for PUT uploads
+}
+
+export interface StorageProvider {
+  readonly name: StorageProviderName;
+  readonly bucket: string;
+  // Whether Textract can read objects straight from this storage (real S3 only)
+  readonly textractReadable: boolean;
+  put(input: PutObjectInput): Promise<UploadResult>;
+  get(key: string): Promise<StoredObject>;
+  // Same as get() without buffering the body, for download endpoints
+  getStream(key: string): Promise<StoredObjectStream>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): Promise<StoredObjectSummary[]>;
+  getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+}
+
+export class StorageObjectNotFoundError extends Error {
+  readonly key: string;
+
+  constructor(key: string) {
+    super(`Stored object not found: ${key}`);
+    this.name = 'StorageObjectNotFoundError';
+    this.key = key;
+  }
+}
+
+export const STORAGE_CONFIG = {
+  provider: (process.env.MYNEW_STORAGE_PROVIDER || 's3') as StorageProviderName,
+  localDir: process.env.MYNEW_STORAGE_LOCAL_DIR || '.storage',
+  // Base URL used to build signed URLs for the local provider, e.g. https://receipts.example.com
+  publicBaseUrl: process.env.MYNEW_PUBLIC_BASE_URL || 'http://localhost:3000',
+  signingSecret: process.env.MYNEW_STORAGE_SIGNING_SECRET || '',
+  signedUrlTtlSeconds: parseInt(process.env.MYNEW_STORAGE_SIGNED_URL_TTL_SECONDS || '900', 10),
+};
+
+let activeProvider: StorageProvider | null = null;
+
+export function getStorageProvider(): StorageProvider {
+  if (!activeProvider) {
+    activeProvider = createStorageProvider(STORAGE_CONFIG.provider);
+    console.log(`[StorageProvider] Using "${activeProvider.name}" storage provider`);
+  }
+  return activeProvider;
+}
+
+export function createStorageProvider(name: StorageProviderName): StorageProvider {
+  switch (name) {
+    case 's3':
+      return new S3StorageProvider();
+    case 'local':
+      return new LocalStorageProvider(STORAGE_CONFIG.localDir);
+    default:
+      throw new Error(`Unknown storage provider: ${name}. Expected "s3" or "local".`);
+  }
+}
@@ -0,0 +1,197 @@
+import {
+  AnalyzeExpenseCommand,
+  ExpenseDocument,
+  GetExpenseAnalysisCommand,
+  GetExpenseAnalysisResponse,
+  StartExpenseAnalysisCommand,
+} from '@aws-sdk/client-textract';
+import { textractClient } from './aws-config';
+import { OCR_CONFIG, OcrDocument, OcrProvider } from './ocr-provider';
+import { LocalOcrProvider } from './local-ocr-provider';
+import type { UploadResult } from './storage-provider';
+import { AnalysisTimeoutError, AwsServiceError, UnsupportedDocumentError, toAwsServiceError } from './aws-errors';
+import { withRetry } from './retry';
+
+export class TextractOcrProvider implements OcrProvider {
+  readonly name = 'textract' as const;
+  readonly requiresStorage = true;
+
+  async analyzeExpense(document: OcrDocument): Promise<ExpenseDocument[]> {
+    // The synchronous API only accepts single-page documents
+    const expenseDocuments = document.s3Object && (document.pageCount || 1) > 1
+      ? await this.analyzeMultiPageExpense(document.s3Object)
+      : await this.analyzeSinglePageOrFallback(document);
+
+    // Record the response so the local provider can replay it without AWS
+    if (OCR_CONFIG.recordFixtures && document.bytes) {
+      try {
+        await new LocalOcrProvider(OCR_CONFIG.fixturesDir).saveFixture(document.bytes, expenseDocuments);
+      } catch (error) {
+        console.warn('[TextractOcrProvider] Could not record fixture:', error);
+      }
+    }
+
+    return expenseDocuments;
+  }
+
+  private async analyzeSinglePageOrFallback(document: OcrDocument): Promise<ExpenseDocument[]> {
+    try {
+      return await this.analyzeSinglePageExpense(document);
+    } catch (error) {
+      // PDFs with compressed object streams can hide their page count, so retry those asynchronously
+      const isPdf = document.pageCount !== undefined;
+      if (isPdf && document.s3Object && error instanceof UnsupportedDocumentError) {
+        console.warn('[TextractOcrProvider] Synchronous analysis rejected the PDF, retrying with the asynchronous API');
+        return this.analyzeMultiPageExpense(document.s3Object);
+      }
+      throw error;
+    }
+  }
+
+  private async analyzeSinglePageExpense(document: OcrDocument): Promise<ExpenseDocument[]> {
+    const command = new AnalyzeExpenseCommand({
+      Document: document.s3Object
+        ? {
+            S3Object: {
+              Bucket: document.s3Object.bucket,
+              Name: document.s3Object.key,
+            },
+          }
+        : {
+            Bytes: document.bytes,
+          },
+    });
+
+    console.log('=== TEXTRACT API CALL ===');
+    if (document.s3Object) {
+      console.log('S3 Object:', { bucket: document.s3Object.bucket, key: document.s3Object.key });
+    } else {
+      console.log('Bytes:', document.bytes?.length || 0);
+    }
+
+    const response = await this.send('AnalyzeExpense', () => textractClient.send(command));
+
+    console.log('=== RAW TEXTRACT RESPONSE ===');
+    console.log('Response metadata:', response.$metadata);
+    console.log('Number of ExpenseDocuments:', response.ExpenseDocuments?.length || 0);
+
+    return response.ExpenseDocuments || [];
+  }
+
+  /**
+   * Runs StartExpenseAnalysis/GetExpenseAnalysis for multi-page PDFs and
+   * collects every page of results
+   */
+  private async analyzeMultiPageExpense(s3Object: UploadResult): Promise<ExpenseDocument[]> {
+    console.log('=== TEXTRACT ASYNC API CALL ===');
+    console.log('S3 Object:', { bucket: s3Object.bucket, key: s3Object.key });
+
+    const startResponse = await this.send('StartExpenseAnalysis', () => textractClient.send(new StartExpenseAnalysisCommand({
+      DocumentLocation: {
+        S3Object: {
+          Bucket: s3Object.bucket,
+          Name: s3Object.key,
+        },
+      },
+    })));
+
+    const jobId = startResponse.JobId;
+    if (!jobId) {
+      throw new Error('Textract did not return a JobId for StartExpenseAnalysis');
+    }
+    console.log('[TextractOcrProvider] Started expense analysis job:', jobId);
+
+    const firstPage = await this.waitForExpenseAnalysis(jobId);
+    const expenseDocuments = [...(firstPage.ExpenseDocuments || [])];
+
+    let nextToken = firstPage.NextToken;
+    while (nextToken) {
+      const page = await this.send('GetExpenseAnalysis', () =>
+        textractClient.send(new GetExpenseAnalysisCommand({ JobId: jobId, NextToken: nextToken }))
+      );
+      expenseDocuments.push(...(page.ExpenseDocuments || []));
+      nextToken = page.NextToken;
+    }
+
+    console.log('[TextractOcrProvider] Pages analyzed:', firstPage.DocumentMetadata?.Pages);
+    return this.mergeByExpenseIndex(expenseDocuments);
+  }
+
+  private async waitForExpenseAnalysis(jobId: string): Promise<GetExpenseAnalysisResponse> {
+    const deadline = Date.now() + OCR_CONFIG.asyncTimeoutMs;
+
+    while (Date.now() < deadline) {
+      const response = await this.send('GetExpenseAnalysis', () =>
+        textractClient.send(new GetExpenseAnalysisCommand({ JobId: jobId }))
+      );
+      console.log('[TextractOcrProvider] Job status:', response.JobStatus);
+
+      switch (response.JobStatus) {
+        case 'SUCCEEDED':
+          return response;
+        case 'PARTIAL_SUCCESS':
+          console.warn('[TextractOcrProvider] Partial success:', response.Warnings);
+          return response;
+        case 'FAILED':
+          throw new AwsServiceError(`Textract expense analysis failed: ${response.StatusMessage || 'Unknown reason'}`, {
+            service: 'textract',
+            operation: 'GetExpenseAnalysis',
+            awsErrorName: 'JobFailed',
+          });
+        default:
+          await new Promise(resolve => setTimeout(resolve, OCR_CONFIG.asyncPollIntervalMs));
+      }
+    }
+
+    throw new AnalysisTimeoutError(`Textract expense analysis job ${jobId} did not finish within ${OCR_CONFIG.asyncTimeoutMs}ms`, {
+      service: 'textract',
+      operation: 'GetExpenseAnalysis',
+      awsErrorName: 'JobTimeout',
+    });
+  }
+
+  /**
+   * Sends one Textract call, converting SDK errors to typed AwsServiceErrors and
+   * retrying throttling/unavailable responses with backoff
+   */
+  private send<T>(operation: string, call: () => Promise<T>): Promise<T> {
+    return withRetry(async () => {
+      try {
+        return await call();
+      } catch (error) {
+        throw toAwsServiceError(error, 'textract', operation);
+      }
+    }, { label: `textract ${operation}` });
+  }
+
+  /**
+   * A receipt that spans pages (e.g. a hotel folio) can come back split across
+   * result pages with the same ExpenseIndex, so stitch those back together
+   */
+  private mergeByExpenseIndex(expenseDocuments: ExpenseDocument[]): ExpenseDocument[] {
+    const merged = new Map<number, ExpenseDocument>();
+    const unindexed: ExpenseDocument[] = [];
+
+    expenseDocuments.forEach(document => {
+      if (document.ExpenseIndex === undefined) {
+        unindexed.push(document);
+        return;
+      }
+
+      const existing = merged.get(document.ExpenseIndex);
+      if (!existing) {
+        merged.set(document.ExpenseIndex, { ...document });
+        return;
+      }
+
+      existing.SummaryFields = [...(existing.SummaryFields || []), ...(document.SummaryFields || [])];
+      existing.LineItemGroups = [...(existing.LineItemGroups || []), ...(document.LineItemGroups || [])];
+      existing.Blocks = [...(existing.Blocks || []), ...(document.Blocks || [])];
+    });
+
+    return [
+      ...Array.from(merged.values()).sort((a, b) => (a.ExpenseIndex || 0) - (b.ExpenseIndex || 0)),
+      ...unindexed,
+    ];
+  }
+}
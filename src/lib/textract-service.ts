@@ -1,54 +1,131 @@
-import { AnalyzeExpenseCommand, ExpenseDocument } from '@aws-sdk/client-textract';
-import { textractClient } from './aws-config';
-import { UploadResult } from './s3-service';
+import { ExpenseDocument, ExpenseField, Geometry } from '@aws-sdk/client-textract';
+import type { UploadResult } from './storage-provider';
+import { getOcrProvider, OcrDocument } from './ocr-provider';
+import { NormalizedReceiptValues, ReceiptNormalizer } from './receipt-normalizer';
+import { PAYMENT_LABEL_PATTERN, PaymentDetailsParser } from './payment-details';
+import { AwsServiceError } from './aws-errors';
+
+export type ReceiptFieldName =
+  | 'merchant' | 'total' | 'date' | 'tax' | 'subtotal' | 'address' | 'phone'
+  | 'tip' | 'gratuity' | 'discount' | 'serviceCharge'
+  | 'paymentMethod' | 'cardLastFour' | 'receiptNumber';
+export type LineItemFieldName = 'description' | 'price' | 'quantity';
+
+export interface FieldBoundingBox {
+  // Ratios of the page width/height (0-1), as returned by Textract
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface FieldGeometry {
+  boundingBox: FieldBoundingBox;
+  pageNumber?: number;
+}
+
+export interface FieldDetection {
+  confidence?: number; // Textract ValueDetection confidence (0-100)
+  sourceType: string; // Textract field type the value was read from, e.g. "AMOUNT_PAID"
+  geometry?: FieldGeometry; // Where on the receipt image the value was read
+  reviewed?: boolean; // Set once the user has edited or confirmed the value
+}
+
+export type CategorySuggestionSource = 'merchant' | 'lineItem' | 'fieldHint' | 'learned';
+
+// Category filled in by the learned mappings or ReceiptCategorizer rather than chosen by the user
+export interface CategorySuggestion {
+  category: string; // Label that was filled into `category`
+  ruleId?: string; // Set for rule-based suggestions
+  source: CategorySuggestionSource;
+  matched: string; // Pattern, keyword or hint that matched
+  reviewed?: boolean; // Set once the user has confirmed or changed the category
+}
+
+// Purpose filled in from what was typed for the same merchant on earlier receipts
+export interface DescriptionSuggestion {
+  description: string;
+  count: number; // Earlier receipts the description was used on
+  reviewed?: boolean;
+}
+
+export interface ExtractedLineItem {
+  description?: string;
+  price?: string;
+  quantity?: string;
+  normalizedPrice?: number; // Minor units, see ReceiptNormalizer
+  fieldDetections?: Partial<Record<LineItemFieldName, FieldDetection>>;
+}
 
 export interface ExtractedReceiptData {
   description?: string; // User-entered description
+  descriptionSuggestion?: DescriptionSuggestion;
   merchant?: string;
   total?: string;
   date?: string;
   tax?: string;
   subtotal?: string;
+  tip?: string; // Tip written in by the customer
+  gratuity?: string; // Gratuity added by the merchant (e.g. large-party auto gratuity)
+  discount?: string;
+  serviceCharge?: string;
   address?: string;
   phone?: string;
+  paymentMethod?: string; // e.g. "Visa", "Amex", "Cash"
+  cardLastFour?: string;
+  receiptNumber?: string; // Receipt or invoice number printed by the merchant
   category?: string; // Expense category
-  items?: Array<{
-    description?: string;
-    price?: string;
-    quantity?: string;
-  }>;
+  categorySuggestion?: CategorySuggestion;
+  policyJustifications?: Record<string, string>; // Reasons given for soft policy violations, by rule id
+  items?: ExtractedLineItem[];
+  fieldDetections?: Partial<Record<ReceiptFieldName, FieldDetection>>;
+  normalized?: NormalizedReceiptValues; // Typed amounts/date/currency derived from the raw text above
   rawData: unknown;
 }
 
+export type AnalysisPath = 'bytes' | 's3' | 'cache';
+
+// Textract's synchronous APIs accept at most 5 MB when the document is passed as raw bytes
+export const TEXTRACT_MAX_BYTES = 5 * 1024 * 1024;
+
 export class TextractService {
-  static async analyzeExpense(s3Object: UploadResult): Promise<ExtractedReceiptData> {
-    const command = new AnalyzeExpenseCommand({
-      Document: {
-        S3Object: {
-          Bucket: s3Object.bucket,
-          Name: s3Object.key,
-        },
-      },
-    });
+  static async analyzeExpense(s3Object: UploadResult, fileBuffer?: Uint8Array, pageCount?: number): Promise<ExtractedReceiptData[]> {
+    return this.analyzeDocument({ s3Object, bytes: fileBuffer, pageCount });
+  }
+
+  static async analyzeExpenseFromBuffer(fileBuffer: Uint8Array): Promise<ExtractedReceiptData[]> {
+    return this.analyzeDocument({ bytes: fileBuffer });
+  }
+
+  static requiresStorage(): boolean {
+    return getOcrProvider().requiresStorage;
+  }
+
+  /**
+   * Picks how a validated upload reaches the OCR provider. Single-page JPEG/PNG images
+   * within the byte limit are sent inline, which skips the S3 PutObject/DeleteObject;
+   * PDFs (possibly multi-page) and larger files go through S3.
+   */
+  static selectAnalysisPath(byteLength: number, format?: string): Exclude<AnalysisPath, 'cache'> {
+    if (!this.requiresStorage()) return 'bytes';
+    if (format !== 'jpeg' && format !== 'png') return 's3';
+    return byteLength <= TEXTRACT_MAX_BYTES ? 'bytes' : 's3';
+  }
+
+  private static async analyzeDocument(document: OcrDocument): Promise<ExtractedReceiptData[]> {
+    const provider = getOcrProvider();
 
     try {
-      console.log('=== TEXTRACT API CALL ===');
-      console.log('S3 Object:', { bucket: s3Object.bucket, key: s3Object.key });
-      
-      const response = await textractClient.send(command);
-      
-      console.log('=== RAW TEXTRACT RESPONSE ===');
-      console.log('Response metadata:', response.$metadata);
-      console.log('Number of ExpenseDocuments:', response.ExpenseDocuments?.length || 0);
-      
-      if (response.ExpenseDocuments && response.ExpenseDocuments.length > 0) {
+      const expenseDocuments = await provider.analyzeExpense(document);
+
+      if (expenseDocuments.length > 0) {
         console.log('=== FULL EXPENSE DOCUMENTS ===');
-        console.log(JSON.stringify(response.ExpenseDocuments, null, 2));
+        console.log(JSON.stringify(expenseDocuments, null, 2));
       } else {
         console.log('⚠️ NO EXPENSE DOCUMENTS FOUND IN RESPONSE');
       }
       
-      const parsedResult = this.parseExpenseResponse(response.ExpenseDocuments || []);
+      const parsedResult = this.parseExpenseResponse(expenseDocuments);
       
       console.log('=== FINAL PARSED RESULT ===');
       console.log(JSON.stringify(parsedResult, null, 2));
@@ -56,43 +133,46 @@ export class TextractService {
       
       return parsedResult;
     } catch (error) {
-      console.error('Error analyzing expense with Textract:', error);
+      console.error(`Error analyzing expense with ${provider.name} OCR provider:`, error);
+      // Typed AWS errors carry what the route needs to pick a status code
+      if (error instanceof AwsServiceError) {
+        throw error;
+      }
+      if (provider.name === 'local') {
+        throw new Error(`Failed to analyze receipt with local OCR provider: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
       throw new Error('Failed to analyze receipt with Textract');
     }
   }
 
-  static async analyzeExpenseFromBuffer(fileBuffer: Uint8Array): Promise<ExtractedReceiptData> {
-    const command = new AnalyzeExpenseCommand({
-      Document: {
-        Bytes: fileBuffer,
-      },
-    });
+  private static parseExpenseResponse(expenseDocuments: ExpenseDocument[]): ExtractedReceiptData[] {
+    console.log('=== PARSING EXPENSE RESPONSE ===');
+    console.log('ExpenseDocuments count:', expenseDocuments.length);
 
-    try {
-      const response = await textractClient.send(command);
-      return this.parseExpenseResponse(response.ExpenseDocuments || []);
-    } catch (error) {
-      console.error('Error analyzing expense with Textract:', error);
-      throw new Error('Failed to analyze receipt with Textract');
+    if (expenseDocuments.length === 0) {
+      console.log('⚠️ No expense documents to parse');
+      // Still return an empty receipt so the user can fill it in by hand
+      return [ReceiptNormalizer.normalize({
+        items: [],
+        fieldDetections: {},
+        rawData: expenseDocuments,
+      })];
     }
+
+    // Each ExpenseDocument is a separate receipt (several receipts in one scan, or a multi-page folio)
+    return expenseDocuments.map((document, documentIndex) => this.parseExpenseDocument(document, documentIndex));
   }
 
-  private static parseExpenseResponse(expenseDocuments: ExpenseDocument[]): ExtractedReceiptData {
-    console.log('=== PARSING EXPENSE RESPONSE ===');
-    console.log('ExpenseDocuments count:', expenseDocuments.length);
-    
+  private static parseExpenseDocument(document: ExpenseDocument, documentIndex: number): ExtractedReceiptData {
+    const fieldDetections: Partial<Record<ReceiptFieldName, FieldDetection>> = {};
     const result: ExtractedReceiptData = {
       items: [],
-      rawData: expenseDocuments,
+      fieldDetections,
+      rawData: document,
     };
+    let currencyCode: string | undefined;
 
-    if (expenseDocuments.length === 0) {
-      console.log('⚠️ No expense documents to parse');
-      return result;
-    }
-
-    const document = expenseDocuments[0];
-    console.log('Processing document with:');
+    console.log(`Processing document ${documentIndex + 1} with:`);
     console.log('- SummaryFields count:', document.SummaryFields?.length || 0);
     console.log('- LineItemGroups count:', document.LineItemGroups?.length || 0);
 
@@ -103,6 +183,11 @@ export class TextractService {
       const value = field.ValueDetection?.Text;
       const confidence = field.ValueDetection?.Confidence;
 
+      // Textract reports the currency on amount fields when it can tell
+      if (field.Currency?.Code && !currencyCode) {
+        currencyCode = field.Currency.Code.toUpperCase();
+      }
+
       console.log(`Field ${index + 1}:`, {
         type: field.Type?.Text,
         normalizedType: type,
@@ -116,38 +201,91 @@ export class TextractService {
         return;
       }
 
-      switch (type) {
+      const detection: FieldDetection = {
+        confidence,
+        sourceType: field.Type?.Text || type,
+        geometry: this.extractGeometry(field),
+      };
+
+      const label = field.LabelDetection?.Text;
+
+      switch (this.resolveSummaryType(type, label)) {
         case 'vendor_name':
         case 'merchant_name':
           result.merchant = value;
+          fieldDetections.merchant = detection;
           console.log(`  ✅ Set merchant: "${value}"`);
           break;
         case 'total':
         case 'amount_paid':
           result.total = value;
+          fieldDetections.total = detection;
           console.log(`  ✅ Set total: "${value}"`);
           break;
         case 'invoice_receipt_date':
         case 'date':
           result.date = value;
+          fieldDetections.date = detection;
           console.log(`  ✅ Set date: "${value}"`);
           break;
         case 'tax':
           result.tax = value;
+          fieldDetections.tax = detection;
           console.log(`  ✅ Set tax: "${value}"`);
           break;
         case 'subtotal':
           result.subtotal = value;
+          fieldDetections.subtotal = detection;
           console.log(`  ✅ Set subtotal: "${value}"`);
           break;
+        case 'tip':
+          result.tip = value;
+          fieldDetections.tip = detection;
+          console.log(`  ✅ Set tip: "${value}"`);
+          break;
+        case 'gratuity':
+          result.gratuity = value;
+          fieldDetections.gratuity = detection;
+          console.log(`  ✅ Set gratuity: "${value}"`);
+          break;
+        case 'discount':
+          result.discount = value;
+          fieldDetections.discount = detection;
+          console.log(`  ✅ Set discount: "${value}"`);
+          break;
+        case 'service_charge':
+          result.serviceCharge = value;
+          fieldDetections.serviceCharge = detection;
+          console.log(`  ✅ Set service charge: "${value}"`);
+          break;
+        case 'invoice_receipt_id':
+          result.receiptNumber = value;
+          fieldDetections.receiptNumber = detection;
+          console.log(`  ✅ Set receipt number: "${value}"`);
+          break;
+        case 'payment': {
+          const payment = PaymentDetailsParser.parse(`${label || ''} ${value}`);
+          if (payment.paymentMethod && !result.paymentMethod) {
+            result.paymentMethod = payment.paymentMethod;
+            fieldDetections.paymentMethod = detection;
+          }
+          if (payment.cardLastFour && !result.cardLastFour) {
+            result.cardLastFour = payment.cardLastFour;
+            fieldDetections.cardLastFour = detection;
+          }
+          console.log(`  ✅ Set payment details:`, payment);
+          break;
+        }
         case 'vendor_address':
         case 'merchant_address':
           result.address = value;
+          fieldDetections.address = detection;
           console.log(`  ✅ Set address: "${value}"`);
           break;
         case 'vendor_phone':
         case 'merchant_phone':
           result.phone = value;
+          fieldDetections.phone = detection;
           console.log(`  ✅ Set phone: "${value}"`);
           break;
         default:
@@ -156,6 +294,8 @@ export class TextractService {
       }
     });
 
+    this.applyPaymentLines(document, result);
+
     // Process Line Items
     console.log('=== PROCESSING LINE ITEMS ===');
     document.LineItemGroups?.forEach((group, groupIndex) => {
@@ -168,7 +308,8 @@ export class TextractService {
           fieldsCount: lineItem.LineItemExpenseFields?.length || 0
         });
         
-        const item: Record<string, string> = {};
+        const item: ExtractedLineItem = {};
+        const itemDetections: Partial<Record<LineItemFieldName, FieldDetection>> = {};
         
         lineItem.LineItemExpenseFields?.forEach((field, fieldIndex) => {
           const type = field.Type?.Text?.toLowerCase();
@@ -188,19 +329,28 @@ export class TextractService {
             return;
           }
 
+          const detection: FieldDetection = {
+            confidence,
+            sourceType: field.Type?.Text || type,
+            geometry: this.extractGeometry(field),
+          };
+
           switch (type) {
             case 'item':
             case 'product_code':
               item.description = value;
+              itemDetections.description = detection;
               console.log(`      ✅ Set item description: "${value}"`);
               break;
             case 'price':
             case 'unit_price':
               item.price = value;
+              itemDetections.price = detection;
               console.log(`      ✅ Set item price: "${value}"`);
               break;
             case 'quantity':
               item.quantity = value;
+              itemDetections.quantity = detection;
               console.log(`      ✅ Set item quantity: "${value}"`);
               break;
             default:
@@ -211,6 +361,7 @@ export class TextractService {
 
         console.log(`    Final item object:`, item);
         if (Object.keys(item).length > 0) {
+          item.fieldDetections = itemDetections;
           result.items?.push(item);
           console.log(`    ✅ Added item to results (total items: ${result.items?.length})`);
         } else {
@@ -239,9 +390,82 @@ export class TextractService {
     console.log('- subtotal:', result.subtotal);
     console.log('- address:', result.address);
     console.log('- phone:', result.phone);
+    console.log('- paymentMethod:', result.paymentMethod);
+    console.log('- cardLastFour:', result.cardLastFour);
+    console.log('- receiptNumber:', result.receiptNumber);
     console.log('- items:', result.items);
     console.log('=== END PARSING RESULT ===');
 
-    return result;
+    return ReceiptNormalizer.normalize(result, currencyCode);
+  }
+
+  /**
+   * Textract reports tips as GRATUITY or as OTHER with the printed label, so the label
+   * decides between tip, merchant-added gratuity, service charge and discount
+   */
+  private static resolveSummaryType(type: string, label?: string): string {
+    if (type !== 'other' && type !== 'gratuity') return type;
+
+    const text = label?.toLowerCase() || '';
+    if (/\btip\b/.test(text)) return 'tip';
+    if (/gratuity|\bgrat\b/.test(text)) return 'gratuity';
+    if (/service\s*(charge|fee)/.test(text)) return 'service_charge';
+    if (/discount|coupon|promo|savings/.test(text)) return 'discount';
+    if (PAYMENT_LABEL_PATTERN.test(text)) return 'payment';
+    return type;
+  }
+
+  /**
+   * Payment lines ("VISA XXXX1234") are rarely summary fields, so fill any payment
+   * details still missing from the document's raw OCR lines
+   */
+  private static applyPaymentLines(document: ExpenseDocument, result: ExtractedReceiptData) {
+    if (result.paymentMethod && result.cardLastFour) return;
+
+    const lines = (document.Blocks || [])
+      .filter(block => block.BlockType === 'LINE' && block.Text)
+      .map(block => ({ block, payment: PaymentDetailsParser.parse(block.Text || '') }));
+
+    // A line with card digits beats a "We accept Visa" banner
+    const cardLine = lines.find(line => line.payment.cardLastFour);
+    const methodLine = cardLine?.payment.paymentMethod ? cardLine : lines.find(line => line.payment.paymentMethod);
+
+    const detectionFor = (line: typeof lines[number]): FieldDetection => ({
+      confidence: line.block.Confidence,
+      sourceType: 'LINE',
+      geometry: this.toFieldGeometry(line.block.Geometry, line.block.Page),
+    });
+
+    if (!result.paymentMethod && methodLine) {
+      result.paymentMethod = methodLine.payment.paymentMethod;
+      result.fieldDetections = { ...result.fieldDetections, paymentMethod: detectionFor(methodLine) };
+      console.log(`  ✅ Set payment method from OCR line: "${methodLine.block.Text}"`);
+    }
+    if (!result.cardLastFour && cardLine) {
+      result.cardLastFour = cardLine.payment.cardLastFour;
+      result.fieldDetections = { ...result.fieldDetections, cardLastFour: detectionFor(cardLine) };
+      console.log(`  ✅ Set card last four from OCR line: "${cardLine.block.Text}"`);
+    }
+  }
+
+  private static extractGeometry(field: ExpenseField): FieldGeometry | undefined {
+    return this.toFieldGeometry(field.ValueDetection?.Geometry, field.PageNumber);
+  }
+
+  private static toFieldGeometry(geometry?: Geometry, pageNumber?: number): FieldGeometry | undefined {
+    const box = geometry?.BoundingBox;
+    if (!box || box.Left === undefined || box.Top === undefined || box.Width === undefined || box.Height === undefined) {
+      return undefined;
+    }
+
+    return {
+      boundingBox: {
+        left: box.Left,
+        top: box.Top,
+        width: box.Width,
+        height: box.Height,
+      },
+      pageNumber,
+    };
   }
 }
\ No newline at end of file